@@ -4,13 +4,28 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { FamilyTreeProvider } from "./context/FamilyTreeContext";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/Home";
+import AuthPage from "@/pages/AuthPage";
+import InvitePage from "@/pages/InvitePage";
 import NotFound from "@/pages/not-found";
 
+// Tree data is only loaded once someone is logged in
+function TreeHome() {
+  return (
+    <FamilyTreeProvider>
+      <Home />
+    </FamilyTreeProvider>
+  );
+}
+
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={TreeHome} />
+      <ProtectedRoute path="/invite/:token" component={InvitePage} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +35,10 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <FamilyTreeProvider>
+        <AuthProvider>
           <Toaster />
           <Router />
-        </FamilyTreeProvider>
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { Connector } from "@/lib/treeLayout";
+import { Area, getConnectorPaths } from "@/lib/canvasNavigation";
+
+interface ConnectorLayerProps {
+  connectors: Connector[];
+  // The part of the tree to draw, in layout coordinates
+  viewport: Area;
+}
+
+/**
+ * Draws all tree lines as one SVG covering only the visible part of the
+ * tree, so large trees don't need a DOM element per line
+ */
+export default function ConnectorLayer({ connectors, viewport }: ConnectorLayerProps) {
+  const { x, y, width, height } = viewport;
+
+  const { linePath, linkPath } = useMemo(
+    () => getConnectorPaths(connectors, { x, y, width, height }),
+    [connectors, x, y, width, height]
+  );
+
+  return (
+    <svg
+      className="tree-connectors absolute pointer-events-none"
+      style={{
+        left: `${x}px`,
+        top: `${y}px`,
+        zIndex: 0
+      }}
+      width={width}
+      height={height}
+      viewBox={`${x} ${y} ${width} ${height}`}
+    >
+      <path d={linePath} stroke="#718096" strokeWidth={2} fill="none" />
+      <path d={linkPath} stroke="#a0aec0" strokeWidth={2} strokeDasharray="6 4" fill="none" />
+    </svg>
+  );
+}
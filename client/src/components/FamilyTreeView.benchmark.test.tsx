@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { performance } from 'perf_hooks';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { buildFamilyTree } from '@/lib/treeUtils';
+import { layoutFamilyTree, TreeLayout } from '@/lib/treeLayout';
+import { generateBenchmarkTree } from '@/lib/benchmarkTree';
+import {
+  Area,
+  CanvasView,
+  DEFAULT_ZOOM_LIMITS,
+  OVERSCAN,
+  expandArea,
+  getVisibleArea,
+  isInArea
+} from '@/lib/canvasNavigation';
+import ConnectorLayer from './ConnectorLayer';
+import PersonCard from './PersonCard';
+
+// Limits for a 10,000-person tree, with room for a slow single-core machine
+const TREE_SIZE = 10000;
+const MAX_LAYOUT_MS = 1500;
+// A frame of panning: culling, connector paths and rendering what is left.
+// At 100% zoom it has to fit in one frame at 60 frames a second.
+const MAX_FRAME_P95_MS = 16;
+const MAX_ZOOMED_OUT_FRAME_P95_MS = 100;
+// At most this share of the tree is rendered at once at 100% zoom
+const MAX_RENDERED_SHARE = 0.01;
+
+const SCREEN = { width: 1280, height: 800 };
+// About five seconds of dragging at 60 frames a second
+const PAN_FRAMES = 300;
+// How far the view moves between frames, in screen pixels
+const PAN_STEP = 40;
+
+// Height of a person card in the layout
+const NODE_HEIGHT = 120;
+
+type FrameStats = { rendered: number; culled: number; ms: number };
+
+/**
+ * Renders what the tree view renders for one view of the canvas: the
+ * connectors and the cards inside the visible area plus the overscan
+ */
+function renderFrame(layout: TreeLayout, view: CanvasView): FrameStats {
+  const start = performance.now();
+  const viewport: Area = expandArea(getVisibleArea(view, SCREEN), OVERSCAN);
+  const visibleNodes = layout.nodes.filter(node => isInArea(node, viewport));
+
+  renderToStaticMarkup(
+    <div style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}>
+      <ConnectorLayer connectors={layout.connectors} viewport={viewport} />
+      {visibleNodes.map(node => (
+        <div key={`person-${node.person.id}-${node.x}-${node.y}`} style={{ position: 'absolute', left: node.x, top: node.y }}>
+          <PersonCard person={node.person} onClick={() => {}} />
+        </div>
+      ))}
+    </div>
+  );
+
+  return {
+    rendered: visibleNodes.length,
+    culled: layout.nodes.length - visibleNodes.length,
+    ms: performance.now() - start
+  };
+}
+
+/** Pans right along a row of the tree, starting from the middle of the tree */
+function panAlong(layout: TreeLayout, rowY: number, zoom: number): FrameStats[] {
+  const frames: FrameStats[] = [];
+  const startX = SCREEN.width / 2 - (layout.dimensions.width / 2) * zoom;
+  const y = SCREEN.height / 2 - rowY * zoom;
+  for (let frame = 0; frame < PAN_FRAMES; frame++) {
+    frames.push(renderFrame(layout, { x: startX - frame * PAN_STEP, y, zoom }));
+  }
+  return frames;
+}
+
+function percentile(values: number[], share: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))];
+}
+
+function report(label: string, frames: FrameStats[]) {
+  const times = frames.map(frame => frame.ms);
+  const rendered = frames.map(frame => frame.rendered);
+  console.log(
+    `${label}: ${frames.length} frames, ` +
+    `p95 ${percentile(times, 0.95).toFixed(1)} ms, max ${Math.max(...times).toFixed(1)} ms, ` +
+    `rendered ${Math.min(...rendered)}–${Math.max(...rendered)} of ${frames[0].rendered + frames[0].culled} people`
+  );
+}
+
+describe(`panning a ${TREE_SIZE.toLocaleString('en')}-person tree`, { timeout: 30000 }, () => {
+  const data = generateBenchmarkTree(TREE_SIZE);
+  let layout: TreeLayout;
+
+  it(`lays out the tree in under ${MAX_LAYOUT_MS} ms`, () => {
+    const start = performance.now();
+    layout = layoutFamilyTree(buildFamilyTree(data));
+    const ms = performance.now() - start;
+    console.log(`layout: ${ms.toFixed(0)} ms for ${layout.nodes.length} people, ${layout.connectors.length} connectors`);
+
+    expect(layout.nodes).toHaveLength(TREE_SIZE);
+    expect(ms).toBeLessThan(MAX_LAYOUT_MS);
+  });
+
+  it('renders only the people near the screen and keeps frames fast', () => {
+    // The middle of the busiest row: the generation with the most people
+    const rowSizes = new Map<number, number>();
+    layout.nodes.forEach(node => rowSizes.set(node.y, (rowSizes.get(node.y) ?? 0) + 1));
+    const [busiestRowY] = Array.from(rowSizes).sort((a, b) => b[1] - a[1])[0];
+    const rowY = busiestRowY + NODE_HEIGHT / 2;
+
+    // Warm up so the measured frames don't pay for compiling the render path
+    panAlong(layout, rowY, 1);
+    const frames = panAlong(layout, rowY, 1);
+    report('pan at 100%', frames);
+
+    frames.forEach(frame => {
+      expect(frame.rendered).toBeGreaterThan(0);
+      expect(frame.rendered).toBeLessThanOrEqual(TREE_SIZE * MAX_RENDERED_SHARE);
+    });
+    expect(percentile(frames.map(frame => frame.ms), 0.95)).toBeLessThan(MAX_FRAME_P95_MS);
+  });
+
+  it('keeps frames usable when zoomed all the way out', () => {
+    const frames = panAlong(layout, layout.dimensions.height / 2, DEFAULT_ZOOM_LIMITS.minZoom);
+    report(`pan at ${DEFAULT_ZOOM_LIMITS.minZoom * 100}%`, frames);
+
+    frames.forEach(frame => expect(frame.culled).toBeGreaterThan(0));
+    expect(percentile(frames.map(frame => frame.ms), 0.95)).toBeLessThan(MAX_ZOOMED_OUT_FRAME_P95_MS);
+  });
+});
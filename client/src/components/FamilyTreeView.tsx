@@ -1,43 +1,226 @@
-import { useState, useEffect, useRef } from "react";
-import { useFamilyTree } from "@/context/FamilyTreeContext";
-import { buildFamilyTree } from "@/lib/treeUtils";
-import { layoutFamilyTree } from "@/lib/treeLayout";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useFamilyTree, FocusRequest } from "@/context/FamilyTreeContext";
+import { buildFamilyTree, buildPersonsMap, countDescendants } from "@/lib/treeUtils";
+import { layoutFamilyTree, layoutPedigree, layoutDescendants, layoutHourglass, TreeLayout, TreeNode } from "@/lib/treeLayout";
 import { FamilyTreePerson, Person } from "@shared/schema";
 import PersonCard from "./PersonCard";
-import TreeConnector from "./TreeConnector";
+import ConnectorLayer from "./ConnectorLayer";
+import RelationshipCalculator from "./RelationshipCalculator";
+import TreeMinimap from "./TreeMinimap";
+import FanChart from "./FanChart";
+import { downloadSvg, FanColorMode } from "@/lib/fanChart";
+import {
+  CanvasView,
+  NavigationDirection,
+  Point,
+  DEFAULT_ZOOM_LIMITS,
+  OVERSCAN,
+  centerView,
+  clampZoom,
+  expandArea,
+  findAdjacentPerson,
+  getVisibleArea,
+  isInArea,
+  zoomAt
+} from "@/lib/canvasNavigation";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type ChartMode = 'tree' | 'pedigree' | 'descendants' | 'hourglass' | 'fan';
+
+const GENERATION_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+const FAN_GENERATION_OPTIONS = [2, 3, 4, 5, 6, 7, 8, 9, 10];
+const DEPTH_OPTIONS = [1, 2, 3, 4, 5, 6];
+
+// The tree starts below the chart mode toolbar
+const INITIAL_VIEW: CanvasView = { x: 32, y: 64, zoom: 1 };
+
+// Zoom step of the toolbar buttons and the +/- keys
+const ZOOM_STEP = 1.2;
+
+const ARROW_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'parent',
+  ArrowDown: 'child',
+  ArrowLeft: 'previousSibling',
+  ArrowRight: 'nextSibling'
+};
+
+// How long a person found with the search stays marked
+const FOCUS_FLASH_MS = 2000;
+
+// Collapsed branches of the descendant chart are kept across reloads
+const COLLAPSED_STORAGE_KEY = 'familyTreeCollapsed';
+
+function loadCollapsedIds(): number[] {
+  try {
+    const saved = localStorage.getItem(COLLAPSED_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading collapsed branches:', error);
+    return [];
+  }
+}
 
 interface FamilyTreeViewProps {
   onPersonClick: (person: Person) => void;
+  onAddParent: (child: Person, role: 'father' | 'mother') => void;
+  minZoom?: number;
+  maxZoom?: number;
 }
 
-export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
-  const { data } = useFamilyTree();
-  const [zoomLevel, setZoomLevel] = useState(1);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+export default function FamilyTreeView({
+  onPersonClick,
+  onAddParent,
+  minZoom = DEFAULT_ZOOM_LIMITS.minZoom,
+  maxZoom = DEFAULT_ZOOM_LIMITS.maxZoom
+}: FamilyTreeViewProps) {
+  const { data, selectedPersonId, setSelectedPersonId, highlightedPersonIds, focusRequest, canEdit } = useFamilyTree();
+  const [chartMode, setChartMode] = useState<ChartMode>('tree');
+  const [generations, setGenerations] = useState(4);
+  const [collapsedIds, setCollapsedIds] = useState<number[]>(loadCollapsedIds);
+  const [ancestorDepth, setAncestorDepth] = useState(2);
+  const [descendantDepth, setDescendantDepth] = useState(2);
+  const [fanGenerations, setFanGenerations] = useState(5);
+  const [fanColorMode, setFanColorMode] = useState<FanColorMode>('gender');
+  const fanChartRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<CanvasView>(INITIAL_VIEW);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  // Touches from the last touch event, to pan and pinch relative to them
+  const touchPointsRef = useRef<Point[]>([]);
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false);
+  const [flashPersonId, setFlashPersonId] = useState<number | null>(null);
+  const handledFocusRef = useRef<FocusRequest | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
   
   // Build the tree from the flat data
-  const treeRoots: FamilyTreePerson[] = buildFamilyTree(data);
+  const treeRoots: FamilyTreePerson[] = useMemo(() => buildFamilyTree(data), [data]);
+  const personsMap = useMemo(() => buildPersonsMap(data), [data]);
+  
+  // Every chart except the full tree starts from the selected person
+  const chartRoot = selectedPersonId !== null ? personsMap.get(selectedPersonId) : undefined;
+  
+  // Generate the layout for visualization, only when its inputs change
+  const treeLayout: TreeLayout = useMemo(() => {
+    if (chartMode === 'tree') {
+      return layoutFamilyTree(treeRoots);
+    }
+    if (!chartRoot || chartMode === 'fan') {
+      // The fan chart lays itself out
+      return { nodes: [], connectors: [], dimensions: { width: 0, height: 0 } };
+    }
+    if (chartMode === 'pedigree') {
+      return layoutPedigree(chartRoot, generations);
+    }
+    if (chartMode === 'hourglass') {
+      return layoutHourglass(chartRoot, ancestorDepth, descendantDepth);
+    }
+    return layoutDescendants(chartRoot, new Set(collapsedIds));
+  }, [chartMode, treeRoots, chartRoot, generations, ancestorDepth, descendantDepth, collapsedIds]);
+  
+  const highlightedIds = useMemo(() => new Set(highlightedPersonIds), [highlightedPersonIds]);
+  
+  // Track the container size to know which part of the tree is on screen
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    
+    const observer = new ResizeObserver(() => {
+      setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+  
+  const zoomLimits = { minZoom, maxZoom };
+  
+  // The visible part of the tree in layout coordinates
+  const visibleArea = getVisibleArea(view, containerSize);
+  
+  // What gets rendered: the visible part plus some margin
+  const viewport = expandArea(visibleArea, OVERSCAN);
   
-  // Generate the layout for visualization
-  const treeLayout = layoutFamilyTree(treeRoots);
+  const visibleNodes = treeLayout.nodes.filter(node => isInArea(node, viewport));
+  // Viewers can't add the missing parents
+  const visibleSlots = canEdit ? treeLayout.emptySlots?.filter(slot => isInArea(slot, viewport)) ?? [] : [];
+  
+  useEffect(() => {
+    localStorage.setItem(COLLAPSED_STORAGE_KEY, JSON.stringify(collapsedIds));
+  }, [collapsedIds]);
+  
+  const getContainerCenter = (): Point => {
+    const container = containerRef.current;
+    return container
+      ? { x: container.clientWidth / 2, y: container.clientHeight / 2 }
+      : { x: 0, y: 0 };
+  };
+  
+  // Converts a pointer position to canvas coordinates
+  const getCanvasPoint = (clientX: number, clientY: number): Point => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    return bounds ? { x: clientX - bounds.left, y: clientY - bounds.top } : { x: clientX, y: clientY };
+  };
+  
+  // Pans so the given layout point is in the middle of the screen
+  const centerOn = (point: Point, zoom = view.zoom) => {
+    setView(centerView(point, getContainerCenter(), zoom));
+  };
+  
+  const nodeCenter = (node: TreeNode) => ({
+    x: node.x + node.width / 2,
+    y: node.y + node.height / 2
+  });
+  
+  // Keep the hourglass focus in the middle of the screen
+  const focusNode = chartMode === 'hourglass'
+    ? treeLayout.nodes.find(node => node.person.id === selectedPersonId)
+    : undefined;
+  useEffect(() => {
+    if (focusNode) centerOn(nodeCenter(focusNode));
+  }, [chartMode, selectedPersonId, focusNode?.x, focusNode?.y]);
+  
+  // Bring a person found with the search into view, at normal size. People
+  // outside the current chart are looked up in the full tree instead.
+  useEffect(() => {
+    if (!focusRequest || handledFocusRef.current === focusRequest) return;
+    
+    const node = treeLayout.nodes.find(n => n.person.id === focusRequest.personId);
+    if (!node) {
+      if (chartMode !== 'tree') setChartMode('tree');
+      return;
+    }
+    
+    centerOn(nodeCenter(node), Math.max(view.zoom, clampZoom(1, zoomLimits)));
+    setFlashPersonId(node.person.id);
+    handledFocusRef.current = focusRequest;
+  }, [focusRequest, treeLayout]);
+  
+  useEffect(() => {
+    if (flashPersonId === null) return;
+    const timer = setTimeout(() => setFlashPersonId(null), FOCUS_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [flashPersonId, focusRequest]);
+  
+  const toggleCollapsed = (personId: number) => {
+    setCollapsedIds(prev => prev.includes(personId)
+      ? prev.filter(id => id !== personId)
+      : [...prev, personId]
+    );
+  };
   
-  // Handle zoom in
+  // Zoom buttons and keys zoom toward the middle of the screen
   const handleZoomIn = () => {
-    setZoomLevel(prev => Math.min(prev + 0.1, 2));
+    setView(prev => zoomAt(prev, ZOOM_STEP, getContainerCenter(), zoomLimits));
   };
   
-  // Handle zoom out
   const handleZoomOut = () => {
-    setZoomLevel(prev => Math.max(prev - 0.1, 0.5));
+    setView(prev => zoomAt(prev, 1 / ZOOM_STEP, getContainerCenter(), zoomLimits));
   };
   
   // Handle reset view
   const handleResetView = () => {
-    setZoomLevel(1);
-    setPan({ x: 0, y: 0 });
+    setView({ ...INITIAL_VIEW, zoom: clampZoom(INITIAL_VIEW.zoom, zoomLimits) });
   };
   
   // Mouse events for panning
@@ -51,7 +234,7 @@ export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
     if (!isDragging) return;
     const dx = e.clientX - dragStart.x;
     const dy = e.clientY - dragStart.y;
-    setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
     setDragStart({ x: e.clientX, y: e.clientY });
   };
   
@@ -64,34 +247,227 @@ export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
     setIsDragging(false);
   };
   
-  // Wheel event for zooming
-  const handleWheel = (e: React.WheelEvent) => {
+  // Touch: one finger pans, two fingers pinch-zoom around their midpoint
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchPointsRef.current = Array.from(e.touches).map(touch => getCanvasPoint(touch.clientX, touch.clientY));
+  };
+  
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const previous = touchPointsRef.current;
+    const current = Array.from(e.touches).map(touch => getCanvasPoint(touch.clientX, touch.clientY));
+    touchPointsRef.current = current;
+    if (current.length !== previous.length || current.length === 0) return;
+    
+    if (current.length === 1) {
+      const dx = current[0].x - previous[0].x;
+      const dy = current[0].y - previous[0].y;
+      setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+      return;
+    }
+    
+    const midpoint = (points: Point[]) => ({ x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 });
+    const distance = (points: Point[]) => Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+    const previousMidpoint = midpoint(previous);
+    const currentMidpoint = midpoint(current);
+    const factor = distance(previous) > 0 ? distance(current) / distance(previous) : 1;
+    
+    setView(prev => {
+      const zoomed = zoomAt(prev, factor, previousMidpoint, zoomLimits);
+      return {
+        ...zoomed,
+        x: zoomed.x + currentMidpoint.x - previousMidpoint.x,
+        y: zoomed.y + currentMidpoint.y - previousMidpoint.y
+      };
+    });
+  };
+  
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    touchPointsRef.current = Array.from(e.touches).map(touch => getCanvasPoint(touch.clientX, touch.clientY));
+  };
+  
+  // Keyboard: arrows move the selection through the family, Enter opens
+  // the selected person and +/- zoom
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave keys pressed on the toolbar and other controls to them
+    if (e.target !== e.currentTarget) return;
+    
+    if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      handleZoomIn();
+      return;
+    }
+    if (e.key === '-' || e.key === '_') {
+      e.preventDefault();
+      handleZoomOut();
+      return;
+    }
+    
+    const selected = selectedPersonId !== null ? personsMap.get(selectedPersonId) : undefined;
+    if (e.key === 'Enter') {
+      if (selected) {
+        e.preventDefault();
+        onPersonClick(selected);
+      }
+      return;
+    }
+    
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (!direction) return;
     e.preventDefault();
-    const delta = e.deltaY > 0 ? -0.05 : 0.05;
-    setZoomLevel(prev => Math.max(0.5, Math.min(prev + delta, 2)));
+    
+    // Without a selection, start from the first person in the chart
+    const next = selected
+      ? findAdjacentPerson(selected, direction, treeLayout.nodes)
+      : treeLayout.nodes[0]?.person;
+    if (!next) return;
+    setSelectedPersonId(next.id);
+    
+    // Follow the selection when it moves off screen
+    const node = treeLayout.nodes.find(n => n.person.id === next.id);
+    if (node && !(
+      node.x >= visibleArea.x && node.x + node.width <= visibleArea.x + visibleArea.width &&
+      node.y >= visibleArea.y && node.y + node.height <= visibleArea.y + visibleArea.height
+    )) {
+      centerOn(nodeCenter(node));
+    }
   };
   
-  // Add event listeners
+  // Wheel and trackpad pinch zoom toward the pointer. React can't register
+  // non-passive wheel listeners, which are needed to stop the page scrolling.
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
     
-    container.addEventListener('wheel', handleWheel as unknown as EventListener, { passive: false });
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = container.getBoundingClientRect();
+      const pointer = { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+      // Trackpads report small steps, mouse wheels larger ones
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002));
+      setView(prev => zoomAt(prev, factor, pointer, { minZoom, maxZoom }));
+    };
+    
+    container.addEventListener('wheel', handleWheel, { passive: false });
     return () => {
-      container.removeEventListener('wheel', handleWheel as unknown as EventListener);
+      container.removeEventListener('wheel', handleWheel);
     };
-  }, []);
+  }, [minZoom, maxZoom]);
   
   return (
+    <>
     <div 
       ref={containerRef}
-      className="family-tree-container relative w-full h-full"
+      className="family-tree-container relative w-full h-full focus:outline-none"
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseLeave}
-      style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      style={{ cursor: isDragging ? 'grabbing' : 'grab', touchAction: 'none' }}
     >
+      {/* Chart mode */}
+      <div 
+        className="absolute top-4 left-4 z-10 bg-white shadow-md rounded-md p-2 flex space-x-2"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <Select value={chartMode} onValueChange={(value) => setChartMode(value as ChartMode)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="tree">Family tree</SelectItem>
+            <SelectItem value="pedigree">Pedigree</SelectItem>
+            <SelectItem value="descendants">Descendants</SelectItem>
+            <SelectItem value="hourglass">Hourglass</SelectItem>
+            <SelectItem value="fan">Fan chart</SelectItem>
+          </SelectContent>
+        </Select>
+        {chartMode === 'pedigree' && (
+          <Select value={generations.toString()} onValueChange={(value) => setGenerations(parseInt(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GENERATION_OPTIONS.map(count => (
+                <SelectItem key={count} value={count.toString()}>
+                  {count} generations
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {chartMode === 'hourglass' && (
+          <>
+            <Select value={ancestorDepth.toString()} onValueChange={(value) => setAncestorDepth(parseInt(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPTH_OPTIONS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>
+                    Ancestors: {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={descendantDepth.toString()} onValueChange={(value) => setDescendantDepth(parseInt(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPTH_OPTIONS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>
+                    Descendants: {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        {chartMode === 'fan' && (
+          <>
+            <Select value={fanGenerations.toString()} onValueChange={(value) => setFanGenerations(parseInt(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FAN_GENERATION_OPTIONS.map(count => (
+                  <SelectItem key={count} value={count.toString()}>
+                    {count} generations
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={fanColorMode} onValueChange={(value) => setFanColorMode(value as FanColorMode)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="gender">Color by gender</SelectItem>
+                <SelectItem value="birthCountry">Color by birth country</SelectItem>
+                <SelectItem value="birthDate">Color by known birth date</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button 
+              variant="outline"
+              disabled={!chartRoot}
+              onClick={() => {
+                if (fanChartRef.current && chartRoot) {
+                  downloadSvg(fanChartRef.current, `${chartRoot.name} fan chart.svg`);
+                }
+              }}
+            >
+              Export SVG
+            </Button>
+          </>
+        )}
+      </div>
+      
       {/* Toolbar */}
       <div className="absolute top-4 right-4 z-10 bg-white shadow-md rounded-md p-2 flex space-x-2">
         <button 
@@ -121,27 +497,47 @@ export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
         </button>
+        <button 
+          className="text-accent hover:text-primary p-1" 
+          title="How are we related?"
+          onClick={() => setIsCalculatorOpen(true)}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+          </svg>
+        </button>
       </div>
       
       {/* The actual tree visualization with zoom and pan */}
       <div 
-        className="family-tree relative ml-8 mt-16" 
+        className="family-tree relative" 
         style={{
-          transform: `scale(${zoomLevel}) translate(${pan.x}px, ${pan.y}px)`,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
           transformOrigin: 'top left',
           width: treeLayout.dimensions.width + 200,
           height: treeLayout.dimensions.height + 100
         }}
       >
+        {chartMode === 'fan' && chartRoot && (
+          <FanChart 
+            ref={fanChartRef}
+            rootPerson={chartRoot}
+            generations={fanGenerations}
+            colorMode={fanColorMode}
+            onSelectPerson={(person) => setSelectedPersonId(person.id)}
+          />
+        )}
+        
         {/* Render all the connectors first so they appear behind person cards */}
-        {treeLayout.connectors.map((connector, index) => (
-          <TreeConnector key={index} connector={connector} />
-        ))}
+        {treeLayout.connectors.length > 0 && (
+          <ConnectorLayer connectors={treeLayout.connectors} viewport={viewport} />
+        )}
         
-        {/* Render all the person nodes */}
-        {treeLayout.nodes.map((node) => (
+        {/* Render the person nodes on screen; the rest are skipped until panned to */}
+        {/* Ancestors can appear more than once in a pedigree, so keys include the position */}
+        {visibleNodes.map((node) => (
           <div 
-            key={`person-${node.person.id}`}
+            key={`person-${node.person.id}-${node.x}-${node.y}`}
             style={{
               position: 'absolute',
               left: `${node.x}px`,
@@ -150,12 +546,69 @@ export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
           >
             <PersonCard 
               person={node.person} 
-              onClick={() => onPersonClick(node.person)}
+              onClick={() => chartMode === 'hourglass' ? setSelectedPersonId(node.person.id) : onPersonClick(node.person)}
+              onEdit={() => onPersonClick(node.person)}
+              highlighted={highlightedIds.has(node.person.id)}
             />
+            
+            {flashPersonId === node.person.id && (
+              <div className="absolute inset-0 rounded-md ring-4 ring-primary animate-pulse pointer-events-none" />
+            )}
+            
+            {/* Collapse toggle, with the number of hidden descendants when collapsed */}
+            {chartMode === 'descendants' && (node.person.children?.length ?? 0) > 0 && (
+              <button 
+                className="absolute left-1/2 -translate-x-1/2 -bottom-3 z-10 min-w-6 h-6 px-2 rounded-full bg-white border border-gray-300 shadow text-xs font-medium text-accent hover:text-primary"
+                title={collapsedIds.includes(node.person.id) ? 'Expand' : 'Collapse'}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => toggleCollapsed(node.person.id)}
+              >
+                {collapsedIds.includes(node.person.id) ? `+${countDescendants(node.person)}` : '−'}
+              </button>
+            )}
           </div>
         ))}
+        
+        {/* Missing parents in a pedigree */}
+        {visibleSlots.map((slot) => (
+          <button 
+            key={`slot-${slot.childId}-${slot.role}-${slot.x}-${slot.y}`}
+            className="absolute flex items-center justify-center border-2 border-dashed border-gray-300 rounded-md text-gray-500 hover:border-primary hover:text-primary bg-white/60"
+            style={{
+              left: `${slot.x}px`,
+              top: `${slot.y}px`,
+              width: `${slot.width}px`,
+              height: `${slot.height}px`
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => {
+              const child = data.persons.find(p => p.id === slot.childId);
+              if (child) onAddParent(child, slot.role);
+            }}
+          >
+            + Add {slot.role}
+          </button>
+        ))}
       </div>
       
+      {/* Overview of the whole chart */}
+      {treeLayout.nodes.length > 0 && (
+        <TreeMinimap 
+          layout={treeLayout}
+          visibleArea={visibleArea}
+          onNavigate={(point) => centerOn(point)}
+        />
+      )}
+      
+      {/* Pedigree or descendant chart without a selected person */}
+      {chartMode !== 'tree' && !chartRoot && treeRoots.length > 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-500 pointer-events-none">
+          <p>
+            Select a person in the sidebar to see their {chartMode === 'descendants' ? 'descendants' : chartMode === 'hourglass' ? 'family' : 'ancestors'}.
+          </p>
+        </div>
+      )}
+      
       {/* Empty tree state */}
       {treeRoots.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center text-gray-500">
@@ -172,5 +625,14 @@ export default function FamilyTreeView({ onPersonClick }: FamilyTreeViewProps) {
         </div>
       )}
     </div>
+    
+    {/* Rendered outside the canvas so dialog clicks don't start panning */}
+    {isCalculatorOpen && (
+      <RelationshipCalculator 
+        isOpen={isCalculatorOpen}
+        onClose={() => setIsCalculatorOpen(false)}
+      />
+    )}
+    </>
   );
 }
@@ -0,0 +1,170 @@
+import { forwardRef } from "react";
+import { FamilyTreePerson } from "@shared/schema";
+import { formatDate } from "@/lib/treeUtils";
+import {
+  layoutFanChart,
+  getFanColor,
+  wedgePath,
+  polarToCartesian,
+  FanColor,
+  FanColorMode,
+  FanWedge
+} from "@/lib/fanChart";
+
+interface FanChartProps {
+  rootPerson: FamilyTreePerson;
+  generations: number;
+  colorMode: FanColorMode;
+  onSelectPerson: (person: FamilyTreePerson) => void;
+}
+
+const MARGIN = 20;
+const LEGEND_ROW_HEIGHT = 24;
+// Outer generations have narrow wedges, so their names run along the radius
+const RADIAL_LABEL_GENERATION = 4;
+
+// The chart is exported as a standalone file, so it is styled with
+// attributes only rather than CSS classes
+const FONT_FAMILY = 'system-ui, sans-serif';
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return maxChars > 1 ? `${text.slice(0, maxChars - 1)}…` : '';
+}
+
+function describePerson(person: FamilyTreePerson): string {
+  const dates = [formatDate(person.birthDate), formatDate(person.deathDate)].filter(Boolean).join(' - ');
+  return dates ? `${person.name} (${dates})` : person.name;
+}
+
+/**
+ * Positions a wedge's name: along the arc for inner generations, along the
+ * radius for outer ones, and never upside down
+ */
+function WedgeLabel({ wedge, cx, cy }: { wedge: FanWedge; cx: number; cy: number }) {
+  const middleAngle = (wedge.startAngle + wedge.endAngle) / 2;
+  const middleRadius = (wedge.innerRadius + wedge.outerRadius) / 2;
+  const { x, y } = polarToCartesian(cx, cy, middleRadius, middleAngle);
+  const fontSize = Math.max(8, 14 - wedge.generation);
+
+  let rotation: number;
+  let available: number;
+  if (wedge.generation < RADIAL_LABEL_GENERATION) {
+    rotation = Math.abs(middleAngle) > 90 ? middleAngle + 180 : middleAngle;
+    available = middleRadius * (wedge.endAngle - wedge.startAngle) * Math.PI / 180;
+  } else {
+    rotation = middleAngle < 0 ? middleAngle + 90 : middleAngle - 90;
+    available = wedge.outerRadius - wedge.innerRadius - 8;
+  }
+
+  // Radial labels also need room across the wedge for the text height
+  const arcWidth = middleRadius * (wedge.endAngle - wedge.startAngle) * Math.PI / 180;
+  if (wedge.generation >= RADIAL_LABEL_GENERATION && arcWidth < fontSize) return null;
+
+  const label = truncate(wedge.person.name, Math.floor(available / (fontSize * 0.6)));
+  if (!label) return null;
+
+  return (
+    <text
+      x={x}
+      y={y}
+      fontSize={fontSize}
+      fontFamily={FONT_FAMILY}
+      fill="#1f2937"
+      textAnchor="middle"
+      dominantBaseline="central"
+      transform={`rotate(${rotation} ${x} ${y})`}
+      pointerEvents="none"
+    >
+      {label}
+    </text>
+  );
+}
+
+const FanChart = forwardRef<SVGSVGElement, FanChartProps>(function FanChart(
+  { rootPerson, generations, colorMode, onSelectPerson },
+  ref
+) {
+  const { wedges, centerRadius, radius } = layoutFanChart(rootPerson, generations);
+
+  const cx = radius + MARGIN;
+  const cy = radius + MARGIN;
+  const width = 2 * (radius + MARGIN);
+  const chartBottom = cy + Math.max(radius / 2, centerRadius) + MARGIN;
+
+  // Legend entries for the colors in use, wrapped into rows
+  const legend = new Map<string, FanColor>();
+  [rootPerson, ...wedges.map(wedge => wedge.person)].forEach(person => {
+    const color = getFanColor(person, colorMode);
+    legend.set(color.label, color);
+  });
+  const legendItems: { color: FanColor; x: number; y: number }[] = [];
+  let legendX = MARGIN;
+  let legendY = chartBottom;
+  Array.from(legend.values()).forEach(color => {
+    const itemWidth = 28 + color.label.length * 7;
+    if (legendX + itemWidth > width - MARGIN && legendX > MARGIN) {
+      legendX = MARGIN;
+      legendY += LEGEND_ROW_HEIGHT;
+    }
+    legendItems.push({ color, x: legendX, y: legendY });
+    legendX += itemWidth + 12;
+  });
+  const height = legendY + LEGEND_ROW_HEIGHT + MARGIN;
+
+  const rootColor = getFanColor(rootPerson, colorMode);
+
+  return (
+    <svg
+      ref={ref}
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#ffffff" />
+
+      {wedges.map((wedge, index) => (
+        <g key={index} onClick={() => onSelectPerson(wedge.person)} cursor="pointer">
+          <path
+            d={wedgePath(wedge, cx, cy)}
+            fill={getFanColor(wedge.person, colorMode).fill}
+            stroke="#ffffff"
+            strokeWidth={1.5}
+          >
+            <title>{describePerson(wedge.person)}</title>
+          </path>
+          <WedgeLabel wedge={wedge} cx={cx} cy={cy} />
+        </g>
+      ))}
+
+      {/* The person the chart is centered on */}
+      <circle cx={cx} cy={cy} r={centerRadius} fill={rootColor.fill} stroke="#ffffff" strokeWidth={1.5}>
+        <title>{describePerson(rootPerson)}</title>
+      </circle>
+      <text
+        x={cx}
+        y={cy}
+        fontSize={15}
+        fontWeight={600}
+        fontFamily={FONT_FAMILY}
+        fill="#1f2937"
+        textAnchor="middle"
+        dominantBaseline="central"
+      >
+        {truncate(rootPerson.name, Math.floor(2 * centerRadius / 9))}
+      </text>
+
+      {legendItems.map(({ color, x, y }) => (
+        <g key={color.label}>
+          <rect x={x} y={y} width={16} height={16} rx={3} fill={color.fill} stroke="#9ca3af" strokeWidth={0.5} />
+          <text x={x + 22} y={y + 8} fontSize={12} fontFamily={FONT_FAMILY} fill="#374151" dominantBaseline="central">
+            {color.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+});
+
+export default FanChart;
@@ -0,0 +1,116 @@
+import { GedcomImportReport } from "@/lib/gedcom";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+
+interface GedcomReportDialogProps {
+  report: GedcomImportReport | null;
+  onClose: () => void;
+}
+
+// Long lists are cut off so huge files don't render thousands of rows
+const MAX_LISTED = 200;
+
+export default function GedcomReportDialog({ report, onClose }: GedcomReportDialogProps) {
+  if (!report) return null;
+
+  const hasIssues = report.droppedTags.length > 0 ||
+    report.unmappedRecords.length > 0 ||
+    report.dateIssues.length > 0 ||
+    report.malformedLines > 0;
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>GEDCOM Import Report</DialogTitle>
+          <DialogDescription>
+            Imported {report.personCount} people, {report.familyCount} families and {report.relationshipCount} relationships
+            ({report.encoding} encoding).
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {!hasIssues && (
+            <p className="text-sm text-gray-600">Everything in the file was imported.</p>
+          )}
+
+          {report.malformedLines > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              {report.malformedLines} malformed lines were skipped.
+            </p>
+          )}
+
+          {report.droppedTags.length > 0 && (
+            <section className="mb-4">
+              <h3 className="text-md font-medium mb-2">Dropped tags</h3>
+              <ul className="text-sm space-y-1">
+                {report.droppedTags.slice(0, MAX_LISTED).map(({ path, count }) => (
+                  <li key={path} className="flex justify-between bg-gray-50 rounded px-2 py-1">
+                    <span className="font-mono">{path}</span>
+                    <span className="text-gray-500">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {report.unmappedRecords.length > 0 && (
+            <section className="mb-4">
+              <h3 className="text-md font-medium mb-2">
+                Records that could not be mapped ({report.unmappedRecords.length})
+              </h3>
+              <ul className="text-sm space-y-1">
+                {report.unmappedRecords.slice(0, MAX_LISTED).map((record, index) => (
+                  <li key={index} className="bg-gray-50 rounded px-2 py-1">
+                    <span className="font-mono">{record.xref ?? record.tag}</span>
+                    <span className="text-gray-500"> — {record.reason}</span>
+                  </li>
+                ))}
+              </ul>
+              {report.unmappedRecords.length > MAX_LISTED && (
+                <p className="text-xs text-gray-500 mt-1">
+                  and {report.unmappedRecords.length - MAX_LISTED} more
+                </p>
+              )}
+            </section>
+          )}
+
+          {report.dateIssues.length > 0 && (
+            <section>
+              <h3 className="text-md font-medium mb-2">
+                Inexact or unsupported dates ({report.dateIssues.length})
+              </h3>
+              <ul className="text-sm space-y-1">
+                {report.dateIssues.slice(0, MAX_LISTED).map((issue, index) => (
+                  <li key={index} className="bg-gray-50 rounded px-2 py-1">
+                    <span className="font-mono">{issue.xref} {issue.event}</span>
+                    <span className="text-gray-500">
+                      {" "}— "{issue.original}" {issue.stored ? `stored as ${issue.stored}` : 'not imported'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {report.dateIssues.length > MAX_LISTED && (
+                <p className="text-xs text-gray-500 mt-1">
+                  and {report.dateIssues.length - MAX_LISTED} more
+                </p>
+              )}
+            </section>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,19 @@
+import { Redo2, Undo2 } from "lucide-react";
 import { useFamilyTree } from "@/context/FamilyTreeContext";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import TreeSwitcher from "@/components/TreeSwitcher";
+import PresenceIndicator from "@/components/PresenceIndicator";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface HeaderProps {
   onToggleSidebar: () => void;
 }
 
 export default function Header({ onToggleSidebar }: HeaderProps) {
-  const { saveToLocalStorage } = useFamilyTree();
+  const { saveToLocalStorage, canEdit, undo, redo, undoLabel, redoLabel } = useFamilyTree();
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   
   const handleSave = () => {
     const success = saveToLocalStorage();
@@ -27,6 +33,8 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
           </svg>
           <h1 className="text-xl font-semibold">FamilyTree</h1>
+          <span className="text-white/50">/</span>
+          <TreeSwitcher />
         </div>
         
         <nav className="hidden md:block">
@@ -38,12 +46,53 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
         </nav>
         
         <div className="flex items-center space-x-2">
+          {canEdit && (
+            <>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={undo}
+                    disabled={!undoLabel}
+                    className="p-1 rounded hover:bg-white/10 disabled:opacity-40"
+                    aria-label="Undo"
+                  >
+                    <Undo2 className="h-5 w-5" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>{undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={redo}
+                    disabled={!redoLabel}
+                    className="p-1 rounded hover:bg-white/10 disabled:opacity-40"
+                    aria-label="Redo"
+                  >
+                    <Redo2 className="h-5 w-5" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>{redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}</TooltipContent>
+              </Tooltip>
+            </>
+          )}
+          <PresenceIndicator />
+          {user && (
+            <span className="hidden sm:inline text-sm text-white/80 truncate max-w-[10rem]">{user.username}</span>
+          )}
           <button 
             onClick={handleSave}
             className="bg-white text-primary px-3 py-1 rounded text-sm font-medium hover:bg-gray-100"
           >
             Save
           </button>
+          <button 
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            className="border border-white/60 px-3 py-1 rounded text-sm font-medium hover:bg-white/10"
+          >
+            Log out
+          </button>
           <button 
             className="md:hidden text-white"
             onClick={onToggleSidebar}
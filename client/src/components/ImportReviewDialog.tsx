@@ -0,0 +1,237 @@
+import { useState, useMemo, useEffect } from "react";
+import { FamilyTreeData, ImportMerge, InsertPerson, Person } from "@shared/schema";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { findImportMatches, DEFAULT_MATCH_OPTIONS, MatchOptions, ImportMatch } from "@/lib/importMatching";
+import { formatDate } from "@/lib/treeUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+
+interface ImportReviewDialogProps {
+  importedData: FamilyTreeData | null;
+  onCancel: () => void;
+  onConfirm: (merges: ImportMerge[]) => void;
+}
+
+type MatchDecision = 'accept' | 'merge' | 'separate';
+type FieldSource = 'existing' | 'imported';
+
+const MERGE_FIELDS: { key: keyof InsertPerson; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'birthDate', label: 'Birth Date' },
+  { key: 'birthPlace', label: 'Birth Place' },
+  { key: 'deathDate', label: 'Death Date' },
+  { key: 'deathPlace', label: 'Death Place' },
+  { key: 'notes', label: 'Notes' }
+];
+
+// Keep the existing value unless only the imported person has one
+function defaultFieldSource(match: ImportMatch, key: keyof InsertPerson): FieldSource {
+  return match.existing[key] ? 'existing' : 'imported';
+}
+
+function describePerson(person: Person): string {
+  const details = [formatDate(person.birthDate), person.birthPlace].filter(Boolean);
+  return details.length > 0 ? `${person.name} (${details.join(', ')})` : person.name;
+}
+
+export default function ImportReviewDialog({ importedData, onCancel, onConfirm }: ImportReviewDialogProps) {
+  const { data } = useFamilyTree();
+  const [options, setOptions] = useState<MatchOptions>(DEFAULT_MATCH_OPTIONS);
+  const [decisions, setDecisions] = useState<Record<number, MatchDecision>>({});
+  const [fieldSources, setFieldSources] = useState<Record<number, Partial<Record<keyof InsertPerson, FieldSource>>>>({});
+
+  const matches = useMemo(
+    () => importedData ? findImportMatches(importedData.persons, data.persons, options) : [],
+    [importedData, data.persons, options]
+  );
+
+  // Start every review from a clean slate
+  useEffect(() => {
+    setDecisions({});
+    setFieldSources({});
+  }, [importedData]);
+
+  if (!importedData) return null;
+
+  const getDecision = (match: ImportMatch): MatchDecision => decisions[match.imported.id] ?? 'accept';
+
+  const getFieldSource = (match: ImportMatch, key: keyof InsertPerson): FieldSource =>
+    fieldSources[match.imported.id]?.[key] ?? defaultFieldSource(match, key);
+
+  const setFieldSource = (match: ImportMatch, key: keyof InsertPerson, source: FieldSource) => {
+    setFieldSources(prev => ({
+      ...prev,
+      [match.imported.id]: { ...prev[match.imported.id], [key]: source }
+    }));
+  };
+
+  const updateOption = (key: keyof MatchOptions, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) {
+      setOptions(prev => ({ ...prev, [key]: parsed }));
+    }
+  };
+
+  const handleConfirm = () => {
+    const merges: ImportMerge[] = [];
+
+    matches.forEach(match => {
+      const decision = getDecision(match);
+      if (decision === 'separate') return;
+
+      if (decision === 'accept') {
+        merges.push({ importedId: match.imported.id, existingId: match.existing.id });
+        return;
+      }
+
+      const { id, ...person } = match.existing;
+      MERGE_FIELDS.forEach(({ key }) => {
+        if (getFieldSource(match, key) === 'imported') {
+          (person as Record<string, unknown>)[key] = match.imported[key];
+        }
+      });
+      merges.push({ importedId: match.imported.id, existingId: match.existing.id, person });
+    });
+
+    onConfirm(merges);
+  };
+
+  const mergedCount = matches.filter(match => getDecision(match) !== 'separate').length;
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            {matches.length} of {importedData.persons.length} imported people look like someone already in your tree.
+            Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Matching thresholds */}
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="match-min-score">Minimum match score</Label>
+            <Input
+              id="match-min-score"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={options.minScore}
+              onChange={(e) => updateOption('minScore', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="match-min-name">Minimum name similarity</Label>
+            <Input
+              id="match-min-name"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={options.minNameSimilarity}
+              onChange={(e) => updateOption('minNameSimilarity', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="match-date-tolerance">Birth year tolerance</Label>
+            <Input
+              id="match-date-tolerance"
+              type="number"
+              min={0}
+              step={1}
+              value={options.dateToleranceYears}
+              onChange={(e) => updateOption('dateToleranceYears', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[50vh] pr-4">
+          {matches.length === 0 && (
+            <p className="text-sm text-gray-600">No duplicates found. Everyone will be added as a new person.</p>
+          )}
+
+          <div className="space-y-3">
+            {matches.map(match => {
+              const decision = getDecision(match);
+              const differingFields = MERGE_FIELDS.filter(
+                ({ key }) => (match.existing[key] ?? '') !== (match.imported[key] ?? '')
+              );
+
+              return (
+                <div key={match.imported.id} className="p-3 bg-gray-50 rounded-md shadow-sm">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="text-sm">
+                      <div><span className="text-gray-500">Imported:</span> {describePerson(match.imported)}</div>
+                      <div><span className="text-gray-500">Existing:</span> {describePerson(match.existing)}</div>
+                      <div className="text-xs text-gray-500 mt-1">Match score {Math.round(match.score * 100)}%</div>
+                    </div>
+                    <Select
+                      value={decision}
+                      onValueChange={(value) => setDecisions(prev => ({ ...prev, [match.imported.id]: value as MatchDecision }))}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="accept">Same person</SelectItem>
+                        <SelectItem value="merge">Merge fields</SelectItem>
+                        <SelectItem value="separate">Keep separate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {decision === 'merge' && (
+                    <div className="mt-3 space-y-1 text-sm">
+                      {differingFields.length === 0 && (
+                        <p className="text-gray-500">All fields are identical.</p>
+                      )}
+                      {differingFields.map(({ key, label }) => (
+                        <div key={key} className="grid grid-cols-[7rem_1fr_1fr] gap-2 items-center">
+                          <span className="text-gray-500">{label}</span>
+                          {(['existing', 'imported'] as FieldSource[]).map(source => (
+                            <button
+                              key={source}
+                              type="button"
+                              className={`text-left px-2 py-1 rounded border truncate ${
+                                getFieldSource(match, key) === source ? 'border-primary bg-white' : 'border-transparent text-gray-500'
+                              }`}
+                              onClick={() => setFieldSource(match, key, source)}
+                            >
+                              {match[source][key] || <em>empty</em>}
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm}>
+            Import ({mergedCount} merged, {importedData.persons.length - mergedCount} new)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
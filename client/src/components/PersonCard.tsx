@@ -4,9 +4,12 @@ import { getGenderClass, formatDate } from "@/lib/treeUtils";
 interface PersonCardProps {
   person: FamilyTreePerson;
   onClick: () => void;
+  // The menu button does the same as clicking the card unless set
+  onEdit?: () => void;
+  highlighted?: boolean;
 }
 
-export default function PersonCard({ person, onClick }: PersonCardProps) {
+export default function PersonCard({ person, onClick, onEdit = onClick, highlighted = false }: PersonCardProps) {
   const genderClass = getGenderClass(person.gender);
   
   // Determine relationship label
@@ -48,7 +51,9 @@ export default function PersonCard({ person, onClick }: PersonCardProps) {
   
   return (
     <div 
-      className={`person-card bg-white rounded-md shadow-md p-4 w-64 border-t-4 ${genderClass}`}
+      className={`person-card bg-white rounded-md shadow-md p-4 w-64 border-t-4 ${genderClass} ${
+        highlighted ? 'ring-4 ring-amber-400' : ''
+      }`}
       onClick={onClick}
     >
       <div className="text-lg font-medium">{person.name}</div>
@@ -64,7 +69,7 @@ export default function PersonCard({ person, onClick }: PersonCardProps) {
           className="text-gray-400 hover:text-primary"
           onClick={(e) => {
             e.stopPropagation();
-            onClick();
+            onEdit();
           }}
         >
           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
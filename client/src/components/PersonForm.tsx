@@ -1,12 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { personFormSchema, relationshipFormSchema, Person, PersonForm as PersonFormType } from "@shared/schema";
+import { personFormSchema, relationshipFormSchema, InsertPerson, Person, PersonForm as PersonFormType, RelationshipForm } from "@shared/schema";
+import { validateRelationship, RelationshipError } from "@shared/validation";
 import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Form, 
   FormControl, 
@@ -16,19 +20,59 @@ import {
   FormLabel, 
   FormMessage 
 } from "@/components/ui/form";
+import PersonMergeDialog from "./PersonMergeDialog";
+import PersonHistory from "./PersonHistory";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
+// Stands in for a person who hasn't been saved yet and has no ID
+const NEW_PERSON_ID = -1;
+
+const toFormValues = (person: Person): PersonFormType => ({
+  name: person.name || "",
+  gender: person.gender || "",
+  birthDate: person.birthDate ? new Date(person.birthDate).toISOString().slice(0, 10) : "",
+  birthPlace: person.birthPlace || "",
+  deathDate: person.deathDate ? new Date(person.deathDate).toISOString().slice(0, 10) : "",
+  deathPlace: person.deathPlace || "",
+  notes: person.notes || ""
+});
+
+// Prefilled values when adding someone from a chart, e.g. a missing parent
+export type NewPersonDefaults = {
+  gender?: string;
+  relationshipType?: string;
+  relatedPersonId?: number;
+};
+
 interface PersonFormProps {
   isOpen: boolean;
   person: Person | null;
+  defaults?: NewPersonDefaults | null;
   onClose: () => void;
 }
 
-export default function PersonForm({ isOpen, person, onClose }: PersonFormProps) {
-  const { data, addPerson, updatePerson, deletePerson, addRelationship } = useFamilyTree();
+export default function PersonForm({ isOpen, person, defaults, onClose }: PersonFormProps) {
+  const {
+    data, addPerson, updatePerson, deletePerson, addRelationship, checkRelationship,
+    canEdit: canEditTree, canEditPerson, presence, updatePresence, personChangedBy
+  } = useFamilyTree();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [activeTab, setActiveTab] = useState('details');
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  // The version of the person the form's values are based on, to notice
+  // when someone else changes them in the meantime
+  const [baseline, setBaseline] = useState<Person | null>(null);
   const [relationshipType, setRelationshipType] = useState<string>("");
   const [relatedPersonId, setRelatedPersonId] = useState<string>("");
+  // Why the server refused the relationship when saving
+  const [serverRelationshipError, setServerRelationshipError] = useState<RelationshipError | null>(null);
+  // A new person saved while the form stays open, e.g. because their
+  // relationship was refused, so saving again doesn't add them twice
+  const [createdPerson, setCreatedPerson] = useState<Person | null>(null);
+  // Editors can only change the people they added, and just look at others
+  const canEdit = person ? canEditPerson(person) : canEditTree;
   
   // Initialize form with person data or defaults
   const form = useForm<PersonFormType>({
@@ -39,6 +83,7 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
       birthDate: person?.birthDate ? new Date(person.birthDate).toISOString().slice(0, 10) : "",
       birthPlace: person?.birthPlace || "",
       deathDate: person?.deathDate ? new Date(person.deathDate).toISOString().slice(0, 10) : "",
+      deathPlace: person?.deathPlace || "",
       notes: person?.notes || ""
     }
   });
@@ -48,38 +93,135 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
     if (isOpen) {
       form.reset({
         name: person?.name || "",
-        gender: person?.gender || "",
+        gender: person?.gender || defaults?.gender || "",
         birthDate: person?.birthDate ? new Date(person.birthDate).toISOString().slice(0, 10) : "",
         birthPlace: person?.birthPlace || "",
         deathDate: person?.deathDate ? new Date(person.deathDate).toISOString().slice(0, 10) : "",
+        deathPlace: person?.deathPlace || "",
         notes: person?.notes || ""
       });
-      setRelationshipType("");
-      setRelatedPersonId("");
+      setRelationshipType(defaults?.relationshipType ?? "");
+      setRelatedPersonId(defaults?.relatedPersonId?.toString() ?? "");
+      setBaseline(person);
+      setCreatedPerson(null);
+      setIsMergeDialogOpen(false);
+      setActiveTab('details');
     }
-  }, [person, isOpen, form]);
+  }, [person, defaults, isOpen, form]);
+  
+  // A refused relationship stays refused until another one is picked
+  useEffect(() => {
+    setServerRelationshipError(null);
+  }, [relationshipType, relatedPersonId]);
+  
+  // Let others with the tree open see who has this person open
+  useEffect(() => {
+    if (!isOpen || !person) return;
+    updatePresence(person.id, canEdit ? 'editing' : 'viewing');
+    return () => updatePresence(null, 'viewing');
+  }, [isOpen, person?.id, canEdit]);
+  
+  // Changes others saved while the form was open
+  const latestPerson = person ? data.persons.find(p => p.id === person.id) : undefined;
+  const isDeletedElsewhere = person !== null && latestPerson === undefined;
+  const isChangedElsewhere = baseline !== null && latestPerson !== undefined && latestPerson.version !== baseline.version;
+  const changedBy = person ? personChangedBy[person.id] : undefined;
+  const changedByName = !changedBy ? 'Someone'
+    : changedBy.userId === user?.id ? 'You, in another window,'
+    : changedBy.username;
+  const hasConflict = isChangedElsewhere || isDeletedElsewhere;
+  
+  const othersHere = person
+    ? Array.from(new Map(
+        presence.filter(entry => entry.personId === person.id).map(entry => [entry.username, entry.mode])
+      ))
+    : [];
+  
+  const handleLoadTheirChanges = () => {
+    if (!latestPerson) return;
+    form.reset(toFormValues(latestPerson));
+    setBaseline(latestPerson);
+  };
+  
+  // The merged values are based on their version, so they save over it
+  const handleResolveMerge = (values: PersonFormType) => {
+    form.reset(values);
+    setBaseline(latestPerson ?? null);
+    setIsMergeDialogOpen(false);
+  };
+  
+  // An earlier version is loaded into the form, to be saved like any edit
+  const handleRestore = (values: InsertPerson) => {
+    if (!latestPerson) return;
+    form.reset(toFormValues({ ...latestPerson, ...values }));
+    setActiveTab('details');
+    toast({
+      title: "Earlier version loaded",
+      description: "Save to restore it."
+    });
+  };
+  
+  // The person being edited, including one this form just added
+  const savedPersonId = person?.id ?? createdPerson?.id;
+  
+  // Same checks the server runs, so problems show up before saving
+  const localRelationshipError = useMemo(() => {
+    const relatedId = parseInt(relatedPersonId);
+    if (!relationshipType || isNaN(relatedId)) return null;
+    return validateRelationship(data.relationships, {
+      type: relationshipType,
+      personId: savedPersonId ?? NEW_PERSON_ID,
+      relatedPersonId: relatedId
+    });
+  }, [data.relationships, savedPersonId, relationshipType, relatedPersonId]);
+  const relationshipError = localRelationshipError ?? serverRelationshipError;
   
   // Submit handler
   const onSubmit = async (values: PersonFormType) => {
+    if (!canEdit || relationshipError || hasConflict) return;
+    
     try {
-      if (person) {
-        // Update existing person
-        await updatePerson(person.id, values);
+      const relatedId = parseInt(relatedPersonId);
+      const relationship = relationshipType && !isNaN(relatedId)
+        ? { type: relationshipType as RelationshipForm['type'], relatedPersonId: relatedId }
+        : null;
+      
+      // A new person is only added if the server would take their relationship
+      if (relationship && savedPersonId === undefined) {
+        const rejection = await checkRelationship(relationship);
+        if (rejection) {
+          setServerRelationshipError(rejection);
+          return;
+        }
+      }
+      
+      // Update existing person or create a new one
+      let savedPerson: Person | undefined;
+      if (savedPersonId !== undefined) {
+        const result = await updatePerson(savedPersonId, values, baseline?.version);
+        // Someone else saved first without us hearing about it
+        if (result.status === 'conflict') {
+          setIsMergeDialogOpen(true);
+          return;
+        }
+        savedPerson = result.status === 'saved' ? result.person : undefined;
       } else {
-        // Create new person
-        const newPerson = await addPerson(values);
-        
-        // Add relationship if both fields are selected
-        if (newPerson && relationshipType && relatedPersonId) {
-          const relatedId = parseInt(relatedPersonId);
-          if (!isNaN(relatedId)) {
-            await addRelationship({
-              type: relationshipType as any,
-              personId: newPerson.id,
-              relatedPersonId: relatedId
-            });
-          }
+        savedPerson = await addPerson(values);
+        if (savedPerson) setCreatedPerson(savedPerson);
+      }
+      if (!savedPerson) return;
+      // Our own save isn't a conflicting change
+      setBaseline(savedPerson);
+      
+      // Add relationship if both fields are selected
+      if (relationship) {
+        const result = await addRelationship({ ...relationship, personId: savedPerson.id });
+        // Keep the form open to pick another relationship
+        if (result.status === 'rejected') {
+          setServerRelationshipError(result.error);
+          return;
         }
+        if (result.status === 'failed') return;
       }
       onClose();
     } catch (error) {
@@ -106,7 +248,7 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
       <div className="bg-white rounded-lg shadow-xl w-full max-w-xl mx-4 md:mx-0">
         <div className="flex justify-between items-center p-4 border-b">
           <h2 className="text-xl font-semibold text-primary">
-            {person ? `Edit ${person.name}` : 'Add Family Member'}
+            {!person ? 'Add Family Member' : canEdit ? `Edit ${person.name}` : person.name}
           </h2>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -116,183 +258,253 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
         </div>
         
         <div className="p-6">
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem className="md:col-span-2">
-                      <FormLabel>Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Full Name" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="birthDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Birth Date</FormLabel>
-                      <FormControl>
-                        <Input type="date" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            {person && (
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+            )}
+            
+            <TabsContent value="details">
+              {othersHere.length > 0 && (
+                <p className="text-sm text-gray-600 mb-4">
+                  {othersHere.map(([username, mode]) => `${username} is ${mode} this person`).join(', ')}.
+                </p>
+              )}
+          
+              {canEdit && hasConflict && (
+                <div className="mb-4 p-3 rounded-md border border-amber-300 bg-amber-50 text-sm">
+                  {isDeletedElsewhere ? (
+                    <p>{changedByName} deleted {person?.name} while you had them open, so your changes can't be saved.</p>
+                  ) : (
+                    <>
+                      <p>
+                        {changedByName} changed {person?.name} while you had them open. Load their changes,
+                        or compare them with yours to pick what to keep.
+                      </p>
+                      <div className="mt-2 flex space-x-2">
+                        <Button type="button" size="sm" variant="outline" onClick={handleLoadTheirChanges}>
+                          Load their changes
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setIsMergeDialogOpen(true)}>
+                          Compare changes
+                        </Button>
+                      </div>
+                    </>
                   )}
-                />
+                </div>
+              )}
+          
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  {/* Viewers see the same fields, read only */}
+                  <fieldset disabled={!canEdit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Full Name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                 
-                <FormField
-                  control={form.control}
-                  name="gender"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Gender</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select gender" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="male">Male</SelectItem>
-                          <SelectItem value="female">Female</SelectItem>
-                          <SelectItem value="other">Other</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                    <FormField
+                      control={form.control}
+                      name="birthDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Birth Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                 
-                <FormField
-                  control={form.control}
-                  name="birthPlace"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Birth Place</FormLabel>
-                      <FormControl>
-                        <Input placeholder="City, Country" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                    <FormField
+                      control={form.control}
+                      name="gender"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Gender</FormLabel>
+                          <Select
+                            onValueChange={field.onChange}
+                            value={field.value ?? ""}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select gender" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="male">Male</SelectItem>
+                              <SelectItem value="female">Female</SelectItem>
+                              <SelectItem value="other">Other</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                 
-                <FormField
-                  control={form.control}
-                  name="deathDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Death Date</FormLabel>
-                      <FormControl>
-                        <Input type="date" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                    <FormField
+                      control={form.control}
+                      name="birthPlace"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Birth Place</FormLabel>
+                          <FormControl>
+                            <Input placeholder="City, Country" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                 
-                {/* Relationship section - only show when adding a new person */}
-                {!person && otherPersons.length > 0 && (
-                  <div className="md:col-span-2">
-                    <FormLabel className="block text-sm font-medium text-gray-700 mb-1">Relationship</FormLabel>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <FormLabel className="block text-sm text-gray-700 mb-1">Type</FormLabel>
-                        <Select
-                          onValueChange={setRelationshipType}
-                          value={relationshipType}
-                        >
+                    <FormField
+                      control={form.control}
+                      name="deathDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Death Date</FormLabel>
                           <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select relationship" />
-                            </SelectTrigger>
+                            <Input type="date" {...field} />
                           </FormControl>
-                          <SelectContent>
-                            <SelectItem value="parent">Parent of</SelectItem>
-                            <SelectItem value="child">Child of</SelectItem>
-                            <SelectItem value="spouse">Spouse of</SelectItem>
-                            <SelectItem value="sibling">Sibling of</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div>
-                        <FormLabel className="block text-sm text-gray-700 mb-1">Person</FormLabel>
-                        <Select
-                          onValueChange={setRelatedPersonId}
-                          value={relatedPersonId}
-                          disabled={!relationshipType}
-                        >
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                
+                    <FormField
+                      control={form.control}
+                      name="deathPlace"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Death Place</FormLabel>
                           <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select person" />
-                            </SelectTrigger>
+                            <Input placeholder="City, Country" {...field} value={field.value ?? ""} />
                           </FormControl>
-                          <SelectContent>
-                            {otherPersons.map(p => (
-                              <SelectItem key={p.id} value={p.id.toString()}>
-                                {p.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                
+                    {/* Relationship section */}
+                    {canEdit && otherPersons.length > 0 && (
+                      <div className="md:col-span-2">
+                        <FormLabel className="block text-sm font-medium text-gray-700 mb-1">
+                          {person ? 'Add Relationship' : 'Relationship'}
+                        </FormLabel>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <FormLabel className="block text-sm text-gray-700 mb-1">Type</FormLabel>
+                            <Select
+                              onValueChange={setRelationshipType}
+                              value={relationshipType}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select relationship" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="parent">Parent of</SelectItem>
+                                <SelectItem value="child">Child of</SelectItem>
+                                <SelectItem value="spouse">Spouse of</SelectItem>
+                                <SelectItem value="sibling">Sibling of</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <FormLabel className="block text-sm text-gray-700 mb-1">Person</FormLabel>
+                            <Select
+                              onValueChange={setRelatedPersonId}
+                              value={relatedPersonId}
+                              disabled={!relationshipType}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select person" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {otherPersons.map(p => (
+                                  <SelectItem key={p.id} value={p.id.toString()}>
+                                    {p.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        {relationshipError && (
+                          <p className="text-sm font-medium text-destructive mt-2">
+                            {relationshipError.message}
+                          </p>
+                        )}
                       </div>
-                    </div>
-                  </div>
-                )}
+                    )}
                 
-                <FormField
-                  control={form.control}
-                  name="notes"
-                  render={({ field }) => (
-                    <FormItem className="md:col-span-2">
-                      <FormLabel>Notes</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Additional information"
-                          className="resize-none"
-                          rows={3}
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+                    <FormField
+                      control={form.control}
+                      name="notes"
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>Notes</FormLabel>
+                          <FormControl>
+                            <Textarea 
+                              placeholder="Additional information"
+                              className="resize-none"
+                              rows={3}
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </fieldset>
               
-              <div className="mt-6 flex justify-end space-x-3">
-                {person && (
-                  <Button 
-                    type="button" 
-                    variant="destructive"
-                    onClick={() => setIsDeleteDialogOpen(true)}
-                  >
-                    Delete
-                  </Button>
-                )}
-                <Button 
-                  type="button" 
-                  variant="outline"
-                  onClick={onClose}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  Save Person
-                </Button>
-              </div>
-            </form>
-          </Form>
+                  <div className="mt-6 flex justify-end space-x-3">
+                    {canEdit && person && (
+                      <Button 
+                        type="button" 
+                        variant="destructive"
+                        onClick={() => setIsDeleteDialogOpen(true)}
+                      >
+                        Delete
+                      </Button>
+                    )}
+                    <Button 
+                      type="button" 
+                      variant="outline"
+                      onClick={onClose}
+                    >
+                      {canEdit ? 'Cancel' : 'Close'}
+                    </Button>
+                    {canEdit && (
+                      <Button type="submit" disabled={!!relationshipError || hasConflict}>
+                        Save Person
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </Form>
+            </TabsContent>
+            
+            {latestPerson && (
+              <TabsContent value="history">
+                <PersonHistory person={latestPerson} canRestore={canEdit} onRestore={handleRestore} />
+              </TabsContent>
+            )}
+          </Tabs>
         </div>
       </div>
       
@@ -302,8 +514,8 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {person?.name} and all their relationships from your family tree.
-              This action cannot be undone.
+              This will move {person?.name} and all their relationships to the trash. You can undo this
+              with Ctrl+Z, or restore them from the trash later.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -314,6 +526,18 @@ export default function PersonForm({ isOpen, person, onClose }: PersonFormProps)
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      
+      {baseline && latestPerson && (
+        <PersonMergeDialog
+          isOpen={isMergeDialogOpen}
+          base={toFormValues(baseline)}
+          mine={form.getValues()}
+          theirs={toFormValues(latestPerson)}
+          theirName={changedByName}
+          onCancel={() => setIsMergeDialogOpen(false)}
+          onResolve={handleResolveMerge}
+        />
+      )}
     </div>
   );
 }
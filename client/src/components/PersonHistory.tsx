@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { InsertPerson, Person, PersonHistoryEntry, RevisionValue } from "@shared/schema";
+import { getPersonAtRevision } from "@shared/history";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  gender: 'Gender',
+  birthDate: 'Birth Date',
+  birthPlace: 'Birth Place',
+  deathDate: 'Death Date',
+  deathPlace: 'Death Place',
+  notes: 'Notes'
+};
+
+interface PersonHistoryProps {
+  person: Person;
+  canRestore: boolean;
+  onRestore: (values: InsertPerson) => void;
+}
+
+/**
+ * Lists every change to a person and their relationships, newest first,
+ * and lets editors go back to any earlier version of the person
+ */
+export default function PersonHistory({ person, canRestore, onRestore }: PersonHistoryProps) {
+  const { currentTree, data } = useFamilyTree();
+
+  // Fetched again whenever the tab opens or the person is saved
+  const { data: history = [], isLoading } = useQuery<PersonHistoryEntry[]>({
+    queryKey: [`/api/trees/${currentTree?.id}/persons/${person.id}/history`, person.version],
+    enabled: !!currentTree,
+    refetchOnMount: 'always',
+  });
+
+  const personNames = new Map(data.persons.map(p => [p.id, p.name]));
+  // The newest change to the person's own fields is the current version
+  const latestPersonRevision = history.find(entry => entry.entityType === 'person');
+
+  const describe = (entry: PersonHistoryEntry): string => {
+    if (entry.entityType === 'relationship') {
+      const side = entry.action === 'create' ? 'to' : 'from';
+      const type = entry.changes.type?.[side];
+      const relatedName = personNames.get(Number(entry.changes.relatedPersonId?.[side])) ?? 'a deleted person';
+      return `${entry.action === 'create' ? 'added' : 'removed'} relationship: ${type} of ${relatedName}`;
+    }
+    switch (entry.action) {
+      case 'create': return 'added this person';
+      case 'update': return 'edited';
+      case 'delete': return 'deleted this person';
+      case 'restore': return 'restored this person from the trash';
+    }
+  };
+
+  const formatValue = (value: RevisionValue) =>
+    value === null || value === '' ? <em className="text-gray-400">empty</em> : String(value);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-600">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ScrollArea className="max-h-[50vh] pr-4">
+      <div className="space-y-2">
+        {history.map(entry => (
+          <div key={entry.id} className="p-3 bg-gray-50 rounded-md text-sm">
+            <div className="flex justify-between items-start gap-4">
+              <span>
+                <span className="font-medium">{entry.username || 'Someone'}</span> {describe(entry)}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {new Date(entry.createdAt).toLocaleString()}
+              </span>
+            </div>
+
+            {entry.entityType === 'person' && entry.action === 'update' && (
+              <div className="mt-1 space-y-0.5">
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <div key={field} className="text-gray-600">
+                    {FIELD_LABELS[field] ?? field}: {formatValue(change.from)} → {formatValue(change.to)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canRestore && entry.entityType === 'person' && entry.action !== 'delete'
+              && entry.id !== latestPersonRevision?.id && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="mt-2"
+                onClick={() => onRestore(getPersonAtRevision(person, history, entry.id))}
+              >
+                Restore this version
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { PersonForm as PersonFormType } from "@shared/schema";
+import { diffPersonVersions, mergePersonVersions, MergeSource } from "@/lib/personMerge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+
+interface PersonMergeDialogProps {
+  isOpen: boolean;
+  // The version both edits started from, the user's edit and the one saved first
+  base: PersonFormType;
+  mine: PersonFormType;
+  theirs: PersonFormType;
+  // Who saved first, e.g. a username
+  theirName: string;
+  onCancel: () => void;
+  onResolve: (values: PersonFormType) => void;
+}
+
+const MERGE_FIELDS: { key: keyof PersonFormType; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'birthDate', label: 'Birth Date' },
+  { key: 'birthPlace', label: 'Birth Place' },
+  { key: 'deathDate', label: 'Death Date' },
+  { key: 'deathPlace', label: 'Death Place' },
+  { key: 'notes', label: 'Notes' }
+];
+
+const MERGE_LABELS = new Map(MERGE_FIELDS.map(({ key, label }) => [key, label]));
+
+const fieldValue = (values: PersonFormType, key: keyof PersonFormType) => values[key] ?? '';
+
+/**
+ * Resolves an edit that conflicts with a version someone else saved first,
+ * field by field, against the version both started from
+ */
+export default function PersonMergeDialog(props: PersonMergeDialogProps) {
+  const { isOpen, base, mine, theirs, theirName, onCancel, onResolve } = props;
+  const [fieldSources, setFieldSources] = useState<Partial<Record<keyof PersonFormType, MergeSource>>>({});
+
+  // Start every merge from the default choices
+  useEffect(() => {
+    if (isOpen) setFieldSources({});
+  }, [isOpen]);
+
+  const versions = { base, mine, theirs };
+  const differingFields = diffPersonVersions(versions, MERGE_FIELDS.map(({ key }) => key));
+
+  const handleResolve = () => {
+    onResolve(mergePersonVersions(versions, differingFields, fieldSources));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Resolve Conflicting Changes</DialogTitle>
+          <DialogDescription>
+            {theirName} saved changes to this person after you started editing. Pick which value to keep
+            for each field, then save again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh] pr-4">
+          {differingFields.length === 0 ? (
+            <p className="text-sm text-gray-600">Your changes match theirs.</p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              <div className="grid grid-cols-[7rem_1fr_1fr_1fr] gap-2 text-xs text-gray-500">
+                <span>Field</span>
+                <span>Original</span>
+                <span>Yours</span>
+                <span>Theirs</span>
+              </div>
+              {differingFields.map(({ key, changedByBoth, defaultSource }) => {
+                const source = fieldSources[key] ?? defaultSource;
+
+                return (
+                  <div
+                    key={key}
+                    className={`grid grid-cols-[7rem_1fr_1fr_1fr] gap-2 items-center p-1 rounded ${
+                      changedByBoth ? 'bg-amber-50' : ''
+                    }`}
+                  >
+                    <span className="text-gray-500">{MERGE_LABELS.get(key)}</span>
+                    <span className="px-2 py-1 truncate text-gray-500">
+                      {fieldValue(base, key) || <em>empty</em>}
+                    </span>
+                    {(['mine', 'theirs'] as MergeSource[]).map(option => (
+                      <button
+                        key={option}
+                        type="button"
+                        className={`text-left px-2 py-1 rounded border truncate ${
+                          source === option ? 'border-primary bg-white' : 'border-transparent text-gray-500'
+                        }`}
+                        onClick={() => setFieldSources(prev => ({ ...prev, [key]: option }))}
+                      >
+                        {fieldValue(versions[option], key) || <em>empty</em>}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+              <p className="text-xs text-gray-500 pt-2">Highlighted fields were changed by both of you.</p>
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleResolve}>Use these values</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+// Only this many people get their own badge; the rest are counted
+const MAX_BADGES = 4;
+
+/**
+ * Shows who else has the open tree open, and which person they're viewing
+ * or editing
+ */
+export default function PresenceIndicator() {
+  const { presence, data } = useFamilyTree();
+  if (presence.length === 0) return null;
+
+  const personNames = new Map(data.persons.map(p => [p.id, p.name]));
+
+  // One badge per user, however many windows they have open
+  const users = new Map<number, { username: string; activities: string[] }>();
+  presence.forEach(entry => {
+    const user = users.get(entry.userId) ?? { username: entry.username, activities: [] };
+    const personName = entry.personId !== null ? personNames.get(entry.personId) : undefined;
+    if (personName) {
+      user.activities.push(`${entry.mode} ${personName}`);
+    }
+    users.set(entry.userId, user);
+  });
+  const userList = Array.from(users.values());
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {userList.slice(0, MAX_BADGES).map(user => (
+        <Tooltip key={user.username}>
+          <TooltipTrigger asChild>
+            <span className="h-7 w-7 rounded-full bg-white text-primary border-2 border-primary text-xs font-semibold flex items-center justify-center uppercase">
+              {user.username.slice(0, 2)}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            {user.username} is {user.activities.length > 0 ? user.activities.join(', ') : 'looking at the tree'}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {userList.length > MAX_BADGES && (
+        <span className="h-7 w-7 rounded-full bg-white/20 text-xs flex items-center justify-center">
+          +{userList.length - MAX_BADGES}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState, useMemo } from "react";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { findProblems, Problem } from "@shared/validation";
+import { Person } from "@shared/schema";
+
+interface ProblemsPanelProps {
+  onSelectPerson: (person: Person) => void;
+}
+
+export default function ProblemsPanel({ onSelectPerson }: ProblemsPanelProps) {
+  const { data, setHighlightedPersonIds } = useFamilyTree();
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  // Same checks as GET /api/problems, run on the loaded tree
+  const problems = useMemo(() => findProblems(data), [data]);
+
+  const handleProblemClick = (problem: Problem) => {
+    const person = data.persons.find(p => p.id === problem.personIds[0]);
+    setHighlightedPersonIds(problem.personIds);
+    if (person) {
+      onSelectPerson(person);
+    }
+  };
+
+  if (problems.length === 0) return null;
+
+  const errorCount = problems.filter(problem => problem.severity === 'error').length;
+
+  return (
+    <div className="mt-8 pt-4 border-t border-gray-200">
+      <button
+        type="button"
+        className="w-full flex justify-between items-center mb-2"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <h3 className="text-md font-medium">Problems</h3>
+        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+          errorCount > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+        }`}>
+          {problems.length}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {problems.map((problem, index) => (
+            <li
+              key={index}
+              className={`p-2 text-sm bg-gray-50 rounded-md cursor-pointer hover:bg-gray-100 border-l-4 ${
+                problem.severity === 'error' ? 'border-red-500' : 'border-amber-400'
+              }`}
+              onClick={() => handleProblemClick(problem)}
+            >
+              {problem.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useMemo } from "react";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { findRelationship } from "@shared/kinship";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+
+interface RelationshipCalculatorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function RelationshipCalculator({ isOpen, onClose }: RelationshipCalculatorProps) {
+  const { data, selectedPersonId, setHighlightedPersonIds } = useFamilyTree();
+  const [fromId, setFromId] = useState<string>(selectedPersonId?.toString() ?? "");
+  const [toId, setToId] = useState<string>("");
+
+  // Computed from the loaded tree so it matches what is on screen
+  const result = useMemo(() => {
+    if (!fromId || !toId) return undefined;
+    return findRelationship(data, parseInt(fromId), parseInt(toId));
+  }, [data, fromId, toId]);
+
+  const getName = (id: number | string) => data.persons.find(p => p.id === Number(id))?.name ?? "Unknown";
+
+  const handleHighlight = () => {
+    if (result) {
+      setHighlightedPersonIds(result.path);
+    }
+    onClose();
+  };
+
+  const handleClear = () => {
+    setHighlightedPersonIds([]);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>How are we related?</DialogTitle>
+          <DialogDescription>
+            Pick two people to see how they are related and who connects them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { label: "Person", value: fromId, onChange: setFromId },
+            { label: "Relative", value: toId, onChange: setToId }
+          ].map(({ label, value, onChange }) => (
+            <div key={label}>
+              <Label className="block text-sm text-gray-700 mb-1">{label}</Label>
+              <Select value={value} onValueChange={onChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.persons.map(p => (
+                    <SelectItem key={p.id} value={p.id.toString()}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {result === null && (
+          <p className="text-sm text-gray-600">
+            {getName(fromId)} and {getName(toId)} are not related in this tree.
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-lg">
+              {getName(toId)} is {getName(fromId)}'s <span className="font-semibold">{result.label}</span>.
+            </p>
+            {result.commonAncestorIds.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Common ancestors: {result.commonAncestorIds.map(getName).join(" and ")}
+              </p>
+            )}
+            <p className="text-sm text-gray-600">
+              {result.path.map(getName).join(" → ")}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClear}>
+            Clear highlight
+          </Button>
+          <Button onClick={handleHighlight} disabled={!result}>
+            Highlight on tree
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { TreeInvite, TreeMember, TreeRole, UserTree } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+
+const ROLE_LABELS: Record<TreeRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  owner: 'Owner'
+};
+
+const INVITE_EXPIRY_DAYS = [1, 7, 30];
+
+// Invite links open the invite page of this app
+const inviteUrl = (invite: TreeInvite) => `${window.location.origin}/invite/${invite.token}`;
+
+interface ShareTreeDialogProps {
+  tree: UserTree;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists who has access to a tree. Owners can also change roles, remove
+ * members and create or revoke invite links.
+ */
+export default function ShareTreeDialog({ tree, isOpen, onClose }: ShareTreeDialogProps) {
+  const { toast } = useToast();
+  const [inviteRole, setInviteRole] = useState<TreeRole>('viewer');
+  const [inviteExpiryDays, setInviteExpiryDays] = useState('7');
+  const isOwner = tree.role === 'owner';
+
+  const membersUrl = `/api/trees/${tree.id}/members`;
+  const invitesUrl = `/api/trees/${tree.id}/invites`;
+
+  const { data: members = [] } = useQuery<TreeMember[]>({
+    queryKey: [membersUrl],
+    enabled: isOpen,
+  });
+
+  const { data: invites = [] } = useQuery<TreeInvite[]>({
+    queryKey: [invitesUrl],
+    enabled: isOpen && isOwner,
+  });
+
+  const runChange = async (change: () => Promise<unknown>, queryKey: string, failure: string) => {
+    try {
+      await change();
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRoleChange = (member: TreeMember, role: TreeRole) => runChange(
+    () => apiRequest('PUT', `${membersUrl}/${member.userId}`, { role }),
+    membersUrl,
+    `Failed to change the role of ${member.username}.`
+  );
+
+  const handleRemove = (member: TreeMember) => runChange(
+    () => apiRequest('DELETE', `${membersUrl}/${member.userId}`),
+    membersUrl,
+    `Failed to remove ${member.username}.`
+  );
+
+  const handleCreateInvite = () => runChange(
+    () => apiRequest('POST', invitesUrl, { role: inviteRole, expiresInDays: Number(inviteExpiryDays) }),
+    invitesUrl,
+    'Failed to create invite link.'
+  );
+
+  const handleRevokeInvite = (invite: TreeInvite) => runChange(
+    () => apiRequest('DELETE', `${invitesUrl}/${invite.id}`),
+    invitesUrl,
+    'Failed to revoke invite link.'
+  );
+
+  const handleCopyInvite = async (invite: TreeInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      toast({
+        title: "Copied",
+        description: "Invite link copied to the clipboard.",
+      });
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+    }
+  };
+
+  const activeInvites = invites.filter(invite => new Date(invite.expiresAt).getTime() > Date.now());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {tree.name}</DialogTitle>
+          <DialogDescription>
+            Viewers can look at the tree, editors can also change people and relationships,
+            and owners can also delete the tree and manage who has access.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">People with access</h3>
+          {members.map(member => (
+            <div key={member.userId} className="flex items-center justify-between gap-2">
+              <span className="truncate">{member.username}</span>
+              {isOwner && !member.isCreator ? (
+                <div className="flex items-center gap-2">
+                  <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role as TreeRole)}>
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                        <SelectItem key={role} value={role}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500">
+                  {ROLE_LABELS[member.role]}{member.isCreator ? ' (creator)' : ''}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2 pt-4 border-t">
+            <h3 className="text-sm font-medium">Invite links</h3>
+            <p className="text-xs text-gray-500">Each link lets one person join.</p>
+            <div className="flex items-center gap-2">
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as TreeRole)}>
+                <SelectTrigger className="w-28 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={inviteExpiryDays} onValueChange={setInviteExpiryDays}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITE_EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? '1 day' : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={handleCreateInvite}>
+                Create link
+              </Button>
+            </div>
+
+            {activeInvites.map(invite => (
+              <div key={invite.id} className="flex items-center gap-2">
+                <Input readOnly value={inviteUrl(invite)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {ROLE_LABELS[invite.role]}, until {new Date(invite.expiresAt).toLocaleDateString()}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => handleCopyInvite(invite)}>
+                  Copy
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleRevokeInvite(invite)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,26 @@
 import { useState } from "react";
-import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { useFamilyTree, ImportMode } from "@/context/FamilyTreeContext";
 import { formatDate } from "@/lib/treeUtils";
 import { Person } from "@shared/schema";
+import ProblemsPanel from "@/components/ProblemsPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 
 interface SidebarProps {
   isOpen: boolean;
   onAddPerson: () => void;
   onEditPerson: (person: Person) => void;
-  onImport: () => void;
+  onImport: (mode: ImportMode) => void;
 }
 
 export default function Sidebar({ isOpen, onAddPerson, onEditPerson, onImport }: SidebarProps) {
-  const { data, selectedPersonId, setSelectedPersonId, exportFamilyTree } = useFamilyTree();
+  const { data, selectedPersonId, setSelectedPersonId, focusPerson, exportFamilyTree, canEdit } = useFamilyTree();
   const [searchTerm, setSearchTerm] = useState("");
   
   const filteredPersons = data.persons.filter(person => 
@@ -34,15 +41,17 @@ export default function Sidebar({ isOpen, onAddPerson, onEditPerson, onImport }:
       <div className="p-4">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg font-semibold text-primary">Family Members</h2>
-          <Button 
-            onClick={onAddPerson}
-            size="sm"
-            className="bg-primary text-white p-1 rounded hover:bg-primary-dark"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-          </Button>
+          {canEdit && (
+            <Button 
+              onClick={onAddPerson}
+              size="sm"
+              className="bg-primary text-white p-1 rounded hover:bg-primary-dark"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </Button>
+          )}
         </div>
         
         {/* Search box */}
@@ -82,40 +91,89 @@ export default function Sidebar({ isOpen, onAddPerson, onEditPerson, onImport }:
                     {formatDate(person.birthDate)}
                   </div>
                 </div>
-                <button 
-                  className="text-gray-500 hover:text-primary"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onEditPerson(person);
-                  }}
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                  </svg>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button 
+                    className="text-gray-500 hover:text-primary"
+                    title="Show in tree"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedPersonId(person.id);
+                      focusPerson(person.id);
+                    }}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                  </button>
+                  {canEdit && (
+                    <button 
+                      className="text-gray-500 hover:text-primary"
+                      title="Edit"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onEditPerson(person);
+                      }}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
               </div>
             ))
           )}
         </div>
         
+        {/* Data consistency problems */}
+        <ProblemsPanel onSelectPerson={handlePersonClick} />
+        
         {/* Import/Export section */}
         <div className="mt-8 pt-4 border-t border-gray-200">
-          <h3 className="text-md font-medium mb-2">Import/Export</h3>
+          <h3 className="text-md font-medium mb-2">{canEdit ? 'Import/Export' : 'Export'}</h3>
           <div className="flex space-x-2">
-            <Button 
-              onClick={onImport}
-              variant="outline"
-              className="flex-1 bg-gray-100 text-accent py-2 text-sm rounded hover:bg-gray-200"
-            >
-              Import
-            </Button>
-            <Button 
-              onClick={exportFamilyTree}
-              variant="outline"
-              className="flex-1 bg-gray-100 text-accent py-2 text-sm rounded hover:bg-gray-200"
-            >
-              Export
-            </Button>
+            {canEdit && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button 
+                    variant="outline"
+                    className="flex-1 bg-gray-100 text-accent py-2 text-sm rounded hover:bg-gray-200"
+                  >
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onClick={() => onImport('append')}>
+                    Add to tree
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onImport('merge')}>
+                    Merge with existing people
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button 
+                  variant="outline"
+                  className="flex-1 bg-gray-100 text-accent py-2 text-sm rounded hover:bg-gray-200"
+                >
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportFamilyTree('json')}>
+                  FamilyRoots JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportFamilyTree('gedcom')}>
+                  GEDCOM 5.5.1
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportFamilyTree('gedcom7')}>
+                  GEDCOM 7.0
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
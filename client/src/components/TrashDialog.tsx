@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { TrashedPerson, TreeTrash, UserTree } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashDialogProps {
+  tree: UserTree;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lists the people deleted from a tree and the relationships they were
+ * detached from. Editors can restore them, and owners can delete them for
+ * good before the retention period is up.
+ */
+export default function TrashDialog({ tree, isOpen, onClose }: TrashDialogProps) {
+  const { data, canEditPerson, isTreeOwner, restorePerson } = useFamilyTree();
+  const { toast } = useToast();
+  const [personToPurge, setPersonToPurge] = useState<TrashedPerson | null>(null);
+
+  const trashUrl = `/api/trees/${tree.id}/trash`;
+  const { data: trash, isLoading } = useQuery<TreeTrash>({
+    queryKey: [trashUrl],
+    enabled: isOpen,
+    refetchOnMount: 'always',
+  });
+
+  const trashedPersons = (trash?.persons ?? [])
+    .slice()
+    .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+
+  // Relationships can point at people in the tree or in the trash
+  const personNames = new Map(data.persons.map(p => [p.id, p.name]));
+  const trashedIds = new Set(trashedPersons.map(p => p.id));
+  trashedPersons.forEach(p => personNames.set(p.id, p.name));
+
+  const describeRelationships = (person: TrashedPerson) => (trash?.relationships ?? [])
+    .filter(r => r.personId === person.id)
+    .map(r => {
+      const name = personNames.get(r.relatedPersonId) ?? 'someone';
+      return `${r.type} of ${name}${trashedIds.has(r.relatedPersonId) ? ' (also in the trash)' : ''}`;
+    });
+
+  const purgeDate = (person: TrashedPerson) =>
+    new Date(new Date(person.deletedAt).getTime() + (trash?.retentionDays ?? 0) * DAY_MS);
+
+  const handleRestore = async (person: TrashedPerson) => {
+    if (await restorePerson(person.id)) {
+      toast({
+        title: "Restored",
+        description: `${person.name} is back in the tree.`,
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!personToPurge) return;
+    try {
+      await apiRequest('DELETE', `${trashUrl}/persons/${personToPurge.id}`);
+      queryClient.invalidateQueries({ queryKey: [trashUrl] });
+    } catch (error) {
+      console.error('Error deleting person for good:', error);
+      toast({
+        title: "Error",
+        description: `Failed to delete ${personToPurge.name} for good.`,
+        variant: "destructive"
+      });
+    }
+    setPersonToPurge(null);
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              People deleted from {tree.name} stay here
+              {trash ? ` for ${trash.retentionDays} ${trash.retentionDays === 1 ? 'day' : 'days'}` : ''} before
+              they're deleted for good. Restoring someone also brings back their relationships to the people
+              still in the tree.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[50vh] pr-4">
+            {isLoading ? (
+              <p className="text-sm text-gray-600">Loading...</p>
+            ) : trashedPersons.length === 0 ? (
+              <p className="text-sm text-gray-600">The trash is empty.</p>
+            ) : (
+              <div className="space-y-2">
+                {trashedPersons.map(person => {
+                  const relationships = describeRelationships(person);
+                  return (
+                    <div key={person.id} className="p-3 bg-gray-50 rounded-md text-sm">
+                      <div className="flex justify-between items-start gap-4">
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{person.name}</div>
+                          <div className="text-xs text-gray-500">
+                            Deleted {new Date(person.deletedAt).toLocaleString()}, gone for good
+                            on {purgeDate(person).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <div className="flex gap-2 flex-shrink-0">
+                          {canEditPerson(person) && (
+                            <Button size="sm" variant="outline" onClick={() => handleRestore(person)}>
+                              Restore
+                            </Button>
+                          )}
+                          {isTreeOwner && (
+                            <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setPersonToPurge(person)}>
+                              Delete forever
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {relationships.length > 0 && (
+                        <div className="mt-1 text-gray-600">
+                          Was {relationships.join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={personToPurge !== null} onOpenChange={(open) => !open && setPersonToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {personToPurge?.name} forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {personToPurge?.name} and their relationships. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
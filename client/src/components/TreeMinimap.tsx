@@ -0,0 +1,94 @@
+import { useMemo, useRef } from "react";
+import { TreeLayout } from "@/lib/treeLayout";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+interface TreeMinimapProps {
+  layout: TreeLayout;
+  // The part of the tree currently on screen, in layout coordinates
+  visibleArea: Rect;
+  // Moves the view so the given layout point is in the middle of the screen
+  onNavigate: (point: { x: number; y: number }) => void;
+}
+
+const MINIMAP_SIZE = 200;
+const PADDING = 4;
+
+/**
+ * A scaled-down outline of the whole tree with the visible area drawn on
+ * top. Clicking or dragging on it moves the view.
+ */
+export default function TreeMinimap({ layout, visibleArea, onNavigate }: TreeMinimapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { width: treeWidth, height: treeHeight } = layout.dimensions;
+
+  // Fit the longer side of the tree into the minimap
+  const scale = (MINIMAP_SIZE - 2 * PADDING) / Math.max(treeWidth, treeHeight, 1);
+  const width = treeWidth * scale + 2 * PADDING;
+  const height = treeHeight * scale + 2 * PADDING;
+
+  // The outline only changes with the layout, not while panning
+  const outline = useMemo(() => (
+    layout.nodes.map((node, index) => (
+      <rect
+        key={index}
+        x={node.x}
+        y={node.y}
+        width={node.width}
+        height={node.height}
+        fill="#cbd5e0"
+      />
+    ))
+  ), [layout.nodes]);
+
+  const navigateTo = (clientX: number, clientY: number) => {
+    const bounds = svgRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    onNavigate({
+      x: (clientX - bounds.left - PADDING) / scale,
+      y: (clientY - bounds.top - PADDING) / scale
+    });
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    // Keep the tree underneath from starting its own drag
+    e.stopPropagation();
+    e.preventDefault();
+    navigateTo(e.clientX, e.clientY);
+
+    // Follow the pointer until released, even outside the minimap
+    const handleMove = (event: MouseEvent) => navigateTo(event.clientX, event.clientY);
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 bg-white shadow-md rounded-md p-1">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className="cursor-pointer"
+        onMouseDown={handleMouseDown}
+      >
+        <g transform={`translate(${PADDING} ${PADDING}) scale(${scale})`}>
+          {outline}
+          <rect
+            x={visibleArea.x}
+            y={visibleArea.y}
+            width={visibleArea.width}
+            height={visibleArea.height}
+            fill="rgba(66, 153, 225, 0.15)"
+            stroke="#4299e1"
+            strokeWidth={2 / scale}
+          />
+        </g>
+      </svg>
+    </div>
+  );
+}
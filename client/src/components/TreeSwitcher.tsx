@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useFamilyTree } from "@/context/FamilyTreeContext";
+import { useAuth } from "@/hooks/use-auth";
+import ShareTreeDialog from "@/components/ShareTreeDialog";
+import TrashDialog from "@/components/TrashDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+
+type NameDialog = { mode: 'create' | 'rename'; name: string };
+
+// Trees are deleted by their owners; anyone else they were shared with leaves them
+type RemoveMode = 'delete' | 'leave';
+
+/**
+ * Shows the open tree and switches between, creates, renames, shares and
+ * deletes trees, and opens the trash of the open tree
+ */
+export default function TreeSwitcher() {
+  const { trees, currentTree, isTreeOwner, selectTree, createTree, renameTree, deleteTree, leaveTree } = useFamilyTree();
+  const { user } = useAuth();
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [removeMode, setRemoveMode] = useState<RemoveMode | null>(null);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isTrashDialogOpen, setIsTrashDialogOpen] = useState(false);
+  const isCreator = currentTree !== undefined && currentTree.ownerId === user?.id;
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameDialog) return;
+
+    const name = nameDialog.name.trim();
+    if (!name) return;
+
+    if (nameDialog.mode === 'create') {
+      await createTree(name);
+    } else if (currentTree) {
+      await renameTree(currentTree.id, name);
+    }
+    setNameDialog(null);
+  };
+
+  const handleRemove = async () => {
+    if (currentTree) {
+      await (removeMode === 'leave' ? leaveTree(currentTree.id) : deleteTree(currentTree.id));
+    }
+    setRemoveMode(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center space-x-1 px-2 py-1 rounded hover:bg-white/10 max-w-xs">
+            <span className="truncate font-medium">{currentTree?.name ?? 'Loading...'}</span>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {trees.map(tree => (
+            <DropdownMenuItem
+              key={tree.id}
+              className={tree.id === currentTree?.id ? 'font-medium' : ''}
+              onClick={() => selectTree(tree.id)}
+            >
+              {tree.name}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setNameDialog({ mode: 'create', name: '' })}>
+            New tree...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!currentTree}
+            onClick={() => setIsShareDialogOpen(true)}
+          >
+            {isTreeOwner ? 'Share tree...' : 'People with access...'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!currentTree}
+            onClick={() => setIsTrashDialogOpen(true)}
+          >
+            Trash...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!isTreeOwner}
+            onClick={() => setNameDialog({ mode: 'rename', name: currentTree?.name ?? '' })}
+          >
+            Rename tree...
+          </DropdownMenuItem>
+          {currentTree && !isCreator && (
+            <DropdownMenuItem onClick={() => setRemoveMode('leave')}>
+              Leave tree...
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            disabled={!isTreeOwner}
+            className="text-destructive"
+            onClick={() => setRemoveMode('delete')}
+          >
+            Delete tree...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleSaveName}>
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === 'create' ? 'New Tree' : 'Rename Tree'}</DialogTitle>
+            </DialogHeader>
+            <Input
+              className="my-4"
+              placeholder="Tree name"
+              autoFocus
+              value={nameDialog?.name ?? ''}
+              onChange={(e) => nameDialog && setNameDialog({ ...nameDialog, name: e.target.value })}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!nameDialog?.name.trim()}>
+                {nameDialog?.mode === 'create' ? 'Create' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {currentTree && (
+        <ShareTreeDialog
+          tree={currentTree}
+          isOpen={isShareDialogOpen}
+          onClose={() => setIsShareDialogOpen(false)}
+        />
+      )}
+
+      {currentTree && (
+        <TrashDialog
+          tree={currentTree}
+          isOpen={isTrashDialogOpen}
+          onClose={() => setIsTrashDialogOpen(false)}
+        />
+      )}
+
+      <AlertDialog open={removeMode !== null} onOpenChange={(open) => !open && setRemoveMode(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {removeMode === 'leave' ? 'Leave' : 'Delete'} {currentTree?.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {removeMode === 'leave'
+                ? 'You will no longer have access to this tree unless someone invites you again.'
+                : 'This will permanently delete the tree with everyone in it and all their relationships. This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>
+              {removeMode === 'leave' ? 'Leave' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -3,25 +3,116 @@ import {
   useContext, 
   useState, 
   useEffect, 
+  useRef,
   ReactNode 
 } from "react";
-import { Person, Relationship, FamilyTreeData, InsertPerson, InsertRelationship } from "@shared/schema";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Person, Relationship, FamilyTreeData, InsertPerson, InsertRelationship, ImportMerge, ImportResult, UserTree, TreeRole, hasTreeRole, canChangePerson } from "@shared/schema";
+import { queryClient, apiRequest, getErrorBody, getErrorStatus } from "@/lib/queryClient";
 import { buildFamilyTree, flattenTreeForExport, parseImportedTreeData } from "@/lib/treeUtils";
+import { decodeGedcom, parseGedcom, formatGedcom, GedcomImportReport } from "@/lib/gedcom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTreeEvents } from "@/hooks/use-tree-events";
+import { useUndoStack } from "@/hooks/use-undo-stack";
+import {
+  applyTreeEvent,
+  CreateRelationshipResponse,
+  ImportResponse,
+  PresenceEntry,
+  PresenceMode,
+  TreeActor,
+  TreeEvent
+} from "@shared/realtime";
+import { PERSON_HISTORY_FIELDS } from "@shared/history";
+import { relationshipIdentity, RelationshipError } from "@shared/validation";
+
+export type ExportFormat = 'json' | 'gedcom' | 'gedcom7';
+export type ImportMode = 'append' | 'merge';
+
+// A request for the tree view to bring a person into view. Each request is
+// a new object, so asking for the same person twice still moves the view.
+export type FocusRequest = { personId: number };
+
+// The outcome of saving changes to a person. A conflict means someone else
+// saved the person after the version the changes were based on.
+export type UpdatePersonResult =
+  | { status: 'saved'; person: Person }
+  | { status: 'conflict'; current: Person }
+  | { status: 'failed' };
+
+// The outcome of adding a relationship. A rejection is the server's
+// reason for refusing it, e.g. a third parent, to show next to the form.
+export type AddRelationshipResult =
+  | { status: 'saved'; relationship: Relationship }
+  | { status: 'rejected'; error: RelationshipError }
+  | { status: 'failed' };
+
+// A relationship to check before adding it, for a person who may not be
+// saved yet and so has no ID
+export type RelationshipCheck = Omit<InsertRelationship, 'personId'> & { personId?: number };
+
+// The tree that was open last time, reopened on the next visit
+const CURRENT_TREE_STORAGE_KEY = 'familyTreeCurrentTree';
+
+const DEFAULT_TREE_NAME = 'My Family Tree';
+
+const personValues = ({ id, version, ...values }: Person): InsertPerson => values;
+
+const hasSameValues = (a: Person, b: Person) =>
+  PERSON_HISTORY_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null));
+
+// Why the server refused a relationship, from a failed request's `{code, message}` body
+const getRelationshipError = (error: Error): RelationshipError | undefined => {
+  const body = getErrorBody<Partial<RelationshipError>>(error);
+  return body?.code && body.message ? { code: body.code, message: body.message } : undefined;
+};
+
+/**
+ * Makes the given tree the one opened on the next visit, e.g. after joining it
+ */
+export function rememberCurrentTree(id: number) {
+  localStorage.setItem(CURRENT_TREE_STORAGE_KEY, String(id));
+}
 
 interface FamilyTreeContextType {
+  trees: UserTree[];
+  currentTree: UserTree | undefined;
+  canEdit: boolean;
+  isTreeOwner: boolean;
+  // Editors can only change the people they added
+  canEditPerson: (person: Person) => boolean;
+  selectTree: (id: number) => void;
+  createTree: (name: string) => Promise<UserTree | undefined>;
+  renameTree: (id: number, name: string) => Promise<UserTree | undefined>;
+  deleteTree: (id: number) => Promise<boolean>;
+  leaveTree: (id: number) => Promise<boolean>;
   data: FamilyTreeData;
+  presence: PresenceEntry[];
+  updatePresence: (personId: number | null, mode: PresenceMode) => void;
+  personChangedBy: Record<number, TreeActor>;
   selectedPersonId: number | null;
   isLoading: boolean;
   setSelectedPersonId: (id: number | null) => void;
+  highlightedPersonIds: number[];
+  setHighlightedPersonIds: (ids: number[]) => void;
+  focusRequest: FocusRequest | null;
+  focusPerson: (id: number) => void;
   addPerson: (person: InsertPerson) => Promise<Person | undefined>;
-  updatePerson: (id: number, person: InsertPerson) => Promise<Person | undefined>;
+  updatePerson: (id: number, person: InsertPerson, baseVersion?: number) => Promise<UpdatePersonResult>;
   deletePerson: (id: number) => Promise<boolean>;
-  addRelationship: (relationship: InsertRelationship) => Promise<Relationship | undefined>;
+  restorePerson: (id: number) => Promise<boolean>;
+  addRelationship: (relationship: InsertRelationship) => Promise<AddRelationshipResult>;
+  checkRelationship: (relationship: RelationshipCheck) => Promise<RelationshipError | null>;
   deleteRelationship: (id: number) => Promise<boolean>;
-  exportFamilyTree: () => void;
+  exportFamilyTree: (format?: ExportFormat) => void;
   importFamilyTree: (jsonData: string) => Promise<boolean>;
+  importGedcom: (fileData: ArrayBuffer) => Promise<GedcomImportReport | null>;
+  importData: (importedData: FamilyTreeData, merges?: ImportMerge[]) => Promise<ImportResult | null>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  // What the next undo or redo would change, if there is anything to change
+  undoLabel: string | null;
+  redoLabel: string | null;
   saveToLocalStorage: () => void;
   loadFromLocalStorage: () => boolean;
 }
@@ -33,23 +124,143 @@ interface FamilyTreeProviderProps {
 }
 
 export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
+  const [trees, setTrees] = useState<UserTree[]>([]);
+  const [currentTreeId, setCurrentTreeId] = useState<number | null>(null);
   const [data, setData] = useState<FamilyTreeData>({ persons: [], relationships: [] });
   const [selectedPersonId, setSelectedPersonId] = useState<number | null>(null);
+  const [highlightedPersonIds, setHighlightedPersonIds] = useState<number[]>([]);
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  const [personChangedBy, setPersonChangedBy] = useState<Record<number, TreeActor>>({});
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Trees this window is deleting or leaving, whose sockets close as it does
+  const removingTreeIdsRef = useRef(new Set<number>());
+
+  const currentTree = trees.find(tree => tree.id === currentTreeId);
+  const undoStack = useUndoStack();
+  
+  // The latest data, for undo and redo steps that run after a few renders
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // What the user's role in the open tree lets them do; the server enforces the same
+  const canEdit = hasTreeRole(currentTree?.role, 'editor');
+  const isTreeOwner = hasTreeRole(currentTree?.role, 'owner');
+  const canEditPerson = (person: Person) => canChangePerson(currentTree?.role, user?.id, person);
+
+  // All person and relationship endpoints are scoped to the open tree
+  const treeUrl = (path: string) => `/api/trees/${currentTreeId}${path}`;
+  const dataStorageKey = `familyTreeData-${currentTreeId}`;
+
+  // Changes made by anyone with the tree open, including this window, are
+  // applied as they happen. Who last changed each person is kept so edits
+  // that conflict with theirs can say so.
+  const handleTreeEvent = (event: TreeEvent, actor: TreeActor) => {
+    setData(prev => applyTreeEvent(prev, event));
+    
+    const changedPersonIds = event.type === 'person-updated' ? event.persons.map(p => p.id)
+      : event.type === 'person-deleted' ? event.personIds
+      : [];
+    if (changedPersonIds.length > 0) {
+      setPersonChangedBy(prev => {
+        const next = { ...prev };
+        changedPersonIds.forEach(id => { next[id] = actor; });
+        return next;
+      });
+    }
+  };
+  
+  const reloadData = async () => {
+    try {
+      const response = await fetch(treeUrl('/familytree'));
+      if (response.ok) {
+        setData(await response.json());
+      }
+    } catch (error) {
+      console.error('Error reloading family tree data:', error);
+    }
+  };
+  
+  // Someone else changed this user's role in the open tree
+  const handleAccessChange = (role: TreeRole) => {
+    if (!currentTree || currentTree.role === role) return;
+    setTrees(prev => prev.map(t => t.id === currentTree.id ? { ...t, role } : t));
+    toast({
+      title: "Your role changed",
+      description: `You are now ${role === 'owner' ? 'an owner' : `a ${role}`} of "${currentTree.name}".`
+    });
+  };
 
-  // Fetch initial data
+  // The user was removed from the open tree, or it was deleted
+  const handleAccessRevoked = async () => {
+    if (!currentTree || removingTreeIdsRef.current.has(currentTree.id)) return;
+    toast({
+      title: "Tree no longer available",
+      description: `You no longer have access to "${currentTree.name}".`
+    });
+    try {
+      await removeTree(currentTree.id);
+    } catch (error) {
+      console.error('Error switching tree:', error);
+    }
+  };
+  
+  const { presence, updatePresence } = useTreeEvents(currentTreeId, {
+    onEvent: handleTreeEvent,
+    onReconnect: reloadData,
+    onAccessChange: handleAccessChange,
+    onAccessRevoked: handleAccessRevoked
+  });
+
+  // Fetch the list of trees, creating a first one on a fresh installation
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchTrees = async () => {
       try {
-        // Try to load from localStorage first
-        if (loadFromLocalStorage()) {
-          setIsLoading(false);
-          return;
+        const response = await fetch('/api/trees');
+        if (!response.ok) {
+          throw new Error('Failed to fetch trees');
         }
         
-        // If no local data, fetch from API
-        const response = await fetch('/api/familytree');
+        let treeList: UserTree[] = await response.json();
+        if (treeList.length === 0) {
+          const createResponse = await apiRequest('POST', '/api/trees', { name: DEFAULT_TREE_NAME });
+          treeList = [await createResponse.json()];
+        }
+        setTrees(treeList);
+        
+        const savedTreeId = Number(localStorage.getItem(CURRENT_TREE_STORAGE_KEY));
+        setCurrentTreeId(treeList.some(tree => tree.id === savedTreeId) ? savedTreeId : treeList[0].id);
+      } catch (error) {
+        console.error('Error fetching trees:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load family trees.",
+          variant: "destructive"
+        });
+        setIsLoading(false);
+      }
+    };
+
+    fetchTrees();
+  }, []);
+
+  // Fetch the data of the open tree whenever another tree is opened
+  useEffect(() => {
+    if (currentTreeId === null) return;
+    rememberCurrentTree(currentTreeId);
+    setSelectedPersonId(null);
+    setHighlightedPersonIds([]);
+    setPersonChangedBy({});
+    undoStack.clear();
+
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        
+        // The server has the tree as others left it, so a copy saved in this
+        // browser is only shown when the server can't be reached
+        const response = await fetch(treeUrl('/familytree'));
         if (!response.ok) {
           throw new Error('Failed to fetch family tree data');
         }
@@ -58,9 +269,12 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
         setData(familyTreeData);
       } catch (error) {
         console.error('Error fetching family tree data:', error);
+        const hasSavedCopy = loadFromLocalStorage();
         toast({
           title: "Error",
-          description: "Failed to load family tree data.",
+          description: hasSavedCopy
+            ? "Failed to load family tree data. Showing the copy saved in this browser."
+            : "Failed to load family tree data.",
           variant: "destructive"
         });
       } finally {
@@ -69,19 +283,122 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
     };
 
     fetchData();
-  }, []);
+  }, [currentTreeId]);
+
+  const selectTree = (id: number) => {
+    setCurrentTreeId(id);
+  };
+
+  const createTree = async (name: string): Promise<UserTree | undefined> => {
+    try {
+      const response = await apiRequest('POST', '/api/trees', { name });
+      const newTree: UserTree = await response.json();
+      
+      setTrees(prev => [...prev, newTree]);
+      setCurrentTreeId(newTree.id);
+      return newTree;
+    } catch (error) {
+      console.error('Error creating tree:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create tree.",
+        variant: "destructive"
+      });
+      return undefined;
+    }
+  };
+
+  const renameTree = async (id: number, name: string): Promise<UserTree | undefined> => {
+    const tree = trees.find(t => t.id === id);
+    if (!tree) return undefined;
+    
+    try {
+      const response = await apiRequest('PUT', `/api/trees/${id}`, { name, description: tree.description });
+      const updatedTree: UserTree = await response.json();
+      
+      setTrees(prev => prev.map(t => t.id === id ? updatedTree : t));
+      return updatedTree;
+    } catch (error) {
+      console.error('Error renaming tree:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename tree.",
+        variant: "destructive"
+      });
+      return undefined;
+    }
+  };
+
+  // Drops a tree the user no longer has, then opens another tree
+  const removeTree = async (id: number) => {
+    localStorage.removeItem(`familyTreeData-${id}`);
+    
+    let remaining = trees.filter(t => t.id !== id);
+    if (remaining.length === 0) {
+      const createResponse = await apiRequest('POST', '/api/trees', { name: DEFAULT_TREE_NAME });
+      remaining = [await createResponse.json()];
+    }
+    setTrees(remaining);
+    if (id === currentTreeId) {
+      setCurrentTreeId(remaining[0].id);
+    }
+  };
+
+  // Deletes a tree with everyone in it
+  const deleteTree = async (id: number): Promise<boolean> => {
+    removingTreeIdsRef.current.add(id);
+    try {
+      await apiRequest('DELETE', `/api/trees/${id}`);
+      await removeTree(id);
+      return true;
+    } catch (error) {
+      console.error('Error deleting tree:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete tree.",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      removingTreeIdsRef.current.delete(id);
+    }
+  };
+
+  // Gives up the user's access to a tree someone else shared with them
+  const leaveTree = async (id: number): Promise<boolean> => {
+    if (!user) return false;
+    
+    removingTreeIdsRef.current.add(id);
+    try {
+      await apiRequest('DELETE', `/api/trees/${id}/members/${user.id}`);
+      await removeTree(id);
+      return true;
+    } catch (error) {
+      console.error('Error leaving tree:', error);
+      toast({
+        title: "Error",
+        description: "Failed to leave tree.",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      removingTreeIdsRef.current.delete(id);
+    }
+  };
+
+  const focusPerson = (id: number) => {
+    setFocusRequest({ personId: id });
+  };
 
   const addPerson = async (person: InsertPerson): Promise<Person | undefined> => {
     try {
-      const response = await apiRequest('POST', '/api/persons', person);
+      const response = await apiRequest('POST', treeUrl('/persons'), person);
       const newPerson: Person = await response.json();
       
-      setData(prev => ({
-        ...prev,
-        persons: [...prev.persons, newPerson]
-      }));
+      setData(prev => applyTreeEvent(prev, { type: 'person-created', persons: [newPerson] }));
+      recordPersonCreation(newPerson);
       
-      queryClient.invalidateQueries({ queryKey: ['/api/persons'] });
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/persons')] });
       return newPerson;
     } catch (error) {
       console.error('Error adding person:', error);
@@ -94,42 +411,50 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
     }
   };
 
-  const updatePerson = async (id: number, person: InsertPerson): Promise<Person | undefined> => {
+  // Without a base version, the changes overwrite whatever was saved last
+  const updatePerson = async (id: number, person: InsertPerson, baseVersion?: number): Promise<UpdatePersonResult> => {
+    const previousPerson = dataRef.current.persons.find(p => p.id === id);
     try {
-      const response = await apiRequest('PUT', `/api/persons/${id}`, person);
+      const headers = baseVersion !== undefined ? { 'If-Match': `"${baseVersion}"` } : undefined;
+      const response = await apiRequest('PUT', treeUrl(`/persons/${id}`), person, headers);
       const updatedPerson: Person = await response.json();
       
-      setData(prev => ({
-        ...prev,
-        persons: prev.persons.map(p => p.id === id ? updatedPerson : p)
-      }));
+      setData(prev => applyTreeEvent(prev, { type: 'person-updated', persons: [updatedPerson] }));
+      if (previousPerson) recordPersonUpdate(previousPerson, updatedPerson);
       
-      queryClient.invalidateQueries({ queryKey: ['/api/persons'] });
-      return updatedPerson;
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/persons')] });
+      return { status: 'saved', person: updatedPerson };
     } catch (error) {
+      // The caller decides how to merge with the version that was saved first
+      const conflict = getErrorStatus(error as Error) === 409
+        ? getErrorBody<{ person: Person }>(error as Error)
+        : undefined;
+      if (conflict) {
+        setData(prev => applyTreeEvent(prev, { type: 'person-updated', persons: [conflict.person] }));
+        return { status: 'conflict', current: conflict.person };
+      }
+      
       console.error('Error updating person:', error);
       toast({
         title: "Error",
         description: "Failed to update person.",
         variant: "destructive"
       });
-      return undefined;
+      return { status: 'failed' };
     }
   };
 
+  // Deleted people go to the trash, with their relationships
   const deletePerson = async (id: number): Promise<boolean> => {
+    const person = dataRef.current.persons.find(p => p.id === id);
     try {
-      await apiRequest('DELETE', `/api/persons/${id}`);
+      await apiRequest('DELETE', treeUrl(`/persons/${id}`));
       
-      setData(prev => ({
-        ...prev,
-        persons: prev.persons.filter(p => p.id !== id),
-        relationships: prev.relationships.filter(
-          r => r.personId !== id && r.relatedPersonId !== id
-        )
-      }));
+      setData(prev => applyTreeEvent(prev, { type: 'person-deleted', personIds: [id] }));
+      if (person) recordPersonDeletion(person);
       
-      queryClient.invalidateQueries({ queryKey: ['/api/persons'] });
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/persons')] });
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/trash')] });
       return true;
     } catch (error) {
       console.error('Error deleting person:', error);
@@ -142,39 +467,86 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
     }
   };
 
-  const addRelationship = async (relationship: InsertRelationship): Promise<Relationship | undefined> => {
+  // Brings a person back from the trash, with their relationships to the
+  // people who aren't in it
+  const restorePerson = async (id: number): Promise<boolean> => {
     try {
-      const response = await apiRequest('POST', '/api/relationships', relationship);
-      const newRelationship: Relationship = await response.json();
+      const response = await apiRequest('POST', treeUrl(`/trash/persons/${id}/restore`));
+      const restored: FamilyTreeData = await response.json();
       
-      // Note: The server creates reciprocal relationships, so we'll reload the data
-      const familyTreeResponse = await fetch('/api/familytree');
-      const familyTreeData = await familyTreeResponse.json();
-      setData(familyTreeData);
+      setData(prev => applyTreeEvent(
+        applyTreeEvent(prev, { type: 'person-created', persons: restored.persons }),
+        { type: 'relationship-created', relationships: restored.relationships }
+      ));
+      restored.persons.forEach(recordPersonRestoration);
       
-      queryClient.invalidateQueries({ queryKey: ['/api/relationships'] });
-      return newRelationship;
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/persons')] });
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/trash')] });
+      return true;
     } catch (error) {
+      console.error('Error restoring person:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore person.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const addRelationship = async (relationship: InsertRelationship): Promise<AddRelationshipResult> => {
+    try {
+      const response = await apiRequest('POST', treeUrl('/relationships'), relationship);
+      const { relationship: newRelationship, events }: CreateRelationshipResponse = await response.json();
+      
+      // The events include the reciprocal relationship the server created
+      setData(prev => events.reduce(applyTreeEvent, prev));
+      recordRelationshipChange(relationship, 'create');
+      
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/relationships')] });
+      return { status: 'saved', relationship: newRelationship };
+    } catch (error) {
+      // The caller shows why the server refused it
+      const rejection = getRelationshipError(error as Error);
+      if (rejection) return { status: 'rejected', error: rejection };
+      
       console.error('Error adding relationship:', error);
       toast({
         title: "Error",
         description: "Failed to add relationship.",
         variant: "destructive"
       });
-      return undefined;
+      return { status: 'failed' };
+    }
+  };
+  
+  // Asks the server whether a relationship could be added, without adding
+  // it. When the check itself fails, adding it will report the problem.
+  const checkRelationship = async (relationship: RelationshipCheck): Promise<RelationshipError | null> => {
+    try {
+      await apiRequest('POST', treeUrl('/relationships/check'), relationship);
+      return null;
+    } catch (error) {
+      return getRelationshipError(error as Error) ?? null;
     }
   };
 
   const deleteRelationship = async (id: number): Promise<boolean> => {
+    const relationship = dataRef.current.relationships.find(r => r.id === id);
     try {
-      await apiRequest('DELETE', `/api/relationships/${id}`);
+      await apiRequest('DELETE', treeUrl(`/relationships/${id}`));
       
-      // Reload the data as the server also deletes reciprocal relationships
-      const familyTreeResponse = await fetch('/api/familytree');
-      const familyTreeData = await familyTreeResponse.json();
-      setData(familyTreeData);
+      // The server deletes the reciprocal relationship too, which has the same identity
+      setData(prev => {
+        const identity = relationship && relationshipIdentity(relationship.type, relationship.personId, relationship.relatedPersonId);
+        const relationshipIds = prev.relationships
+          .filter(r => r.id === id || relationshipIdentity(r.type, r.personId, r.relatedPersonId) === identity)
+          .map(r => r.id);
+        return applyTreeEvent(prev, { type: 'relationship-deleted', relationshipIds });
+      });
+      if (relationship) recordRelationshipChange(relationship, 'delete');
       
-      queryClient.invalidateQueries({ queryKey: ['/api/relationships'] });
+      queryClient.invalidateQueries({ queryKey: [treeUrl('/relationships')] });
       return true;
     } catch (error) {
       console.error('Error deleting relationship:', error);
@@ -187,16 +559,127 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
     }
   };
 
-  const exportFamilyTree = () => {
+  // Deleting a person only moves them to the trash, so the steps that
+  // bring them back restore them from there, under the same ID
+  const recordPersonCreation = (person: Person) => {
+    undoStack.record({
+      label: `Add ${person.name}`,
+      undo: () => deletePerson(person.id),
+      redo: () => restorePerson(person.id)
+    });
+  };
+
+  const recordPersonDeletion = (person: Person) => {
+    undoStack.record({
+      label: `Delete ${person.name}`,
+      undo: () => restorePerson(person.id),
+      redo: () => deletePerson(person.id)
+    });
+  };
+
+  const recordPersonRestoration = (person: Person) => {
+    undoStack.record({
+      label: `Restore ${person.name}`,
+      undo: () => deletePerson(person.id),
+      redo: () => restorePerson(person.id)
+    });
+  };
+
+  const recordPersonUpdate = (before: Person, after: Person) => {
+    // Changes the person back or forth, unless someone changed them since
+    const change = (from: Person, to: Person, action: 'undo' | 'redo') => async () => {
+      const current = dataRef.current.persons.find(p => p.id === before.id);
+      if (!current || !hasSameValues(current, from)) {
+        toast({
+          title: `Can't ${action}`,
+          description: `${from.name} was changed or deleted since.`,
+          variant: "destructive"
+        });
+        return false;
+      }
+      const result = await updatePerson(current.id, personValues(to), current.version);
+      return result.status === 'saved';
+    };
+    undoStack.record({ label: `Edit ${after.name}`, undo: change(after, before, 'undo'), redo: change(before, after, 'redo') });
+  };
+
+  // Relationships are found by who they relate rather than by ID, so steps
+  // also find the reciprocal the server created, or a relationship that a
+  // redo created again
+  const recordRelationshipChange = (relationship: InsertRelationship, action: 'create' | 'delete') => {
+    const { type, personId, relatedPersonId } = relationship;
+    const find = () => {
+      const identity = relationshipIdentity(type, personId, relatedPersonId);
+      return dataRef.current.relationships.find(
+        r => relationshipIdentity(r.type, r.personId, r.relatedPersonId) === identity
+      );
+    };
+    const create = async () => {
+      if (find() !== undefined) return true;
+      const result = await addRelationship({ type, personId, relatedPersonId });
+      if (result.status === 'rejected') {
+        toast({ title: "Error", description: result.error.message, variant: "destructive" });
+      }
+      return result.status === 'saved';
+    };
+    const remove = async () => {
+      const existing = find();
+      return existing === undefined || deleteRelationship(existing.id);
+    };
+
+    undoStack.record({
+      label: `${action === 'create' ? 'Add' : 'Remove'} ${type} relationship`,
+      undo: action === 'create' ? remove : create,
+      redo: action === 'create' ? create : remove
+    });
+  };
+
+  const undo = async () => {
+    const command = await undoStack.undo();
+    if (command) {
+      toast({ title: "Undone", description: command.label });
+    }
+  };
+
+  const redo = async () => {
+    const command = await undoStack.redo();
+    if (command) {
+      toast({ title: "Redone", description: command.label });
+    }
+  };
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes, except while typing, where they
+  // undo the typing
+  useEffect(() => {
+    if (!canEdit) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const exportFamilyTree = (format: ExportFormat = 'json') => {
     try {
-      const jsonStr = flattenTreeForExport(data);
-      const blob = new Blob([jsonStr], { type: 'application/json' });
+      const blob = format === 'json'
+        ? new Blob([flattenTreeForExport(data)], { type: 'application/json' })
+        : new Blob([formatGedcom(data, format === 'gedcom7' ? '7.0' : '5.5.1')], { type: 'text/plain;charset=utf-8' });
       const url = URL.createObjectURL(blob);
       
       // Create a link and trigger download
       const link = document.createElement('a');
       link.href = url;
-      link.download = 'family-tree.json';
+      const baseName = currentTree?.name ?? 'family-tree';
+      link.download = format === 'json' ? `${baseName}.json` : `${baseName}.ged`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -215,6 +698,18 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
     }
   };
 
+  // Sends an imported document to the server, which adds it in a single
+  // transaction and maps the document's IDs to the newly assigned ones
+  const importTreeData = async (importedData: FamilyTreeData, merges?: ImportMerge[]): Promise<ImportResult> => {
+    const response = await apiRequest('POST', treeUrl('/import'), { ...importedData, merges });
+    const { events, ...result }: ImportResponse = await response.json();
+    
+    setData(prev => events.reduce(applyTreeEvent, prev));
+    
+    queryClient.invalidateQueries({ queryKey: [treeUrl('/persons')] });
+    return result;
+  };
+
   const importFamilyTree = async (jsonData: string): Promise<boolean> => {
     try {
       const parsedData = parseImportedTreeData(jsonData);
@@ -222,51 +717,88 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
         throw new Error('Invalid data format');
       }
       
-      // Reset existing data and replace with imported data
-      // In a real app, we'd have more sophisticated merge logic
-      
-      // First delete all existing data
+      // Imported data is appended to the existing tree; use importData
+      // with merges to match imported people to existing ones instead
       setIsLoading(true);
+      const result = await importTreeData(parsedData);
       
-      // Add the imported data
-      for (const person of parsedData.persons) {
-        const { id, ...personData } = person;
-        await addPerson(personData);
-      }
+      toast({
+        title: "Success",
+        description: `Imported ${result.personCount} people and ${result.relationshipCount} relationships.`,
+      });
       
-      // Add relationships after all persons are added
-      for (const relationship of parsedData.relationships) {
-        const { id, ...relationshipData } = relationship;
-        await addRelationship(relationshipData);
+      setIsLoading(false);
+      return true;
+    } catch (error) {
+      console.error('Error importing family tree:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import family tree. Please check the file format.",
+        variant: "destructive"
+      });
+      setIsLoading(false);
+      return false;
+    }
+  };
+
+  const importGedcom = async (fileData: ArrayBuffer): Promise<GedcomImportReport | null> => {
+    try {
+      const { text, encoding } = decodeGedcom(fileData);
+      const { data: gedcomData, report } = parseGedcom(text, encoding);
+      if (gedcomData.persons.length === 0) {
+        throw new Error('No individuals found');
       }
       
-      // Reload data
-      const response = await fetch('/api/familytree');
-      const familyTreeData = await response.json();
-      setData(familyTreeData);
+      setIsLoading(true);
+      const result = await importTreeData(gedcomData);
       
       toast({
         title: "Success",
-        description: "Family tree imported successfully.",
+        description: `Imported ${result.personCount} people and ${result.relationshipCount} relationships from GEDCOM.`,
       });
       
       setIsLoading(false);
-      return true;
+      return report;
+    } catch (error) {
+      console.error('Error importing GEDCOM:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import GEDCOM file. Please check the file format.",
+        variant: "destructive"
+      });
+      setIsLoading(false);
+      return null;
+    }
+  };
+
+  // Imports already parsed data, merging the listed persons into existing ones
+  const importData = async (importedData: FamilyTreeData, merges: ImportMerge[] = []): Promise<ImportResult | null> => {
+    try {
+      setIsLoading(true);
+      const result = await importTreeData(importedData, merges);
+      
+      toast({
+        title: "Success",
+        description: `Imported ${result.personCount} people, merged ${merges.length} and added ${result.relationshipCount} relationships.`,
+      });
+      
+      setIsLoading(false);
+      return result;
     } catch (error) {
       console.error('Error importing family tree:', error);
       toast({
         title: "Error",
-        description: "Failed to import family tree. Please check the file format.",
+        description: "Failed to import family tree.",
         variant: "destructive"
       });
       setIsLoading(false);
-      return false;
+      return null;
     }
   };
 
   const saveToLocalStorage = () => {
     try {
-      localStorage.setItem('familyTreeData', JSON.stringify(data));
+      localStorage.setItem(dataStorageKey, JSON.stringify(data));
       toast({
         title: "Success",
         description: "Family tree saved to local storage.",
@@ -285,7 +817,7 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
 
   const loadFromLocalStorage = (): boolean => {
     try {
-      const savedData = localStorage.getItem('familyTreeData');
+      const savedData = localStorage.getItem(dataStorageKey);
       if (savedData) {
         const parsedData = JSON.parse(savedData);
         setData(parsedData);
@@ -304,17 +836,42 @@ export function FamilyTreeProvider({ children }: FamilyTreeProviderProps) {
   };
 
   const value = {
+    trees,
+    currentTree,
+    canEdit,
+    isTreeOwner,
+    canEditPerson,
+    selectTree,
+    createTree,
+    renameTree,
+    deleteTree,
+    leaveTree,
     data,
+    presence,
+    updatePresence,
+    personChangedBy,
     selectedPersonId,
     isLoading,
     setSelectedPersonId,
+    highlightedPersonIds,
+    setHighlightedPersonIds,
+    focusRequest,
+    focusPerson,
     addPerson,
     updatePerson,
     deletePerson,
+    restorePerson,
     addRelationship,
+    checkRelationship,
     deleteRelationship,
     exportFamilyTree,
     importFamilyTree,
+    importGedcom,
+    importData,
+    undo,
+    redo,
+    undoLabel: undoStack.nextUndo?.label ?? null,
+    redoLabel: undoStack.nextRedo?.label ?? null,
     saveToLocalStorage,
     loadFromLocalStorage
   };
@@ -0,0 +1,103 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { PublicUser, InsertUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export const USER_QUERY_KEY = ["/api/user"];
+
+type Credentials = Pick<InsertUser, "username" | "password">;
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // Not being logged in is a normal state here, not an error
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(USER_QUERY_KEY, loggedInUser);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (newUser: InsertUser) => {
+      const response = await apiRequest("POST", "/api/register", newUser);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (registeredUser) => {
+      queryClient.setQueryData(USER_QUERY_KEY, registeredUser);
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
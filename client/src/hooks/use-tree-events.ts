@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from "react";
+import type { TreeRole } from "@shared/schema";
+import {
+  TREE_EVENTS_PATH, ACCESS_REVOKED_CLOSE_CODE,
+  type ClientMessage, type PresenceEntry, type PresenceMode, type ServerMessage, type TreeActor, type TreeEvent
+} from "@shared/realtime";
+
+// Reconnect quickly at first, backing off to this delay
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+type PresenceFocus = { personId: number | null; mode: PresenceMode };
+
+interface TreeEventHandlers {
+  onEvent: (event: TreeEvent, actor: TreeActor) => void;
+  // Called after a dropped connection is back, as events may have been missed
+  onReconnect: () => void;
+  // Called when someone changes this user's role in the tree
+  onAccessChange: (role: TreeRole) => void;
+  // Called once this user can no longer see the tree; the socket stays closed
+  onAccessRevoked: () => void;
+}
+
+/**
+ * Subscribes to the live changes of a tree and shares which person this
+ * window has open. Returns everyone else who has the tree open.
+ */
+export function useTreeEvents(treeId: number | null, handlers: TreeEventHandlers) {
+  const [presence, setPresence] = useState<PresenceEntry[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const focusRef = useRef<PresenceFocus>({ personId: null, mode: 'viewing' });
+
+  // The handlers change on every render; the socket always calls the latest
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const send = (message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  useEffect(() => {
+    if (treeId === null) return;
+
+    let connectionId: string | null = null;
+    let reconnectTimer: number | undefined;
+    let attempts = 0;
+    let hasConnected = false;
+    let isClosed = false;
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case 'welcome':
+          connectionId = message.connectionId;
+          break;
+        case 'presence':
+          setPresence(message.entries.filter(entry => entry.connectionId !== connectionId));
+          break;
+        case 'tree-event':
+          handlersRef.current.onEvent(message.event, message.actor);
+          break;
+        case 'access-changed':
+          handlersRef.current.onAccessChange(message.role);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${TREE_EVENTS_PATH}?treeId=${treeId}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        send({ type: 'presence', ...focusRef.current });
+        if (hasConnected) {
+          handlersRef.current.onReconnect();
+        }
+        hasConnected = true;
+      };
+      socket.onmessage = (e) => {
+        try {
+          handleMessage(JSON.parse(e.data));
+        } catch (error) {
+          console.error('Error handling tree event:', error);
+        }
+      };
+      socket.onclose = (e) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setPresence([]);
+        if (isClosed) return;
+        if (e.code === ACCESS_REVOKED_CLOSE_CODE) {
+          handlersRef.current.onAccessRevoked();
+          return;
+        }
+
+        const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempts);
+        attempts++;
+        reconnectTimer = window.setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      isClosed = true;
+      window.clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [treeId]);
+
+  // Tells the others which person this window has open, if any
+  const updatePresence = (personId: number | null, mode: PresenceMode) => {
+    focusRef.current = { personId, mode };
+    send({ type: 'presence', personId, mode });
+  };
+
+  return { presence, updatePresence };
+}
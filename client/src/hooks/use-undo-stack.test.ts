@@ -0,0 +1,171 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { UndoCommand, useUndoStack } from "./use-undo-stack";
+
+// A step that works unless told otherwise, counting how often it was replayed
+const command = (label: string, result: boolean | Error = true): UndoCommand => {
+  const replay = async () => {
+    if (result instanceof Error) throw result;
+    return result;
+  };
+  return { label, undo: vi.fn(replay), redo: vi.fn(replay) };
+};
+
+const renderUndoStack = () => renderHook(() => useUndoStack());
+
+describe('useUndoStack', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('undoes and redoes the latest step', async () => {
+    const { result } = renderUndoStack();
+    const first = command('Add Mary');
+    const second = command('Rename Mary');
+    act(() => {
+      result.current.record(first);
+      result.current.record(second);
+    });
+    expect(result.current.nextUndo).toBe(second);
+
+    let undone: UndoCommand | undefined;
+    await act(async () => {
+      undone = await result.current.undo();
+    });
+    expect(undone).toBe(second);
+    expect(second.undo).toHaveBeenCalledTimes(1);
+    expect(result.current.nextUndo).toBe(first);
+    expect(result.current.nextRedo).toBe(second);
+
+    let redone: UndoCommand | undefined;
+    await act(async () => {
+      redone = await result.current.redo();
+    });
+    expect(redone).toBe(second);
+    expect(second.redo).toHaveBeenCalledTimes(1);
+    expect(result.current.nextUndo).toBe(second);
+    expect(result.current.nextRedo).toBeUndefined();
+  });
+
+  it('does nothing when there is no step to undo or redo', async () => {
+    const { result } = renderUndoStack();
+    await act(async () => {
+      expect(await result.current.undo()).toBeUndefined();
+      expect(await result.current.redo()).toBeUndefined();
+    });
+  });
+
+  it('forgets the undone steps once a new step is recorded', async () => {
+    const { result } = renderUndoStack();
+    act(() => result.current.record(command('Add Mary')));
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(result.current.nextRedo).toBeDefined();
+
+    const next = command('Add John');
+    act(() => result.current.record(next));
+    expect(result.current.nextUndo).toBe(next);
+    expect(result.current.nextRedo).toBeUndefined();
+  });
+
+  it('keeps only the latest 100 steps', () => {
+    const { result } = renderUndoStack();
+    const commands = Array.from({ length: 101 }, (_, i) => command(`Step ${i}`));
+    act(() => commands.forEach(c => result.current.record(c)));
+
+    expect(result.current.nextUndo).toBe(commands[100]);
+  });
+
+  it.each([
+    { name: 'fails', result: false },
+    { name: 'throws', result: new Error('Network error') }
+  ])('drops a step that $name, leaving the one before it', async ({ result: outcome }) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderUndoStack();
+    const first = command('Add Mary');
+    act(() => {
+      result.current.record(first);
+      result.current.record(command('Rename Mary', outcome));
+    });
+
+    let undone: UndoCommand | undefined;
+    await act(async () => {
+      undone = await result.current.undo();
+    });
+    expect(undone).toBeUndefined();
+    expect(result.current.nextUndo).toBe(first);
+    expect(result.current.nextRedo).toBeUndefined();
+  });
+
+  it('does not record the changes made while undoing or redoing a step', async () => {
+    const { result } = renderUndoStack();
+    // Undoing and redoing go through the same code paths as a fresh edit,
+    // which record themselves as new steps
+    const edit: UndoCommand = {
+      label: 'Rename Mary',
+      undo: vi.fn(async () => {
+        result.current.record(command('Rename Mary back'));
+        return true;
+      }),
+      redo: vi.fn(async () => {
+        result.current.record(command('Rename Mary again'));
+        return true;
+      })
+    };
+    act(() => result.current.record(edit));
+
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(result.current.nextUndo).toBeUndefined();
+    expect(result.current.nextRedo).toBe(edit);
+
+    await act(async () => {
+      await result.current.redo();
+    });
+    expect(result.current.nextUndo).toBe(edit);
+    expect(result.current.nextRedo).toBeUndefined();
+  });
+
+  it('records new steps again once a replayed step fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderUndoStack();
+    act(() => result.current.record(command('Rename Mary', new Error('Network error'))));
+    await act(async () => {
+      await result.current.undo();
+    });
+
+    const next = command('Add John');
+    act(() => result.current.record(next));
+    expect(result.current.nextUndo).toBe(next);
+  });
+
+  it('ignores an undo while another step is still being undone', async () => {
+    const { result } = renderUndoStack();
+    let finish: (succeeded: boolean) => void = () => {};
+    const slow: UndoCommand = {
+      label: 'Add Mary',
+      undo: vi.fn(() => new Promise<boolean>(resolve => { finish = resolve; })),
+      redo: vi.fn(async () => true)
+    };
+    act(() => {
+      result.current.record(command('Add John'));
+      result.current.record(slow);
+    });
+
+    let pending: Promise<UndoCommand | undefined> | undefined;
+    let second: UndoCommand | undefined;
+    await act(async () => {
+      pending = result.current.undo();
+      second = await result.current.undo();
+      finish(true);
+      await pending;
+    });
+    expect(second).toBeUndefined();
+    expect(slow.undo).toHaveBeenCalledTimes(1);
+    expect(result.current.nextUndo?.label).toBe('Add John');
+    expect(result.current.nextRedo).toBe(slow);
+  });
+});
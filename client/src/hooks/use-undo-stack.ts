@@ -0,0 +1,72 @@
+import { useRef, useState } from "react";
+
+// Older steps are forgotten beyond this many
+const MAX_UNDO_STEPS = 100;
+
+/**
+ * A change that can be undone and redone. Each returns whether it worked;
+ * one that didn't is dropped, as the tree has moved on without it.
+ */
+export type UndoCommand = {
+  label: string;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+};
+
+type UndoStacks = { undo: UndoCommand[]; redo: UndoCommand[] };
+
+/**
+ * Keeps the changes that can be undone, and those undone that can be redone
+ */
+export function useUndoStack() {
+  const [stacks, setStacks] = useState<UndoStacks>({ undo: [], redo: [] });
+  const stacksRef = useRef(stacks);
+  stacksRef.current = stacks;
+
+  // Set while a step is undone or redone, so the changes it makes to get
+  // there aren't recorded as new steps
+  const isReplayingRef = useRef(false);
+
+  const record = (command: UndoCommand) => {
+    if (isReplayingRef.current) return;
+    setStacks(prev => ({ undo: [...prev.undo, command].slice(-MAX_UNDO_STEPS), redo: [] }));
+  };
+
+  // Undoes or redoes the latest step, moving it to the other stack if it
+  // worked. Returns it then.
+  const replay = async (direction: keyof UndoStacks): Promise<UndoCommand | undefined> => {
+    const from = stacksRef.current[direction];
+    const command = from[from.length - 1];
+    if (!command || isReplayingRef.current) return undefined;
+
+    let succeeded = false;
+    isReplayingRef.current = true;
+    try {
+      succeeded = await command[direction]();
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+    } finally {
+      isReplayingRef.current = false;
+    }
+
+    const to: keyof UndoStacks = direction === 'undo' ? 'redo' : 'undo';
+    setStacks(prev => ({
+      [direction]: prev[direction].filter(c => c !== command),
+      [to]: succeeded ? [...prev[to], command] : prev[to]
+    } as UndoStacks));
+    return succeeded ? command : undefined;
+  };
+
+  const clear = () => {
+    setStacks({ undo: [], redo: [] });
+  };
+
+  return {
+    record,
+    undo: () => replay('undo'),
+    redo: () => replay('redo'),
+    clear,
+    nextUndo: stacks.undo[stacks.undo.length - 1] as UndoCommand | undefined,
+    nextRedo: stacks.redo[stacks.redo.length - 1] as UndoCommand | undefined
+  };
+}
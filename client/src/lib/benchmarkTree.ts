@@ -0,0 +1,104 @@
+import { FamilyTreeData, Person, Relationship } from "@shared/schema";
+
+const FOUNDING_COUPLES = 8;
+const FIRST_BIRTH_YEAR = 1700;
+const GENERATION_YEARS = 28;
+
+const FIRST_NAMES = {
+  male: ['James', 'John', 'William', 'Thomas', 'George', 'Henry', 'Charles', 'Edward', 'Samuel', 'Joseph'],
+  female: ['Mary', 'Elizabeth', 'Anne', 'Margaret', 'Sarah', 'Jane', 'Catherine', 'Alice', 'Emily', 'Grace'],
+};
+const SURNAMES = ['Smith', 'Brown', 'Taylor', 'Walsh', 'Murphy', 'Evans', 'Wilson', 'Clarke', 'Hughes', 'Byrne'];
+const PLACES = ['Dublin, Ireland', 'Cork, Ireland', 'York, England', 'Bristol, England', 'Boston, USA', 'Quebec, Canada'];
+
+// Small seeded generator (mulberry32), so the output doesn't change between runs
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a large family tree for checking that the tree view stays
+ * responsive, in the shape the client loads it from the server.
+ *
+ * The tree is made of several founding couples whose descendants marry
+ * people from outside the family, with the occasional second marriage.
+ * Runs are repeatable: the same size always gives the same tree.
+ */
+export function generateBenchmarkTree(size: number): FamilyTreeData {
+  const random = createRandom(size);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const persons: Person[] = [];
+  const relationships: Relationship[] = [];
+
+  const addPerson = (gender: 'male' | 'female', surname: string, birthYear: number): Person => {
+    const person: Person = {
+      id: persons.length + 1,
+      version: 1,
+      name: `${pick(FIRST_NAMES[gender])} ${surname}`,
+      gender,
+      birthDate: `${birthYear}-${String(1 + Math.floor(random() * 12)).padStart(2, '0')}-15`,
+      birthPlace: pick(PLACES),
+      deathDate: null,
+      deathPlace: null,
+      notes: null,
+      createdBy: null
+    };
+    persons.push(person);
+    return person;
+  };
+
+  // Both rows of each pair, as the server stores them
+  const relate = (type: 'parent' | 'spouse', personId: number, relatedPersonId: number) => {
+    relationships.push({ id: relationships.length + 1, type, personId, relatedPersonId });
+    relationships.push({
+      id: relationships.length + 1,
+      type: type === 'parent' ? 'child' : 'spouse',
+      personId: relatedPersonId,
+      relatedPersonId: personId
+    });
+  };
+
+  // Couples still waiting for their children, oldest first
+  const couples: { father: Person; mother: Person; surname: string; birthYear: number }[] = [];
+
+  for (let i = 0; i < FOUNDING_COUPLES && persons.length + 2 <= size; i++) {
+    const surname = SURNAMES[i % SURNAMES.length];
+    const father = addPerson('male', surname, FIRST_BIRTH_YEAR);
+    const mother = addPerson('female', pick(SURNAMES), FIRST_BIRTH_YEAR + 2);
+    relate('spouse', father.id, mother.id);
+    couples.push({ father, mother, surname, birthYear: FIRST_BIRTH_YEAR });
+  }
+
+  for (let next = 0; next < couples.length && persons.length < size; next++) {
+    const { father, mother, surname, birthYear } = couples[next];
+    const childCount = 1 + Math.floor(random() * 4);
+
+    for (let c = 0; c < childCount && persons.length < size; c++) {
+      const gender = random() < 0.5 ? 'male' : 'female';
+      const childBirthYear = birthYear + GENERATION_YEARS + c * 2;
+      const child = addPerson(gender, surname, childBirthYear);
+      relate('parent', father.id, child.id);
+      relate('parent', mother.id, child.id);
+
+      // Most children marry someone from outside the family, a few twice
+      const marriages = random() < 0.75 ? (random() < 0.1 ? 2 : 1) : 0;
+      for (let m = 0; m < marriages && persons.length < size; m++) {
+        const spouseGender = gender === 'male' ? 'female' : 'male';
+        const spouse = addPerson(spouseGender, pick(SURNAMES), childBirthYear + Math.floor(random() * 5));
+        relate('spouse', child.id, spouse.id);
+        couples.push(gender === 'male'
+          ? { father: child, mother: spouse, surname, birthYear: childBirthYear }
+          : { father: spouse, mother: child, surname: spouse.name.split(' ')[1], birthYear: childBirthYear });
+      }
+    }
+  }
+
+  return { persons, relationships };
+}
@@ -0,0 +1,152 @@
+import { FamilyTreePerson } from "@shared/schema";
+import { Connector, TreeNode } from "./treeLayout";
+
+/**
+ * Where the tree is on screen: it is drawn `zoom` times its layout size,
+ * with the layout origin `x` and `y` screen pixels from the canvas origin
+ */
+export type CanvasView = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+export type Point = { x: number; y: number };
+
+// A rectangle in layout coordinates
+export type Area = { x: number; y: number; width: number; height: number };
+
+export type ZoomLimits = {
+  minZoom: number;
+  maxZoom: number;
+};
+
+export type NavigationDirection = 'parent' | 'child' | 'previousSibling' | 'nextSibling';
+
+export const DEFAULT_ZOOM_LIMITS: ZoomLimits = { minZoom: 0.1, maxZoom: 4 };
+
+export function clampZoom(zoom: number, limits: ZoomLimits): number {
+  return Math.min(Math.max(zoom, limits.minZoom), limits.maxZoom);
+}
+
+/**
+ * Converts a point on the canvas to layout coordinates
+ */
+export function toLayoutPoint(view: CanvasView, screenPoint: Point): Point {
+  return {
+    x: (screenPoint.x - view.x) / view.zoom,
+    y: (screenPoint.y - view.y) / view.zoom
+  };
+}
+
+/**
+ * Zooms by `factor` while keeping the layout point under `screenPoint`
+ * where it is, so the view zooms toward the pointer
+ */
+export function zoomAt(view: CanvasView, factor: number, screenPoint: Point, limits: ZoomLimits): CanvasView {
+  const zoom = clampZoom(view.zoom * factor, limits);
+  const anchor = toLayoutPoint(view, screenPoint);
+  return {
+    x: screenPoint.x - anchor.x * zoom,
+    y: screenPoint.y - anchor.y * zoom,
+    zoom
+  };
+}
+
+/**
+ * The view that shows the layout point `point` at `screenPoint`
+ */
+export function centerView(point: Point, screenPoint: Point, zoom: number): CanvasView {
+  return {
+    x: screenPoint.x - point.x * zoom,
+    y: screenPoint.y - point.y * zoom,
+    zoom
+  };
+}
+
+/**
+ * The part of the layout visible on a canvas of the given size
+ */
+export function getVisibleArea(view: CanvasView, size: { width: number; height: number }): Area {
+  return {
+    ...toLayoutPoint(view, { x: 0, y: 0 }),
+    width: size.width / view.zoom,
+    height: size.height / view.zoom
+  };
+}
+
+// Cards and lines this far outside the screen are still rendered, so
+// panning doesn't reveal blank edges before the next render
+export const OVERSCAN = 300;
+
+// An area grown by `margin` on every side
+export function expandArea(area: Area, margin: number): Area {
+  return {
+    x: area.x - margin,
+    y: area.y - margin,
+    width: area.width + 2 * margin,
+    height: area.height + 2 * margin
+  };
+}
+
+export function isInArea(box: Area, area: Area): boolean {
+  return box.x + box.width >= area.x && box.x <= area.x + area.width &&
+    box.y + box.height >= area.y && box.y <= area.y + area.height;
+}
+
+/**
+ * SVG paths for the connectors crossing an area: solid lines and dashed
+ * links each become a single path
+ */
+export function getConnectorPaths(connectors: Connector[], area: Area): { linePath: string; linkPath: string } {
+  const lines: string[] = [];
+  const links: string[] = [];
+
+  connectors.forEach(connector => {
+    const { x1, y1, x2, y2 } = connector;
+    if (Math.max(x1, x2) < area.x || Math.min(x1, x2) > area.x + area.width) return;
+    if (Math.max(y1, y2) < area.y || Math.min(y1, y2) > area.y + area.height) return;
+
+    (connector.type === 'link' ? links : lines).push(`M${x1} ${y1}L${x2} ${y2}`);
+  });
+
+  return { linePath: lines.join(''), linkPath: links.join('') };
+}
+
+/**
+ * Finds the person to select when moving from `person` in a direction:
+ * a parent, a child, or the sibling just before or after in the chart.
+ * Only people shown in the chart are considered.
+ */
+export function findAdjacentPerson(
+  person: FamilyTreePerson,
+  direction: NavigationDirection,
+  nodes: TreeNode[]
+): FamilyTreePerson | undefined {
+  const nodesById = new Map<number, TreeNode>();
+  nodes.forEach(node => {
+    if (!nodesById.has(node.person.id)) nodesById.set(node.person.id, node);
+  });
+  const byPosition = (a: FamilyTreePerson, b: FamilyTreePerson) =>
+    nodesById.get(a.id)!.x - nodesById.get(b.id)!.x;
+  const shown = (people: FamilyTreePerson[] = []) => people.filter(p => nodesById.has(p.id)).sort(byPosition);
+
+  switch (direction) {
+    case 'parent':
+      return shown(person.parents)[0];
+    case 'child':
+      return shown(person.children)[0];
+    default: {
+      // Siblings through a shared parent as well as recorded siblings
+      const siblings = new Map<number, FamilyTreePerson>();
+      [...(person.parents ?? []).flatMap(parent => parent.children ?? []), ...(person.siblings ?? [])]
+        .forEach(sibling => siblings.set(sibling.id, sibling));
+      siblings.set(person.id, person);
+
+      const row = shown(Array.from(siblings.values()));
+      const index = row.findIndex(p => p.id === person.id);
+      if (index === -1) return undefined;
+      return row[direction === 'previousSibling' ? index - 1 : index + 1];
+    }
+  }
+}
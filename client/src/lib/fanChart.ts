@@ -0,0 +1,163 @@
+import { FamilyTreePerson } from "@shared/schema";
+import { getFatherAndMother } from "./treeLayout";
+
+export type FanColorMode = 'gender' | 'birthCountry' | 'birthDate';
+
+// One ancestor's wedge. Angles are in degrees clockwise from straight up.
+export type FanWedge = {
+  person: FamilyTreePerson;
+  generation: number;
+  startAngle: number;
+  endAngle: number;
+  innerRadius: number;
+  outerRadius: number;
+};
+
+export type FanColor = {
+  label: string;
+  fill: string;
+};
+
+export type FanChartLayout = {
+  wedges: FanWedge[];
+  // The person in the middle, drawn as a circle
+  centerRadius: number;
+  radius: number;
+};
+
+// The fan opens upwards, spanning this many degrees
+const FAN_SPAN = 240;
+const CENTER_RADIUS = 90;
+const RING_WIDTH = 70;
+
+const GENDER_COLORS: Record<string, FanColor> = {
+  male: { label: 'Male', fill: '#bfdbfe' },
+  female: { label: 'Female', fill: '#fbcfe8' },
+  other: { label: 'Other', fill: '#e9d5ff' }
+};
+
+const UNKNOWN_COLOR: FanColor = { label: 'Unknown', fill: '#e5e7eb' };
+
+const COUNTRY_FILLS = [
+  '#bfdbfe', '#fde68a', '#bbf7d0', '#fecaca', '#ddd6fe',
+  '#a5f3fc', '#fed7aa', '#d9f99d', '#fbcfe8', '#c7d2fe'
+];
+
+/**
+ * Lays out up to `generations` generations of ancestors as concentric
+ * rings, with each father's wedge before the mother's
+ */
+export function layoutFanChart(rootPerson: FamilyTreePerson, generations: number): FanChartLayout {
+  const wedges: FanWedge[] = [];
+
+  function placeParents(person: FamilyTreePerson, generation: number, startAngle: number, endAngle: number) {
+    if (generation >= generations) return;
+
+    const middle = (startAngle + endAngle) / 2;
+    const innerRadius = CENTER_RADIUS + (generation - 1) * RING_WIDTH;
+    getFatherAndMother(person).forEach((parent, index) => {
+      if (!parent) return;
+      const [start, end] = index === 0 ? [startAngle, middle] : [middle, endAngle];
+      wedges.push({
+        person: parent,
+        generation,
+        startAngle: start,
+        endAngle: end,
+        innerRadius,
+        outerRadius: innerRadius + RING_WIDTH
+      });
+      placeParents(parent, generation + 1, start, end);
+    });
+  }
+
+  placeParents(rootPerson, 1, -FAN_SPAN / 2, FAN_SPAN / 2);
+
+  return {
+    wedges,
+    centerRadius: CENTER_RADIUS,
+    radius: CENTER_RADIUS + (generations - 1) * RING_WIDTH
+  };
+}
+
+/**
+ * Gets the country from a birth place, taken to be its last part
+ * ("Cork, Ireland" is in Ireland)
+ */
+export function getBirthCountry(person: FamilyTreePerson): string | null {
+  const parts = person.birthPlace?.split(',').map(part => part.trim()).filter(Boolean) ?? [];
+  return parts.length > 0 ? parts[parts.length - 1] : null;
+}
+
+/**
+ * Picks the color of a person's wedge for the chosen attribute
+ */
+export function getFanColor(person: FamilyTreePerson, mode: FanColorMode): FanColor {
+  switch (mode) {
+    case 'gender':
+      return GENDER_COLORS[person.gender?.toLowerCase() ?? ''] ?? UNKNOWN_COLOR;
+    case 'birthCountry': {
+      const country = getBirthCountry(person);
+      if (!country) return UNKNOWN_COLOR;
+
+      // The same country always gets the same color
+      let hash = 0;
+      for (let i = 0; i < country.length; i++) {
+        hash = (hash * 31 + country.toLowerCase().charCodeAt(i)) >>> 0;
+      }
+      return { label: country, fill: COUNTRY_FILLS[hash % COUNTRY_FILLS.length] };
+    }
+    case 'birthDate':
+      return person.birthDate
+        ? { label: 'Birth date known', fill: '#bbf7d0' }
+        : { label: 'Birth date unknown', fill: '#fde68a' };
+  }
+}
+
+/**
+ * Converts a fan angle and radius into SVG coordinates around a center
+ */
+export function polarToCartesian(cx: number, cy: number, radius: number, angle: number): { x: number; y: number } {
+  const radians = angle * Math.PI / 180;
+  return {
+    x: cx + radius * Math.sin(radians),
+    y: cy - radius * Math.cos(radians)
+  };
+}
+
+/**
+ * Builds the SVG path of a ring segment
+ */
+export function wedgePath(wedge: FanWedge, cx: number, cy: number): string {
+  const { startAngle, endAngle, innerRadius, outerRadius } = wedge;
+  const largeArc = endAngle - startAngle > 180 ? 1 : 0;
+  const outerStart = polarToCartesian(cx, cy, outerRadius, startAngle);
+  const outerEnd = polarToCartesian(cx, cy, outerRadius, endAngle);
+  const innerEnd = polarToCartesian(cx, cy, innerRadius, endAngle);
+  const innerStart = polarToCartesian(cx, cy, innerRadius, startAngle);
+
+  return [
+    `M ${outerStart.x} ${outerStart.y}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${outerEnd.x} ${outerEnd.y}`,
+    `L ${innerEnd.x} ${innerEnd.y}`,
+    `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${innerStart.x} ${innerStart.y}`,
+    'Z'
+  ].join(' ');
+}
+
+/**
+ * Downloads an SVG element as a standalone .svg file
+ */
+export function downloadSvg(svg: SVGSVGElement, filename: string) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  const source = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml;charset=utf-8' }));
+
+  // Create a link and trigger download
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
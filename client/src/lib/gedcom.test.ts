@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import { FamilyTreeData, Person, Relationship } from '@shared/schema';
+import { decodeGedcom, formatGedcom, GedcomVersion, parseGedcom } from './gedcom';
+
+const person = (id: number, name: string, gender: string | null, extra: Partial<Person> = {}): Person => ({
+  id, version: 1, name, gender,
+  birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null,
+  ...extra
+});
+
+// Both rows of each pair, as storage records them
+function relate(pairs: [Relationship['type'], number, number][]): Relationship[] {
+  return pairs.flatMap(([type, personId, relatedPersonId]) => [
+    { type, personId, relatedPersonId },
+    { type: type === 'parent' ? 'child' : type, personId: relatedPersonId, relatedPersonId: personId }
+  ]).map((relationship, index) => ({ id: index + 1, ...relationship }));
+}
+
+const relationshipKeys = (data: FamilyTreeData) =>
+  data.relationships.map(rel => `${rel.type} ${rel.personId}->${rel.relatedPersonId}`).sort();
+
+const withoutIds = (data: FamilyTreeData) =>
+  data.persons.map(({ id, version, createdBy, ...fields }) => fields);
+
+const bytes = (...parts: (string | number[])[]) => new Uint8Array(parts.flatMap(part =>
+  typeof part === 'string' ? Array.from(new TextEncoder().encode(part)) : part
+)).buffer;
+
+const header = (charset: string) => `0 HEAD\n1 CHAR ${charset}\n`;
+
+describe('decodeGedcom', () => {
+  it('moves ANSEL diacritics after their letter and maps its special characters', () => {
+    const { text, encoding } = decodeGedcom(bytes(header('ANSEL'), '1 NAME M', [0xE8], 'uller /', [0xA5], 'gir/ ', [0xE2], 'e', [0xF0], 'c'));
+    expect(encoding).toBe('ANSEL');
+    expect(text).toBe(`${header('ANSEL')}1 NAME Müller /Ægir/ éç`);
+  });
+
+  it('replaces ANSEL bytes it has no character for', () => {
+    const { text } = decodeGedcom(bytes(header('ANSEL'), '1 NAME A', [0x90], 'B'));
+    expect(text).toBe(`${header('ANSEL')}1 NAME A\uFFFDB`);
+  });
+
+  it.each([
+    { charset: 'ANSI', encoding: 'ANSI' },
+    { charset: 'IBMPC', encoding: 'IBMPC' }
+  ])('reads a file declared as $charset as Windows-1252', ({ charset, encoding }) => {
+    const decoded = decodeGedcom(bytes(header(charset), '1 NAME Ren', [0xE9], ' M', [0xFC], 'ller'));
+    expect(decoded).toEqual({ text: `${header(charset)}1 NAME René Müller`, encoding });
+  });
+
+  it('follows a byte order mark over the declared charset and drops it', () => {
+    const utf8 = decodeGedcom(bytes([0xEF, 0xBB, 0xBF], header('ANSEL'), '1 NAME Zoë'));
+    expect(utf8).toEqual({ text: `${header('ANSEL')}1 NAME Zoë`, encoding: 'UTF-8' });
+
+    const utf16 = new Uint8Array([0xFF, 0xFE, ...Array.from('0 HEAD Zoë', char => [char.charCodeAt(0), 0]).flat()]);
+    expect(decodeGedcom(utf16.buffer)).toEqual({ text: '0 HEAD Zoë', encoding: 'UNICODE' });
+  });
+
+  it('reads an undeclared file as UTF-8, or as Windows-1252 when it is not valid UTF-8', () => {
+    expect(decodeGedcom(bytes('0 HEAD\n1 NAME Zoë'))).toEqual({ text: '0 HEAD\n1 NAME Zoë', encoding: 'UTF-8' });
+    expect(decodeGedcom(bytes('0 HEAD\n1 NAME Zo', [0xEB]))).toEqual({ text: '0 HEAD\n1 NAME Zoë', encoding: 'ANSI' });
+  });
+});
+
+describe('parseGedcom', () => {
+  const parse = (...lines: string[]) => parseGedcom(lines.join('\n'));
+
+  it('joins CONC lines without a break and CONT lines with one', () => {
+    const { data } = parse(
+      '0 @I1@ INDI',
+      '1 NAME John /Smith/',
+      '1 NOTE Emigrated from Co',
+      '2 CONC rk in 1890.',
+      '2 CONT Settled in Boston.',
+      '2 CONT',
+      '2 CONT Married twice.',
+      '1 BIRT',
+      '2 PLAC Ballyvourney,',
+      '3 CONC  Cork',
+      '0 TRLR'
+    );
+
+    expect(data.persons[0]).toMatchObject({
+      name: 'John Smith',
+      notes: 'Emigrated from Cork in 1890.\nSettled in Boston.\n\nMarried twice.',
+      birthPlace: 'Ballyvourney, Cork'
+    });
+  });
+
+  it('resolves shared notes and reports the ones it cannot', () => {
+    const { data, report } = parse(
+      '0 @I1@ INDI',
+      '1 NOTE @N1@',
+      '1 NOTE @N9@',
+      '0 @N1@ NOTE Shared',
+      '1 CONT note',
+      '0 @N2@ NOTE Unused',
+      '0 TRLR'
+    );
+
+    expect(data.persons[0].notes).toBe('Shared\nnote');
+    expect(report.unmappedRecords).toEqual([
+      { xref: '@I1@', tag: 'NOTE', reason: 'Refers to missing note @N9@' },
+      { xref: '@N2@', tag: 'NOTE', reason: 'Note is not attached to any individual' }
+    ]);
+  });
+
+  it.each([
+    { value: '4 MAR 1901', date: '1901-03-04', exact: true },
+    { value: 'MAR 1901', date: '1901-03-01', exact: false },
+    { value: 'ABT 1901', date: '1901-01-01', exact: false },
+    { value: 'BET 1901 AND 1905', date: '1901-01-01', exact: false },
+    { value: '31 FEB 1901', date: null, exact: false },
+    { value: '@#DJULIAN@ 4 MAR 1701', date: null, exact: false },
+    { value: 'sometime in spring', date: null, exact: false }
+  ])('reads the date "$value" as $date', ({ value, date, exact }) => {
+    const { data, report } = parse('0 @I1@ INDI', '1 BIRT', `2 DATE ${value}`);
+
+    expect(data.persons[0].birthDate).toBe(date);
+    expect(report.dateIssues).toEqual(exact ? [] : [{ xref: '@I1@', event: 'BIRT', original: value, stored: date }]);
+  });
+
+  it('counts malformed lines and lines without a parent, and keeps reading', () => {
+    const { data, report } = parse(
+      '0 HEAD',
+      'this is not a GEDCOM line',
+      '0 @I1@ INDI',
+      '1 NAME Mary /Walsh/',
+      '3 DATE 1 JAN 1900',
+      '1 SEX F',
+      '@I2@ INDI',
+      '0 @I3@ INDI',
+      '1 NAME Ann'
+    );
+
+    expect(report.malformedLines).toBe(3);
+    expect(data.persons.map(p => [p.name, p.gender])).toEqual([['Mary Walsh', 'female'], ['Ann', null]]);
+  });
+
+  it('keeps what it can of a file cut off in the middle of a record', () => {
+    const { data, report } = parse(
+      '0 @I1@ INDI',
+      '1 NAME John /Smith/',
+      '0 @I2@ INDI',
+      '1 NAME Mary /Walsh/',
+      '0 @F1@ FAM',
+      '1 HUSB @I1@',
+      '1 WIFE @I2@',
+      '1 CHIL @I3@',
+      '1 CHIL'
+    );
+
+    expect(data.persons.map(p => p.name)).toEqual(['John Smith', 'Mary Walsh']);
+    expect(relationshipKeys(data)).toEqual(['spouse 1->2', 'spouse 2->1']);
+    expect(report.familyCount).toBe(1);
+    expect(report.unmappedRecords).toEqual([
+      { xref: '@F1@', tag: 'FAM', reason: 'CHIL refers to missing individual @I3@' },
+      { xref: '@F1@', tag: 'FAM', reason: 'CHIL refers to missing individual (empty)' }
+    ]);
+  });
+
+  it('reports families with fewer than two known members, unsupported records and dropped tags', () => {
+    const { data, report } = parse(
+      '0 @I1@ INDI',
+      '1 NAME',
+      '1 OCCU Farmer',
+      '1 BIRT',
+      '2 SOUR @S1@',
+      '0 @F1@ FAM',
+      '1 HUSB @I1@',
+      '1 MARR',
+      '0 @S1@ SOUR',
+      '0 TRLR'
+    );
+
+    expect(data.persons[0].name).toBe('Unknown');
+    expect(data.relationships).toEqual([]);
+    expect(report.familyCount).toBe(0);
+    expect(report.unmappedRecords).toEqual([
+      { xref: '@F1@', tag: 'FAM', reason: 'Family has fewer than two known members' },
+      { xref: '@S1@', tag: 'SOUR', reason: 'SOUR records are not supported' }
+    ]);
+    expect(report.droppedTags).toEqual(expect.arrayContaining([
+      { path: 'INDI.OCCU', count: 1 },
+      { path: 'INDI.BIRT.SOUR', count: 1 },
+      { path: 'FAM.MARR', count: 1 }
+    ]));
+  });
+});
+
+describe('formatGedcom and parseGedcom', () => {
+  // Two parents with three children, one of whom has a half-sibling from a
+  // second marriage; and two siblings whose parents aren't in the tree
+  const data: FamilyTreeData = {
+    persons: [
+      person(1, 'John Smith', 'male', { birthDate: '1900-03-04', birthPlace: 'Cork, Ireland' }),
+      person(2, 'Mary Walsh', 'female', { deathDate: '1970-12-01', deathPlace: 'Boston, USA' }),
+      person(3, 'Alex Smith', 'other', { notes: 'First line\nSecond line' }),
+      person(4, 'Sam Smith', null),
+      person(5, 'Anne Smith', 'female'),
+      person(6, 'Jane Byrne', 'female'),
+      person(7, 'Tom Smith', 'male'),
+      person(8, 'Kate Hughes', 'female'),
+      person(9, 'Peter Hughes', 'male')
+    ],
+    relationships: relate([
+      ['spouse', 1, 2],
+      ['parent', 1, 3], ['parent', 2, 3],
+      ['parent', 1, 4], ['parent', 2, 4],
+      ['parent', 1, 5], ['parent', 2, 5],
+      ['sibling', 3, 4], ['sibling', 3, 5], ['sibling', 4, 5],
+      ['spouse', 1, 6],
+      ['parent', 1, 7], ['parent', 6, 7],
+      ['sibling', 3, 7],
+      ['sibling', 8, 9]
+    ])
+  };
+
+  it.each<GedcomVersion>(['5.5.1', '7.0'])('keeps people and relationships through a GEDCOM %s file', (version) => {
+    const { data: imported, report } = parseGedcom(formatGedcom(data, version));
+
+    expect(withoutIds(imported)).toEqual(withoutIds(data));
+    expect(relationshipKeys(imported)).toEqual(relationshipKeys(data));
+    expect(report.malformedLines).toBe(0);
+    expect(report.unmappedRecords).toEqual([]);
+    expect(report.dateIssues).toEqual([]);
+  });
+
+  it('keeps every gender value', () => {
+    const genders = ['male', 'female', 'other', null];
+    const people: FamilyTreeData = {
+      persons: genders.map((gender, index) => person(index + 1, `Person ${index + 1}`, gender)),
+      relationships: []
+    };
+
+    (['5.5.1', '7.0'] as const).forEach(version => {
+      const { data: imported } = parseGedcom(formatGedcom(people, version));
+      expect(imported.persons.map(p => p.gender)).toEqual(genders);
+    });
+  });
+
+  it('writes a sex 5.5.1 has no value for as unknown, with the value in an extension', () => {
+    const gedcom = formatGedcom({ persons: [person(1, 'Alex Smith', 'other')], relationships: [] });
+    expect(gedcom).toContain('1 SEX U\n2 _SEX X\n');
+  });
+});
@@ -0,0 +1,704 @@
+import { Person, Relationship, FamilyTreeData } from "@shared/schema";
+
+// A single GEDCOM line with its subordinate lines
+type GedcomNode = {
+  level: number;
+  xref: string | null;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+};
+
+export type GedcomDateIssue = {
+  xref: string | null;
+  event: string;
+  original: string;
+  stored: string | null;
+};
+
+export type GedcomUnmappedRecord = {
+  xref: string | null;
+  tag: string;
+  reason: string;
+};
+
+export type GedcomImportReport = {
+  encoding: string;
+  personCount: number;
+  familyCount: number;
+  relationshipCount: number;
+  malformedLines: number;
+  droppedTags: { path: string; count: number }[];
+  unmappedRecords: GedcomUnmappedRecord[];
+  dateIssues: GedcomDateIssue[];
+};
+
+export type GedcomImportResult = {
+  data: FamilyTreeData;
+  report: GedcomImportReport;
+};
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+const POINTER_PATTERN = /^@[^@\s]+@$/;
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+// ANSEL (ANSI Z39.47) spacing characters, plus the GEDCOM additions
+const ANSEL_SPACING: Record<number, string> = {
+  0xA1: "Ł", 0xA2: "Ø", 0xA3: "Đ", 0xA4: "Þ", 0xA5: "Æ",
+  0xA6: "Œ", 0xA7: "ʹ", 0xA8: "·", 0xA9: "♭", 0xAA: "®",
+  0xAB: "±", 0xAC: "Ơ", 0xAD: "Ư", 0xAE: "ʼ", 0xB0: "ʻ",
+  0xB1: "ł", 0xB2: "ø", 0xB3: "đ", 0xB4: "þ", 0xB5: "æ",
+  0xB6: "œ", 0xB7: "ʺ", 0xB8: "ı", 0xB9: "£", 0xBA: "ð",
+  0xBC: "ơ", 0xBD: "ư", 0xBE: "□", 0xBF: "■", 0xC0: "°",
+  0xC1: "ℓ", 0xC2: "℗", 0xC3: "©", 0xC4: "♯", 0xC5: "¿",
+  0xC6: "¡", 0xC7: "ß", 0xC8: "€", 0xCF: "ß"
+};
+
+// ANSEL combining diacritics, which precede the character they modify
+const ANSEL_COMBINING: Record<number, string> = {
+  0xE0: "\u0309", 0xE1: "\u0300", 0xE2: "\u0301", 0xE3: "\u0302", 0xE4: "\u0303",
+  0xE5: "\u0304", 0xE6: "\u0306", 0xE7: "\u0307", 0xE8: "\u0308", 0xE9: "\u030C",
+  0xEA: "\u030A", 0xEB: "\uFE20", 0xEC: "\uFE21", 0xED: "\u0315", 0xEE: "\u030B",
+  0xEF: "\u0310", 0xF0: "\u0327", 0xF1: "\u0328", 0xF2: "\u0323", 0xF3: "\u0324",
+  0xF4: "\u0325", 0xF5: "\u0333", 0xF6: "\u0332", 0xF7: "\u0326", 0xF8: "\u031C",
+  0xF9: "\u032E", 0xFA: "\uFE22", 0xFB: "\uFE23", 0xFE: "\u0313"
+};
+
+/**
+ * Decodes ANSEL bytes to a Unicode string, moving each combining
+ * diacritic after its base character as Unicode expects
+ */
+function decodeAnsel(bytes: Uint8Array): string {
+  const output: string[] = [];
+  let pendingMarks = "";
+
+  for (let index = 0; index < bytes.length; index++) {
+    const byte = bytes[index];
+    if (ANSEL_COMBINING[byte]) {
+      pendingMarks += ANSEL_COMBINING[byte];
+      continue;
+    }
+
+    const char = byte < 0x80
+      ? String.fromCharCode(byte)
+      : ANSEL_SPACING[byte] ?? "\uFFFD";
+    output.push(char + pendingMarks);
+    pendingMarks = "";
+  }
+
+  return output.join("").normalize("NFC");
+}
+
+/**
+ * Decodes a GEDCOM file, honoring a byte order mark or the CHAR
+ * declaration in the header
+ * @returns The decoded text and the encoding that was used
+ */
+export function decodeGedcom(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "UTF-8" };
+  }
+  if ((bytes[0] === 0xFF && bytes[1] === 0xFE) || (bytes[0] !== 0 && bytes[1] === 0)) {
+    return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "UNICODE" };
+  }
+  if ((bytes[0] === 0xFE && bytes[1] === 0xFF) || (bytes[0] === 0 && bytes[1] !== 0)) {
+    return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "UNICODE" };
+  }
+
+  // The header is plain ASCII in every 8-bit encoding, so peek at it directly
+  const header = new TextDecoder("latin1").decode(bytes.subarray(0, 4096));
+  const declared = /^\s*1\s+CHAR\s+(\S+)/m.exec(header)?.[1].toUpperCase();
+
+  switch (declared) {
+    case "ANSEL":
+      return { text: decodeAnsel(bytes), encoding: "ANSEL" };
+    case "ANSI":
+    case "IBMPC":
+      return { text: new TextDecoder("windows-1252").decode(bytes), encoding: declared };
+    case "ASCII":
+    case "UTF-8":
+    case "UTF8":
+      return { text: new TextDecoder("utf-8").decode(bytes), encoding: declared };
+  }
+
+  // Undeclared: prefer UTF-8 and fall back to Windows-1252 if it isn't valid
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "UTF-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "ANSI" };
+  }
+}
+
+/**
+ * Splits GEDCOM text into a list of level 0 records, folding CONC/CONT
+ * continuation lines into the value of the line they continue
+ */
+function parseGedcomRecords(text: string): { records: GedcomNode[]; malformedLines: number } {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+  let malformedLines = 0;
+
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if (!line.trim()) continue;
+
+    const match = LINE_PATTERN.exec(line);
+    if (!match) {
+      malformedLines++;
+      continue;
+    }
+
+    const node: GedcomNode = {
+      level: parseInt(match[1], 10),
+      xref: match[2] ?? null,
+      tag: match[3].toUpperCase(),
+      value: match[4] ?? "",
+      children: []
+    };
+
+    // stack[n] holds the most recent node at level n
+    stack.length = Math.min(stack.length, node.level);
+
+    if (node.level === 0) {
+      records.push(node);
+      stack.push(node);
+      continue;
+    }
+
+    const parent = stack[node.level - 1];
+    if (!parent) {
+      malformedLines++;
+      continue;
+    }
+
+    if (node.tag === "CONC") {
+      parent.value += node.value;
+    } else if (node.tag === "CONT") {
+      parent.value += "\n" + node.value;
+    } else {
+      parent.children.push(node);
+      stack.push(node);
+    }
+  }
+
+  return { records, malformedLines };
+}
+
+/**
+ * Converts a GEDCOM date to the YYYY-MM-DD form used by Person dates.
+ * Partial and qualified dates (ABT, BEF, BET ... AND ...) are stored as
+ * their first possible day and flagged as inexact.
+ */
+function parseGedcomDate(value: string): { date: string | null; exact: boolean } {
+  let text = value.trim().toUpperCase().replace(/^@#DGREGORIAN@\s*/, "");
+  let exact = true;
+
+  // Other calendars (Julian, Hebrew, French Republican) aren't converted
+  if (text.startsWith("@#") || text.startsWith("(")) {
+    return { date: null, exact: false };
+  }
+
+  const qualifier = /^(ABT|CAL|EST|BEF|AFT|BET|FROM|TO|INT)\s+/.exec(text);
+  if (qualifier) {
+    exact = false;
+    text = text.slice(qualifier[0].length);
+  }
+
+  // Ranges and periods keep their first date; INT keeps its date, not the phrase
+  text = text.split(/\s+(?:AND|TO)\s+/)[0].replace(/\s*\(.*\)$/, "").trim();
+
+  const match = /^(?:(\d{1,2})\s+)?(?:([A-Z]{3})\s+)?(\d{1,4})(?:\/\d{1,2})?$/.exec(text);
+  if (!match) return { date: null, exact: false };
+
+  const [, dayText, monthText, yearText] = match;
+  const month = monthText ? MONTHS[monthText] : 1;
+  const day = dayText ? parseInt(dayText, 10) : 1;
+  const year = parseInt(yearText, 10);
+
+  if (!month || (dayText && !monthText)) return { date: null, exact: false };
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) return { date: null, exact: false };
+
+  if (!dayText || !monthText) exact = false;
+
+  const date = [
+    String(year).padStart(4, "0"),
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0")
+  ].join("-");
+
+  return { date, exact };
+}
+
+/**
+ * Converts a GEDCOM personal name ("John /Smith/ Jr.") to display form
+ */
+function parseGedcomName(node: GedcomNode): string {
+  let name = node.value.replace(/\//g, " ");
+
+  if (!name.trim()) {
+    const given = node.children.find(child => child.tag === "GIVN")?.value ?? "";
+    const surname = node.children.find(child => child.tag === "SURN")?.value ?? "";
+    name = `${given} ${surname}`;
+  }
+
+  return name.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parses GEDCOM 5.5.1 text into family tree data. Individuals and families
+ * are mapped to persons and parent/child, spouse and sibling relationships; everything
+ * that could not be carried over is listed in the returned report.
+ */
+export function parseGedcom(text: string, encoding: string = "UTF-8"): GedcomImportResult {
+  const { records, malformedLines } = parseGedcomRecords(text);
+
+  const droppedTagCounts = new Map<string, number>();
+  const unmappedRecords: GedcomUnmappedRecord[] = [];
+  const dateIssues: GedcomDateIssue[] = [];
+
+  const dropTag = (path: string) => {
+    droppedTagCounts.set(path, (droppedTagCounts.get(path) ?? 0) + 1);
+  };
+
+  // Shared NOTE records, resolved when individuals point at them
+  const sharedNotes = new Map<string, string>();
+  const referencedNotes = new Set<string>();
+  for (const record of records) {
+    if (record.tag === "NOTE" && record.xref) {
+      sharedNotes.set(record.xref, record.value);
+    }
+  }
+
+  const persons: Person[] = [];
+  const personIdsByXref = new Map<string, number>();
+
+  const convertDate = (xref: string | null, event: string, node: GedcomNode): string | null => {
+    const { date, exact } = parseGedcomDate(node.value);
+    if (!exact) {
+      dateIssues.push({ xref, event, original: node.value, stored: date });
+    }
+    return date;
+  };
+
+  for (const record of records) {
+    if (record.tag !== "INDI") continue;
+
+    const person: Person = {
+      id: persons.length + 1,
+      version: 1,
+      name: "",
+      gender: null,
+      birthDate: null,
+      birthPlace: null,
+      deathDate: null,
+      deathPlace: null,
+      notes: null,
+      createdBy: null
+    };
+    const notes: string[] = [];
+
+    for (const child of record.children) {
+      switch (child.tag) {
+        case "NAME":
+          if (person.name) {
+            dropTag("INDI.NAME");
+            break;
+          }
+          person.name = parseGedcomName(child);
+          child.children
+            .filter(part => !["GIVN", "SURN", "NPFX", "NSFX", "SPFX"].includes(part.tag))
+            .forEach(part => dropTag(`INDI.NAME.${part.tag}`));
+          break;
+        case "SEX": {
+          // 5.5.1 exports keep a sex it has no value for in an extension
+          const extension = child.children.find(detail => detail.tag === "_SEX");
+          switch ((extension ?? child).value.trim().toUpperCase()) {
+            case "M": person.gender = "male"; break;
+            case "F": person.gender = "female"; break;
+            case "U": case "": break;
+            default: person.gender = "other";
+          }
+          break;
+        }
+        case "BIRT":
+        case "DEAT":
+          for (const detail of child.children) {
+            if (detail.tag === "DATE") {
+              const date = convertDate(record.xref, child.tag, detail);
+              if (child.tag === "BIRT") person.birthDate = date;
+              else person.deathDate = date;
+            } else if (detail.tag === "PLAC") {
+              if (child.tag === "BIRT") person.birthPlace = detail.value.trim() || null;
+              else person.deathPlace = detail.value.trim() || null;
+            } else {
+              dropTag(`INDI.${child.tag}.${detail.tag}`);
+            }
+          }
+          break;
+        case "NOTE":
+          if (POINTER_PATTERN.test(child.value.trim())) {
+            const xref = child.value.trim();
+            const note = sharedNotes.get(xref);
+            if (note !== undefined) {
+              notes.push(note);
+              referencedNotes.add(xref);
+            } else {
+              unmappedRecords.push({
+                xref: record.xref,
+                tag: "NOTE",
+                reason: `Refers to missing note ${xref}`
+              });
+            }
+          } else {
+            notes.push(child.value);
+          }
+          break;
+        case "FAMS":
+        case "FAMC":
+          // Family links are rebuilt from the FAM records
+          break;
+        default:
+          dropTag(`INDI.${child.tag}`);
+      }
+    }
+
+    person.name = person.name || "Unknown";
+    person.notes = notes.filter(note => note.trim()).join("\n\n") || null;
+
+    persons.push(person);
+    if (record.xref) {
+      personIdsByXref.set(record.xref, person.id);
+    }
+  }
+
+  const relationships: Relationship[] = [];
+  const relationshipKeys = new Set<string>();
+  let familyCount = 0;
+
+  // Adds a relationship and its reciprocal, skipping pairs already linked
+  const addRelationship = (type: string, reciprocalType: string, personId: number, relatedPersonId: number) => {
+    const key = `${type}-${personId}-${relatedPersonId}`;
+    if (personId === relatedPersonId || relationshipKeys.has(key)) return;
+
+    relationshipKeys.add(key);
+    relationshipKeys.add(`${reciprocalType}-${relatedPersonId}-${personId}`);
+    relationships.push(
+      { id: relationships.length + 1, type, personId, relatedPersonId },
+      { id: relationships.length + 2, type: reciprocalType, personId: relatedPersonId, relatedPersonId: personId }
+    );
+  };
+
+  for (const record of records) {
+    if (record.tag !== "FAM") continue;
+
+    const parentIds: number[] = [];
+    const childIds: number[] = [];
+
+    for (const child of record.children) {
+      if (child.tag !== "HUSB" && child.tag !== "WIFE" && child.tag !== "CHIL") {
+        dropTag(`FAM.${child.tag}`);
+        continue;
+      }
+
+      const personId = personIdsByXref.get(child.value.trim());
+      if (personId === undefined) {
+        unmappedRecords.push({
+          xref: record.xref,
+          tag: "FAM",
+          reason: `${child.tag} refers to missing individual ${child.value.trim() || "(empty)"}`
+        });
+        continue;
+      }
+
+      if (child.tag === "CHIL") childIds.push(personId);
+      else parentIds.push(personId);
+    }
+
+    if (parentIds.length + childIds.length < 2) {
+      unmappedRecords.push({
+        xref: record.xref,
+        tag: "FAM",
+        reason: "Family has fewer than two known members"
+      });
+      continue;
+    }
+
+    familyCount++;
+
+    parentIds.forEach((parentId, index) => {
+      parentIds.slice(index + 1).forEach(spouseId => {
+        addRelationship("spouse", "spouse", parentId, spouseId);
+      });
+      childIds.forEach(childId => {
+        addRelationship("parent", "child", parentId, childId);
+      });
+    });
+
+    childIds.forEach((childId, index) => {
+      childIds.slice(index + 1).forEach(siblingId => {
+        addRelationship("sibling", "sibling", childId, siblingId);
+      });
+    });
+  }
+
+  for (const record of records) {
+    switch (record.tag) {
+      case "HEAD":
+      case "TRLR":
+      case "SUBM":
+      case "SUBN":
+      case "INDI":
+      case "FAM":
+        break;
+      case "NOTE":
+        if (!record.xref || !referencedNotes.has(record.xref)) {
+          unmappedRecords.push({
+            xref: record.xref,
+            tag: "NOTE",
+            reason: "Note is not attached to any individual"
+          });
+        }
+        break;
+      default:
+        unmappedRecords.push({
+          xref: record.xref,
+          tag: record.tag,
+          reason: `${record.tag} records are not supported`
+        });
+    }
+  }
+
+  return {
+    data: { persons, relationships },
+    report: {
+      encoding,
+      personCount: persons.length,
+      familyCount,
+      relationshipCount: relationships.length,
+      malformedLines,
+      droppedTags: Array.from(droppedTagCounts, ([path, count]) => ({ path, count }))
+        .sort((a, b) => b.count - a.count),
+      unmappedRecords,
+      dateIssues
+    }
+  };
+}
+
+export type GedcomVersion = "5.5.1" | "7.0";
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+// GEDCOM 5.5.1 limits lines to 255 characters, so long values are split with CONC
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Formats a YYYY-MM-DD date the GEDCOM way ("3 MAR 1850")
+ */
+function formatGedcomDate(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  return `${parseInt(day, 10)} ${MONTH_NAMES[parseInt(month, 10) - 1]} ${parseInt(year, 10)}`;
+}
+
+/**
+ * Formats a display name as a GEDCOM personal name, marking the last
+ * word as the surname ("John Smith" becomes "John /Smith/")
+ */
+function formatGedcomName(name: string): string {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return parts[0] ?? "";
+
+  const surname = parts.pop();
+  return `${parts.join(" ")} /${surname}/`;
+}
+
+/**
+ * Appends a line whose value may span several lines, using CONT for line
+ * breaks and (in 5.5.1) CONC to split lines that are too long
+ */
+function pushGedcomText(lines: string[], level: number, tag: string, text: string, version: GedcomVersion) {
+  text.split(/\r\n|\r|\n/).forEach((textLine, index) => {
+    const chunks: string[] = [];
+    if (version === "5.5.1") {
+      for (let start = 0; start < textLine.length; start += MAX_VALUE_LENGTH) {
+        chunks.push(textLine.slice(start, start + MAX_VALUE_LENGTH));
+      }
+    }
+    if (chunks.length === 0) chunks.push(textLine);
+
+    chunks.forEach((chunk, chunkIndex) => {
+      const lineTag = index === 0 && chunkIndex === 0
+        ? `${level} ${tag}`
+        : `${level + 1} ${chunkIndex === 0 ? "CONT" : "CONC"}`;
+      lines.push(chunk ? `${lineTag} ${chunk}` : lineTag);
+    });
+  });
+}
+
+/**
+ * Serializes family tree data as a GEDCOM file. Couples and their children
+ * are grouped into FAM records from the spouse and parent/child
+ * relationships; siblings who aren't children of one of those families get
+ * a family of their own.
+ */
+export function formatGedcom(data: FamilyTreeData, version: GedcomVersion = "5.5.1"): string {
+  const { persons, relationships } = data;
+  const personIds = new Set(persons.map(person => person.id));
+
+  type Family = { parentIds: number[]; childIds: number[] };
+  const families = new Map<string, Family>();
+
+  // Families are keyed by their sorted parent IDs (or sibling IDs when parentless)
+  const getFamily = (key: string, parentIds: number[]): Family => {
+    let family = families.get(key);
+    if (!family) {
+      family = { parentIds, childIds: [] };
+      families.set(key, family);
+    }
+    return family;
+  };
+
+  const parentsByChild = new Map<number, number[]>();
+  relationships.forEach(relationship => {
+    if (!personIds.has(relationship.personId) || !personIds.has(relationship.relatedPersonId)) return;
+
+    let parentId: number | undefined;
+    let childId: number | undefined;
+    if (relationship.type === "parent") {
+      [parentId, childId] = [relationship.personId, relationship.relatedPersonId];
+    } else if (relationship.type === "child") {
+      [parentId, childId] = [relationship.relatedPersonId, relationship.personId];
+    }
+    if (parentId === undefined || childId === undefined) return;
+
+    const parentIds = parentsByChild.get(childId) ?? [];
+    if (!parentIds.includes(parentId)) parentIds.push(parentId);
+    parentsByChild.set(childId, parentIds);
+  });
+
+  parentsByChild.forEach((parentIds, childId) => {
+    const sortedIds = [...parentIds].sort((a, b) => a - b);
+
+    // A FAM record has room for two parents; any others get a family each
+    const couple = sortedIds.slice(0, 2);
+    getFamily(couple.join("-"), couple).childIds.push(childId);
+    sortedIds.slice(2).forEach(parentId => {
+      getFamily(String(parentId), [parentId]).childIds.push(childId);
+    });
+  });
+
+  // The families each child is in so far, to tell which siblings they cover
+  const familiesByChild = new Map<number, Family[]>();
+  families.forEach(family => family.childIds.forEach(childId => {
+    familiesByChild.set(childId, [...(familiesByChild.get(childId) ?? []), family]);
+  }));
+
+  // Spouse and sibling relationships are stored in both directions, so
+  // normalize each pair to (lower ID, higher ID) before grouping
+  relationships.forEach(relationship => {
+    if (relationship.type !== "spouse" && relationship.type !== "sibling") return;
+
+    const first = Math.min(relationship.personId, relationship.relatedPersonId);
+    const second = Math.max(relationship.personId, relationship.relatedPersonId);
+    if (first === second || !personIds.has(first) || !personIds.has(second)) return;
+
+    if (relationship.type === "spouse") {
+      getFamily(`${first}-${second}`, [first, second]);
+      return;
+    }
+
+    const key = `siblings-${first}-${second}`;
+    const sharedFamily = (familiesByChild.get(first) ?? []).some(family => family.childIds.includes(second));
+    if (families.has(key) || sharedFamily) return;
+
+    getFamily(key, []).childIds.push(first, second);
+  });
+
+  const personsById = new Map(persons.map(person => [person.id, person]));
+  const familyList = Array.from(families.values());
+  const familiesAsSpouse = new Map<number, number[]>();
+  const familiesAsChild = new Map<number, number[]>();
+
+  familyList.forEach((family, index) => {
+    family.parentIds.forEach(id => familiesAsSpouse.set(id, [...(familiesAsSpouse.get(id) ?? []), index + 1]));
+    family.childIds.forEach(id => familiesAsChild.set(id, [...(familiesAsChild.get(id) ?? []), index + 1]));
+  });
+
+  const lines: string[] = ["0 HEAD"];
+  if (version === "7.0") {
+    lines.push("1 GEDC", "2 VERS 7.0", "1 SOUR FAMILYROOTS", "2 NAME FamilyRoots");
+  } else {
+    lines.push(
+      "1 SOUR FAMILYROOTS",
+      "2 NAME FamilyRoots",
+      "1 SUBM @U1@",
+      "1 GEDC",
+      "2 VERS 5.5.1",
+      "2 FORM LINEAGE-LINKED",
+      "1 CHAR UTF-8",
+      "0 @U1@ SUBM",
+      "1 NAME FamilyRoots"
+    );
+  }
+
+  persons.forEach(person => {
+    lines.push(`0 @I${person.id}@ INDI`);
+    pushGedcomText(lines, 1, "NAME", formatGedcomName(person.name), version);
+
+    switch (person.gender?.toLowerCase()) {
+      case "male": lines.push("1 SEX M"); break;
+      case "female": lines.push("1 SEX F"); break;
+      case "other":
+        // 5.5.1 has no value for it, so it also goes in an extension the importer reads
+        lines.push(...(version === "7.0" ? ["1 SEX X"] : ["1 SEX U", "2 _SEX X"]));
+        break;
+    }
+
+    const events: [string, string | null, string | null][] = [
+      ["BIRT", person.birthDate, person.birthPlace],
+      ["DEAT", person.deathDate, person.deathPlace]
+    ];
+    events.forEach(([tag, date, place]) => {
+      const gedcomDate = date ? formatGedcomDate(date) : null;
+      if (!gedcomDate && !place) return;
+
+      lines.push(`1 ${tag}`);
+      if (gedcomDate) lines.push(`2 DATE ${gedcomDate}`);
+      if (place) pushGedcomText(lines, 2, "PLAC", place, version);
+    });
+
+    if (person.notes) {
+      pushGedcomText(lines, 1, "NOTE", person.notes, version);
+    }
+
+    (familiesAsChild.get(person.id) ?? []).forEach(id => lines.push(`1 FAMC @F${id}@`));
+    (familiesAsSpouse.get(person.id) ?? []).forEach(id => lines.push(`1 FAMS @F${id}@`));
+  });
+
+  familyList.forEach((family, index) => {
+    lines.push(`0 @F${index + 1}@ FAM`);
+
+    // Use HUSB for a male or first parent and WIFE for the other
+    const [first, second] = family.parentIds;
+    const swap = second !== undefined &&
+      personsById.get(first)?.gender?.toLowerCase() === "female" &&
+      personsById.get(second)?.gender?.toLowerCase() !== "female";
+    const [husband, wife] = swap ? [second, first] : [first, second];
+
+    if (husband !== undefined) lines.push(`1 HUSB @I${husband}@`);
+    if (wife !== undefined) lines.push(`1 WIFE @I${wife}@`);
+    family.childIds.forEach(childId => lines.push(`1 CHIL @I${childId}@`));
+  });
+
+  lines.push("0 TRLR");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Person } from '@shared/schema';
+import { findImportMatches } from './importMatching';
+
+const person = (id: number, name: string, extra: Partial<Person> = {}): Person => ({
+  id, version: 1, name, gender: null,
+  birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null,
+  ...extra
+});
+
+const matchedNames = (imported: Person[], existing: Person[]) =>
+  findImportMatches(imported, existing).map(match => [match.imported.name, match.existing.name]);
+
+describe('findImportMatches', () => {
+  it.each([
+    { imported: 'John Smith', existing: 'John Smith' },
+    { imported: 'Smith John', existing: 'John Smith' },
+    { imported: 'John Smith', existing: 'Smith, John' },
+    { imported: 'José Müller', existing: 'Jose Muller' },
+    { imported: 'Jon Smith', existing: 'John Smith' }
+  ])('matches "$imported" with "$existing"', ({ imported, existing }) => {
+    expect(matchedNames([person(1, imported)], [person(1, existing)])).toEqual([[imported, existing]]);
+  });
+
+  it.each([
+    { imported: 'John Smith', existing: 'Mary Walsh' },
+    { imported: 'John Smith', existing: 'John Smithson-Byrne' }
+  ])('does not match "$imported" with "$existing"', ({ imported, existing }) => {
+    expect(matchedNames([person(1, imported)], [person(1, existing)])).toEqual([]);
+  });
+
+  it('weighs birth dates and places in the score and leaves unknown ones out', () => {
+    const imported = person(1, 'John Smith', { birthDate: '1900-03-04', birthPlace: 'Cork, Ireland' });
+    const [same] = findImportMatches([imported], [person(1, 'John Smith', { birthDate: '1900-03-04', birthPlace: 'Cork, Ireland' })]);
+    const [unknown] = findImportMatches([imported], [person(1, 'John Smith')]);
+
+    expect(same).toMatchObject({ score: 1, birthDateScore: 1, birthPlaceScore: 1 });
+    expect(unknown).toMatchObject({ score: 1, birthDateScore: null, birthPlaceScore: null });
+    expect(findImportMatches([imported], [person(1, 'John Smith', { birthDate: '1950-01-01', birthPlace: 'Boston, USA' })])).toEqual([]);
+  });
+
+  it('pairs each person at most once, best match first', () => {
+    const imported = [person(1, 'John Smith', { birthDate: '1900-03-04' }), person(2, 'Smith John')];
+    const existing = [person(1, 'John Smith', { birthDate: '1900-03-04' }), person(2, 'John Smith', { birthDate: '1901-01-01' })];
+
+    expect(findImportMatches(imported, existing).map(match => [match.imported.id, match.existing.id])).toEqual([[1, 1], [2, 2]]);
+  });
+});
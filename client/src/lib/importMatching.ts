@@ -0,0 +1,186 @@
+import { Person } from "@shared/schema";
+
+export type MatchOptions = {
+  // Overall score (0-1) an existing person needs to be suggested as a match
+  minScore: number;
+  // Name similarity (0-1) below which two people are never matched
+  minNameSimilarity: number;
+  // Birth years further apart than this count as conflicting
+  dateToleranceYears: number;
+};
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  minScore: 0.75,
+  minNameSimilarity: 0.8,
+  dateToleranceYears: 2
+};
+
+export type ImportMatch = {
+  imported: Person;
+  existing: Person;
+  score: number;
+  nameScore: number;
+  birthDateScore: number | null;
+  birthPlaceScore: number | null;
+};
+
+// Relative weight of each compared field in the overall score
+const NAME_WEIGHT = 0.6;
+const BIRTH_DATE_WEIGHT = 0.25;
+const BIRTH_PLACE_WEIGHT = 0.15;
+
+/**
+ * Lowercases text and strips accents and punctuation for comparison
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 1;
+  return 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Compares two names, ignoring word order ("Smith John" matches "John Smith")
+ */
+function nameSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeText(a);
+  const normalizedB = normalizeText(b);
+  const sortedA = normalizedA.split(" ").sort().join(" ");
+  const sortedB = normalizedB.split(" ").sort().join(" ");
+
+  return Math.max(
+    stringSimilarity(normalizedA, normalizedB),
+    stringSimilarity(sortedA, sortedB)
+  );
+}
+
+/**
+ * Scores two birth dates: 1 for the same day, less for the same or a nearby
+ * year, 0 when they conflict, or null when either is unknown
+ */
+function birthDateSimilarity(a: string | null, b: string | null, toleranceYears: number): number | null {
+  if (!a || !b) return null;
+  if (a === b) return 1;
+
+  const yearA = parseInt(a.slice(0, 4), 10);
+  const yearB = parseInt(b.slice(0, 4), 10);
+  if (isNaN(yearA) || isNaN(yearB)) return null;
+
+  const difference = Math.abs(yearA - yearB);
+  if (difference === 0) return 0.8;
+  if (difference <= toleranceYears) return 0.5;
+  return 0;
+}
+
+/**
+ * Scores two places by the share of words they have in common
+ */
+function birthPlaceSimilarity(a: string | null, b: string | null): number | null {
+  if (!a || !b) return null;
+
+  const wordsA = new Set(normalizeText(a).split(" ").filter(Boolean));
+  const wordsB = new Set(normalizeText(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return null;
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// People are only compared when a word of each name starts with the same
+// letter, which keeps matching large imports against large trees from
+// comparing every pair. Every word counts, as names may be in either order.
+function blockingKeys(name: string): string[] {
+  const words = normalizeText(name).split(" ");
+  return Array.from(new Set(words.map(word => word.charAt(0))));
+}
+
+/**
+ * Finds existing persons that are likely the same as imported persons,
+ * comparing name, birth date and birth place. Each imported and each
+ * existing person is used in at most one match, best scores first.
+ */
+export function findImportMatches(
+  importedPersons: Person[],
+  existingPersons: Person[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): ImportMatch[] {
+  const existingByKey = new Map<string, Person[]>();
+  existingPersons.forEach(person => {
+    blockingKeys(person.name).forEach(key => {
+      const group = existingByKey.get(key);
+      if (group) group.push(person);
+      else existingByKey.set(key, [person]);
+    });
+  });
+
+  const candidates: ImportMatch[] = [];
+  importedPersons.forEach(imported => {
+    // Someone under several of the same keys is still compared once
+    const compared = new Set(blockingKeys(imported.name).flatMap(key => existingByKey.get(key) ?? []));
+    compared.forEach(existing => {
+      const nameScore = nameSimilarity(imported.name, existing.name);
+      if (nameScore < options.minNameSimilarity) return;
+
+      const birthDateScore = birthDateSimilarity(imported.birthDate, existing.birthDate, options.dateToleranceYears);
+      const birthPlaceScore = birthPlaceSimilarity(imported.birthPlace, existing.birthPlace);
+
+      // Fields missing on either side don't count for or against a match
+      let weightedScore = nameScore * NAME_WEIGHT;
+      let totalWeight = NAME_WEIGHT;
+      if (birthDateScore !== null) {
+        weightedScore += birthDateScore * BIRTH_DATE_WEIGHT;
+        totalWeight += BIRTH_DATE_WEIGHT;
+      }
+      if (birthPlaceScore !== null) {
+        weightedScore += birthPlaceScore * BIRTH_PLACE_WEIGHT;
+        totalWeight += BIRTH_PLACE_WEIGHT;
+      }
+
+      const score = weightedScore / totalWeight;
+      if (score >= options.minScore) {
+        candidates.push({ imported, existing, score, nameScore, birthDateScore, birthPlaceScore });
+      }
+    });
+  });
+
+  const matchedImported = new Set<number>();
+  const matchedExisting = new Set<number>();
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .filter(candidate => {
+      if (matchedImported.has(candidate.imported.id) || matchedExisting.has(candidate.existing.id)) {
+        return false;
+      }
+      matchedImported.add(candidate.imported.id);
+      matchedExisting.add(candidate.existing.id);
+      return true;
+    });
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { PersonForm } from '@shared/schema';
+import { diffPersonVersions, mergePersonVersions, PersonVersions } from './personMerge';
+
+const FIELDS: (keyof PersonForm)[] = ['name', 'birthDate', 'birthPlace', 'notes'];
+
+const form = (fields: Partial<PersonForm> = {}): PersonForm => ({
+  name: 'Mary Smith', gender: 'female', birthDate: '1900-01-01', birthPlace: null,
+  deathDate: null, deathPlace: null, notes: null,
+  ...fields
+});
+
+const versions = (mine: Partial<PersonForm>, theirs: Partial<PersonForm>): PersonVersions =>
+  ({ base: form(), mine: form(mine), theirs: form(theirs) });
+
+describe('diffPersonVersions', () => {
+  it.each([
+    { name: 'only the user changed', mine: { name: 'Mary Jones' }, theirs: {}, changedByBoth: false, defaultSource: 'mine' },
+    { name: 'only the other edit changed', mine: {}, theirs: { name: 'Mary Jones' }, changedByBoth: false, defaultSource: 'theirs' },
+    { name: 'both changed differently', mine: { name: 'Mary Jones' }, theirs: { name: 'Mary Brown' }, changedByBoth: true, defaultSource: 'mine' }
+  ])('lists a field $name', ({ mine, theirs, changedByBoth, defaultSource }) => {
+    expect(diffPersonVersions(versions(mine, theirs), FIELDS)).toEqual([{ key: 'name', changedByBoth, defaultSource }]);
+  });
+
+  it('leaves out fields both edits agree on, even when both changed them', () => {
+    const both = { birthPlace: 'York', notes: 'Farmer' };
+    expect(diffPersonVersions(versions(both, both), FIELDS)).toEqual([]);
+  });
+
+  it('treats an empty and a missing value as the same', () => {
+    expect(diffPersonVersions(versions({ notes: '' }, { notes: undefined }), FIELDS)).toEqual([]);
+  });
+
+  it('only compares the given fields', () => {
+    expect(diffPersonVersions(versions({ gender: 'male' }, {}), FIELDS)).toEqual([]);
+  });
+});
+
+describe('mergePersonVersions', () => {
+  const edits = versions(
+    { name: 'Mary Jones', birthPlace: 'York' },
+    { name: 'Mary Brown', notes: 'Farmer' }
+  );
+  const fields = diffPersonVersions(edits, FIELDS);
+
+  it('keeps whichever side changed each field by default', () => {
+    expect(mergePersonVersions(edits, fields, {})).toEqual(form({ name: 'Mary Jones', birthPlace: 'York', notes: 'Farmer' }));
+  });
+
+  it('applies the side picked for each field', () => {
+    expect(mergePersonVersions(edits, fields, { name: 'theirs', birthPlace: 'theirs', notes: 'mine' }))
+      .toEqual(form({ name: 'Mary Brown' }));
+  });
+
+  it('keeps the other edit for fields the user did not touch', () => {
+    const theirsOnly = versions({}, { gender: 'male', deathDate: '1980-05-01' });
+    expect(mergePersonVersions(theirsOnly, diffPersonVersions(theirsOnly, FIELDS), {}))
+      .toEqual(form({ gender: 'male', deathDate: '1980-05-01' }));
+  });
+});
@@ -0,0 +1,54 @@
+import { PersonForm } from "@shared/schema";
+
+export type MergeSource = 'mine' | 'theirs';
+
+// The version both edits started from, the user's edit and the one saved first
+export type PersonVersions = {
+  base: PersonForm;
+  mine: PersonForm;
+  theirs: PersonForm;
+};
+
+export type MergeField = {
+  key: keyof PersonForm;
+  // Both edits changed the field from the base version, to different values
+  changedByBoth: boolean;
+  // The side kept unless the user picks the other
+  defaultSource: MergeSource;
+};
+
+const fieldValue = (values: PersonForm, key: keyof PersonForm) => values[key] ?? '';
+
+/**
+ * Compares two edits of a person against the version both started from,
+ * listing the given fields on which they disagree. Whichever side changed
+ * a field is kept by default; when both did, the user's edit is.
+ */
+export function diffPersonVersions(versions: PersonVersions, keys: (keyof PersonForm)[]): MergeField[] {
+  const { base, mine, theirs } = versions;
+  return keys
+    .filter(key => fieldValue(mine, key) !== fieldValue(theirs, key))
+    .map(key => {
+      const mineChanged = fieldValue(mine, key) !== fieldValue(base, key);
+      const theirsChanged = fieldValue(theirs, key) !== fieldValue(base, key);
+      return { key, changedByBoth: mineChanged && theirsChanged, defaultSource: mineChanged ? 'mine' : 'theirs' };
+    });
+}
+
+/**
+ * Takes the saved version and applies the user's value for each field
+ * where the user's edit is picked
+ */
+export function mergePersonVersions(
+  versions: PersonVersions,
+  fields: MergeField[],
+  sources: Partial<Record<keyof PersonForm, MergeSource>>
+): PersonForm {
+  const merged: Record<string, unknown> = { ...versions.theirs };
+  fields.forEach(({ key, defaultSource }) => {
+    if ((sources[key] ?? defaultSource) === 'mine') {
+      merged[key] = versions.mine[key];
+    }
+  });
+  return merged as PersonForm;
+}
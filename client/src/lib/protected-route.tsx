@@ -0,0 +1,28 @@
+import { ComponentType } from "react";
+import { Redirect, Route, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Skeleton } from "@/components/ui/skeleton";
+
+/**
+ * A route that sends visitors who aren't logged in to the login page, which
+ * brings them back here afterwards
+ */
+export function ProtectedRoute({ path, component: Component }: { path: string; component: ComponentType }) {
+  const { user, isLoading } = useAuth();
+  const [location] = useLocation();
+  const loginUrl = location === "/" ? "/auth" : `/auth?next=${encodeURIComponent(location)}`;
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="h-screen flex items-center justify-center">
+          <Skeleton className="h-8 w-48" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={loginUrl} />
+      )}
+    </Route>
+  );
+}
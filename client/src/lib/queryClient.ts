@@ -2,19 +2,43 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
+    // The session expired or ended elsewhere, which brings up the login page
+    if (res.status === 401) {
+      queryClient.setQueryData(["/api/user"], null);
+    }
+
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+// Failed requests throw "<status>: <json body>"; these get its parts back
+export function getErrorStatus(error: Error): number {
+  return parseInt(error.message);
+}
+
+export function getErrorBody<T = { message?: string }>(error: Error): T | undefined {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+export function getErrorMessage(error: Error): string {
+  const body = getErrorBody(error);
+  return body ? body.message! : error.message;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...headers },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -0,0 +1,282 @@
+import { describe, expect, it } from 'vitest';
+import { FamilyTreeData, Person, Relationship } from '@shared/schema';
+import { buildFamilyTree, buildPersonsMap } from './treeUtils';
+import { Connector, TreeLayout, TreeNode, layoutDescendants, layoutFamilyTree } from './treeLayout';
+
+// Matches the layout's spacing between a person and a spouse beside them
+const SPOUSE_SPACING = 32;
+
+// Small seeded generator (mulberry32), so every run tests the same trees
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a family tree of `size` people descended from a few founding
+ * couples. Besides marriages to people from outside the family there are
+ * second marriages with children from each, and marriages between two
+ * descendants, whose children belong to two families already drawn. Some
+ * of those marry someone already married, so both spouses are placed
+ * before their union is.
+ */
+function generateTree(size: number, seed: number): FamilyTreeData {
+  const random = createRandom(seed);
+  const persons: Person[] = [];
+  const relationships: Relationship[] = [];
+
+  const addPerson = (gender: 'male' | 'female'): Person => {
+    const person: Person = {
+      id: persons.length + 1,
+      version: 1,
+      name: `Person ${persons.length + 1}`,
+      gender,
+      birthDate: null,
+      birthPlace: null,
+      deathDate: null,
+      deathPlace: null,
+      notes: null,
+      createdBy: null
+    };
+    persons.push(person);
+    return person;
+  };
+
+  // Both rows of each pair, as storage records them
+  const relate = (type: 'spouse' | 'parent', personId: number, relatedPersonId: number) => {
+    const reciprocal = type === 'parent' ? 'child' : 'spouse';
+    relationships.push({ id: relationships.length + 1, type, personId, relatedPersonId });
+    relationships.push({ id: relationships.length + 1, type: reciprocal, personId: relatedPersonId, relatedPersonId: personId });
+  };
+
+  const couples: [Person, Person][] = [];
+  const marry = (person: Person, spouse: Person) => {
+    relate('spouse', person.id, spouse.id);
+    couples.push([person, spouse]);
+  };
+
+  // Descendants still free to marry another descendant
+  const unmarried: Person[] = [];
+
+  for (let i = 0; i < 5; i++) {
+    marry(addPerson('male'), addPerson('female'));
+  }
+
+  for (let next = 0; next < couples.length && persons.length < size; next++) {
+    const childCount = 1 + Math.floor(random() * 4);
+    for (let c = 0; c < childCount && persons.length < size; c++) {
+      const gender = random() < 0.5 ? 'male' : 'female';
+      const child = addPerson(gender);
+      couples[next].forEach(parent => relate('parent', parent.id, child.id));
+
+      const roll = random();
+      const other = gender === 'male' ? 'female' : 'male';
+      if (roll < 0.12 && unmarried.length > 0) {
+        marry(child, unmarried.splice(Math.floor(random() * unmarried.length), 1)[0]);
+      } else if (roll < 0.16 && couples.length > 10) {
+        // A second marriage for someone already married, e.g. a widow
+        marry(child, couples[Math.floor(random() * couples.length)][0]);
+      } else if (roll < 0.7) {
+        marry(child, addPerson(other));
+        if (random() < 0.15) marry(child, addPerson(other));
+      } else {
+        unmarried.push(child);
+      }
+    }
+  }
+
+  return { persons, relationships };
+}
+
+const centerTop = (node: TreeNode) => ({ x: node.x + node.width / 2, y: node.y });
+const endsAt = (connector: Connector, point: { x: number; y: number }) =>
+  connector.x2 === point.x && connector.y2 === point.y;
+
+function getNodesById(layout: TreeLayout): Map<number, TreeNode> {
+  return new Map(layout.nodes.map(node => [node.person.id, node]));
+}
+
+function expectNoOverlaps(nodes: TreeNode[]) {
+  const rows = new Map<number, TreeNode[]>();
+  nodes.forEach(node => {
+    const row = rows.get(node.y);
+    if (row) row.push(node);
+    else rows.set(node.y, [node]);
+  });
+
+  const rowYs = Array.from(rows.keys()).sort((a, b) => a - b);
+  rowYs.slice(1).forEach((y, index) => {
+    expect(y - rowYs[index]).toBeGreaterThanOrEqual(nodes[0].height);
+  });
+
+  rows.forEach(row => {
+    row.sort((a, b) => a.x - b.x);
+    row.slice(1).forEach((node, index) => {
+      const left = row[index];
+      if (left.x + left.width > node.x) {
+        throw new Error(`${left.person.name} overlaps ${node.person.name} at y=${node.y}`);
+      }
+    });
+  });
+}
+
+function expectEveryonePlacedOnce(layout: TreeLayout, data: FamilyTreeData) {
+  const ids = layout.nodes.map(node => node.person.id);
+  expect(new Set(ids).size).toBe(ids.length);
+  expect(ids.sort((a, b) => a - b)).toEqual(data.persons.map(person => person.id).sort((a, b) => a - b));
+}
+
+/**
+ * Checks that a couple is drawn side by side with a line between them, or
+ * that one of them links to the other where they are drawn
+ */
+function expectUnionDrawn(layout: TreeLayout, a: TreeNode, b: TreeNode) {
+  const [left, right] = a.x < b.x ? [a, b] : [b, a];
+  const sideBySide = a.y === b.y && layout.connectors.some(connector =>
+    connector.type === 'horizontal' &&
+    connector.x1 === left.x + left.width &&
+    connector.x2 === right.x &&
+    connector.y1 === a.y + a.height / 2
+  );
+  const linked = [[a, b], [b, a]].some(([from, to]) => layout.connectors.some(connector =>
+    connector.type === 'link' &&
+    endsAt(connector, centerTop(to)) &&
+    connector.x1 === from.x + from.width / 2 &&
+    connector.y1 === from.y + from.height / 2
+  ));
+  if (!sideBySide && !linked) {
+    throw new Error(`No line between spouses ${a.person.name} and ${b.person.name}`);
+  }
+}
+
+/**
+ * Checks that a child hangs from the line below their parent's row, or
+ * that a link runs to where the child is drawn from below the parent, or
+ * from below the gap between them and a co-parent drawn in the same row
+ */
+function expectChildDrawn(layout: TreeLayout, parent: TreeNode, child: TreeNode, coParents: TreeNode[] = []) {
+  const dropNodes = [parent, ...coParents.filter(coParent => coParent.y === parent.y)];
+  const dropLeft = Math.min(...dropNodes.map(node => node.x)) - SPOUSE_SPACING / 2;
+  const dropRight = Math.max(...dropNodes.map(node => node.x + node.width)) + SPOUSE_SPACING / 2;
+  const underParent = child.y === parent.y + 200 && layout.connectors.some(connector =>
+    connector.type === 'vertical' && endsAt(connector, centerTop(child))
+  );
+  const linked = layout.connectors.some(connector =>
+    connector.type === 'link' &&
+    endsAt(connector, centerTop(child)) &&
+    connector.y1 > parent.y + parent.height &&
+    connector.y1 < parent.y + 200 &&
+    connector.x1 >= dropLeft &&
+    connector.x1 <= dropRight
+  );
+  if (!underParent && !linked) {
+    throw new Error(`No line from ${parent.person.name} to their child ${child.person.name}`);
+  }
+}
+
+describe('layoutFamilyTree', () => {
+  describe.each([
+    { size: 1000, seed: 1 },
+    { size: 2500, seed: 2 },
+    { size: 5000, seed: 3 }
+  ])('with $size generated people', ({ size, seed }) => {
+    const data = generateTree(size, seed);
+    const layout = layoutFamilyTree(buildFamilyTree(data));
+    const nodesById = getNodesById(layout);
+
+    it('places every person exactly once', () => {
+      expectEveryonePlacedOnce(layout, data);
+    });
+
+    it('never overlaps two people', () => {
+      expectNoOverlaps(layout.nodes);
+    });
+
+    it('draws every union', () => {
+      const spouses = data.relationships.filter(rel => rel.type === 'spouse');
+      expect(spouses.length).toBeGreaterThan(0);
+      spouses.forEach(rel => {
+        expectUnionDrawn(layout, nodesById.get(rel.personId)!, nodesById.get(rel.relatedPersonId)!);
+      });
+    });
+
+    it('connects every child to each parent, linking those already placed', () => {
+      const parents = data.relationships.filter(rel => rel.type === 'parent');
+      const parentIds = (childId: number) =>
+        parents.filter(rel => rel.relatedPersonId === childId).map(rel => rel.personId);
+      parents.forEach(rel => {
+        const coParents = parentIds(rel.relatedPersonId)
+          .filter(id => id !== rel.personId)
+          .map(id => nodesById.get(id)!);
+        expectChildDrawn(layout, nodesById.get(rel.personId)!, nodesById.get(rel.relatedPersonId)!, coParents);
+      });
+      // Children of two descendants are drawn under one family and linked from the other
+      expect(layout.connectors.some(connector => connector.type === 'link')).toBe(true);
+    });
+
+    it('fits every node inside the reported dimensions', () => {
+      layout.nodes.forEach(node => {
+        expect(node.x).toBeGreaterThanOrEqual(0);
+        expect(node.y).toBeGreaterThanOrEqual(0);
+        expect(node.x + node.width).toBeLessThanOrEqual(layout.dimensions.width);
+        expect(node.y + node.height).toBeLessThanOrEqual(layout.dimensions.height);
+      });
+    });
+  });
+
+  it('draws someone marrying in beside their spouse and links them from their own parents', () => {
+    const person = (id: number, gender: 'male' | 'female'): Person => ({
+      id, version: 1, name: `Person ${id}`, gender,
+      birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null
+    });
+    // Two founding couples whose children marry each other and have a child
+    const pairs: [Relationship['type'], number, number][] = [
+      ['spouse', 1, 2], ['spouse', 2, 1], ['spouse', 3, 4], ['spouse', 4, 3],
+      ['parent', 1, 5], ['child', 5, 1], ['parent', 2, 5], ['child', 5, 2],
+      ['parent', 3, 6], ['child', 6, 3], ['parent', 4, 6], ['child', 6, 4],
+      ['spouse', 5, 6], ['spouse', 6, 5],
+      ['parent', 5, 7], ['child', 7, 5], ['parent', 6, 7], ['child', 7, 6]
+    ];
+    const data: FamilyTreeData = {
+      persons: [person(1, 'male'), person(2, 'female'), person(3, 'male'), person(4, 'female'),
+        person(5, 'male'), person(6, 'female'), person(7, 'male')],
+      relationships: pairs.map(([type, personId, relatedPersonId], index) => ({
+        id: index + 1, type, personId, relatedPersonId
+      }))
+    };
+
+    const layout = layoutFamilyTree(buildFamilyTree(data));
+    const nodesById = getNodesById(layout);
+    expectEveryonePlacedOnce(layout, data);
+    expectNoOverlaps(layout.nodes);
+
+    expect(nodesById.get(6)!.y).toBe(nodesById.get(5)!.y);
+    expect(layout.connectors.filter(connector => connector.type === 'link')).toHaveLength(1);
+    expectUnionDrawn(layout, nodesById.get(5)!, nodesById.get(6)!);
+    [3, 4].forEach(parentId => expectChildDrawn(layout, nodesById.get(parentId)!, nodesById.get(6)!));
+    [5, 6].forEach(parentId => expectChildDrawn(layout, nodesById.get(parentId)!, nodesById.get(7)!));
+  });
+});
+
+describe('layoutDescendants', () => {
+  it('places each descendant of a founder once without overlaps', () => {
+    const data = generateTree(2000, 4);
+    const personsMap = buildPersonsMap(data);
+    const founder = personsMap.get(1)!;
+    const layout = layoutDescendants(founder, new Set());
+
+    const ids = layout.nodes.map(node => node.person.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.length).toBeGreaterThan(100);
+    expectNoOverlaps(layout.nodes);
+
+    // Collapsing the founder leaves only the founder and their spouse
+    const collapsed = layoutDescendants(founder, new Set([founder.id]));
+    expect(collapsed.nodes.map(node => node.person.id).sort((a, b) => a - b)).toEqual([1, 2]);
+  });
+});
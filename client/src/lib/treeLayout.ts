@@ -1,14 +1,12 @@
 import { FamilyTreePerson } from "@shared/schema";
 
 // Define types for layout calculations
-type TreeNode = {
+export type TreeNode = {
   x: number;
   y: number;
   person: FamilyTreePerson;
   width: number;
   height: number;
-  children?: TreeNode[];
-  spouse?: TreeNode;
   level: number;
 };
 
@@ -17,175 +15,655 @@ type Dimensions = {
   height: number;
 };
 
-type Connector = {
-  type: 'horizontal' | 'vertical';
+// Links join a person to a relative who is drawn elsewhere in the tree
+export type Connector = {
+  type: 'horizontal' | 'vertical' | 'link';
   x1: number;
   y1: number;
   x2: number;
   y2: number;
 };
 
-type TreeLayout = {
+// A missing parent in a chart, where the user can add one
+export type EmptySlot = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  childId: number;
+  role: 'father' | 'mother';
+};
+
+export type TreeLayout = {
   nodes: TreeNode[];
   connectors: Connector[];
+  emptySlots?: EmptySlot[];
   dimensions: Dimensions;
 };
 
+// A person shown together with their spouses. Units are what the layout
+// arranges; each child's unit hangs from the union it belongs to.
+type FamilyUnit = {
+  // Members left to right, with the person the unit belongs to at headIndex
+  members: FamilyTreePerson[];
+  headIndex: number;
+  width: number;
+  childGroups: ChildGroup[];
+  // Spouses of any member that are drawn in another unit
+  linkedSpouses: { memberIndex: number; spouse: FamilyTreePerson }[];
+  level: number;
+  // Left edge, relative to the parent unit until positions are resolved
+  x: number;
+  contour: Contour;
+};
+
+// Children hanging from one drop point, e.g. the gap between two spouses
+type ChildGroup = {
+  dropX: number;
+  units: FamilyUnit[];
+  // Children drawn in another unit
+  linked: FamilyTreePerson[];
+};
+
+// Leftmost and rightmost edge of a subtree at each level below its top
+type Contour = {
+  left: number[];
+  right: number[];
+};
+
 // Default node dimensions
 const NODE_WIDTH = 256;
 const NODE_HEIGHT = 120;
-const LEVEL_HEIGHT = 160;
+const LEVEL_HEIGHT = 200;
 const SIBLING_SPACING = 40;
 const SPOUSE_SPACING = 32;
+const ROOT_SPACING = 80;
+// Vertical offset between the child lines of different unions in one unit
+const BUS_STAGGER = 8;
+// Pedigree charts run left to right, one column per generation
+const GENERATION_SPACING = 80;
+const PEDIGREE_SLOT_SPACING = 16;
+
+function uniqueById(persons: FamilyTreePerson[] = []): FamilyTreePerson[] {
+  const seen = new Set<number>();
+  return persons.filter(person => {
+    if (seen.has(person.id)) return false;
+    seen.add(person.id);
+    return true;
+  });
+}
+
+function memberX(index: number): number {
+  return index * (NODE_WIDTH + SPOUSE_SPACING);
+}
 
 /**
- * Creates a hierarchical tree layout for visualization
+ * Packs subtrees left to right as tightly as their contours allow,
+ * returning each subtree's left edge and the combined contour
  */
-export function layoutFamilyTree(rootPersons: FamilyTreePerson[]): TreeLayout {
+function packSubtrees(units: FamilyUnit[], spacing: number): { positions: number[]; contour: Contour } {
+  const contour: Contour = { left: [], right: [] };
+  const positions: number[] = [];
+
+  units.forEach((unit, index) => {
+    let x = 0;
+    if (index > 0) {
+      x = -Infinity;
+      const depth = Math.min(contour.right.length, unit.contour.left.length);
+      for (let level = 0; level < depth; level++) {
+        x = Math.max(x, contour.right[level] + spacing - unit.contour.left[level]);
+      }
+    }
+    positions.push(x);
+
+    unit.contour.left.forEach((value, level) => {
+      contour.left[level] = level < contour.left.length ? Math.min(contour.left[level], x + value) : x + value;
+    });
+    unit.contour.right.forEach((value, level) => {
+      contour.right[level] = level < contour.right.length ? Math.max(contour.right[level], x + value) : x + value;
+    });
+  });
+
+  return { positions, contour };
+}
+
+/**
+ * Positions a unit's children under it and computes the unit's contour.
+ * Child positions are relative to the unit's left edge.
+ */
+function measureUnit(unit: FamilyUnit) {
+  const children = unit.childGroups.flatMap(group => group.units);
+  children.forEach(measureUnit);
+
+  if (children.length === 0) {
+    unit.contour = { left: [0], right: [unit.width] };
+    return;
+  }
+
+  const { positions, contour } = packSubtrees(children, SIBLING_SPACING);
+
+  // Center the unit over its first and last child
+  const first = children[0];
+  const last = children[children.length - 1];
+  const center = (positions[0] + first.width / 2 + positions[positions.length - 1] + last.width / 2) / 2;
+  const origin = center - unit.width / 2;
+
+  children.forEach((child, index) => {
+    child.x = positions[index] - origin;
+  });
+  unit.contour = {
+    left: [0, ...contour.left.map(value => value - origin)],
+    right: [unit.width, ...contour.right.map(value => value - origin)]
+  };
+}
+
+// How units are built. People in `placed` are already drawn and only get
+// links; collapsed people's children are left out.
+type UnitOptions = {
+  placed: Set<number>;
+  collapsedIds?: Set<number>;
+  descendantsOnly?: boolean;
+  // Levels below the first unit to include
+  maxDepth?: number;
+};
+
+/**
+ * Builds the unit for a person and, recursively, for their descendants
+ */
+function buildUnit(person: FamilyTreePerson, level: number, options: UnitOptions): FamilyUnit {
+  const { placed, collapsedIds, descendantsOnly, maxDepth } = options;
+  placed.add(person.id);
+
+  // Spouses alternate right and left so each union sits next to the person
+  const spouses: FamilyTreePerson[] = [];
+  uniqueById(person.spouses).forEach(spouse => {
+    if (!placed.has(spouse.id)) {
+      placed.add(spouse.id);
+      spouses.push(spouse);
+    }
+  });
+  const leftSpouses = spouses.filter((_, index) => index % 2 === 1).reverse();
+  const rightSpouses = spouses.filter((_, index) => index % 2 === 0);
+  const members = [...leftSpouses, person, ...rightSpouses];
+  const headIndex = leftSpouses.length;
+
+  // Other marriages of everyone in the unit to people already drawn get a
+  // link; those drawn later link back to this unit
+  const memberIds = new Set(members.map(member => member.id));
+  const linkedSpouses: FamilyUnit['linkedSpouses'] = [];
+  members.forEach((member, memberIndex) => {
+    uniqueById(member.spouses).forEach(spouse => {
+      if (!memberIds.has(spouse.id) && placed.has(spouse.id)) linkedSpouses.push({ memberIndex, spouse });
+    });
+  });
+
+  const unit: FamilyUnit = {
+    members,
+    headIndex,
+    width: memberX(members.length - 1) + NODE_WIDTH,
+    childGroups: [],
+    linkedSpouses,
+    level,
+    x: 0,
+    contour: { left: [], right: [] }
+  };
+
+  // Children of a couple drop from the gap between them, children of
+  // only one member from under that member
+  const getDropX = (parentIndexes: number[]): number => {
+    const spouseIndex = parentIndexes.find(index => index !== headIndex);
+    if (parentIndexes.includes(headIndex) && spouseIndex !== undefined) {
+      return spouseIndex > headIndex
+        ? memberX(spouseIndex) - SPOUSE_SPACING / 2
+        : memberX(spouseIndex) + NODE_WIDTH + SPOUSE_SPACING / 2;
+    }
+    return memberX(parentIndexes[0]) + NODE_WIDTH / 2;
+  };
+
+  const groups = new Map<number, FamilyTreePerson[]>();
+  const seenChildren = new Set<number>();
+  members.forEach((member, memberIndex) => {
+    if (descendantsOnly && memberIndex !== headIndex) return;
+    if (maxDepth !== undefined && level >= maxDepth) return;
+
+    uniqueById(member.children).forEach(child => {
+      if (seenChildren.has(child.id)) return;
+      seenChildren.add(child.id);
+
+      const parentIndexes = members
+        .map((other, index) => (other.children?.some(c => c.id === child.id) ? index : -1))
+        .filter(index => index >= 0);
+      if (parentIndexes.some(index => collapsedIds?.has(members[index].id))) return;
+
+      const dropX = getDropX(parentIndexes);
+      const group = groups.get(dropX);
+      if (group) group.push(child);
+      else groups.set(dropX, [child]);
+    });
+  });
+
+  Array.from(groups.keys()).sort((a, b) => a - b).forEach(dropX => {
+    const group: ChildGroup = { dropX, units: [], linked: [] };
+    groups.get(dropX)!.forEach(child => {
+      if (placed.has(child.id)) {
+        group.linked.push(child);
+      } else {
+        group.units.push(buildUnit(child, level + 1, options));
+      }
+    });
+    unit.childGroups.push(group);
+  });
+
+  return unit;
+}
+
+/**
+ * Positions the given unit trees side by side and turns them into nodes
+ * and connectors
+ */
+function resolveLayout(rootUnits: FamilyUnit[]): TreeLayout {
+  rootUnits.forEach(measureUnit);
+  const { positions, contour } = packSubtrees(rootUnits, ROOT_SPACING);
+  const minX = contour.left.length > 0 ? Math.min(...contour.left) : 0;
+  rootUnits.forEach((unit, index) => {
+    unit.x = positions[index] - minX;
+  });
+
   const nodes: TreeNode[] = [];
-  const connectors: Connector[] = [];
-  let maxWidth = 0;
-  let maxHeight = 0;
+  const nodesById = new Map<number, TreeNode>();
+  const units: FamilyUnit[] = [];
 
-  // Process nodes to create a layout
-  function processNode(
-    person: FamilyTreePerson, 
-    level: number = 0, 
-    xOffset: number = 0
-  ): TreeNode {
-    // Create the node for this person
-    const node: TreeNode = {
-      x: xOffset,
-      y: level * LEVEL_HEIGHT,
-      person,
-      width: NODE_WIDTH,
-      height: NODE_HEIGHT,
-      level,
-      children: []
-    };
-    
-    nodes.push(node);
-    
-    // Process spouse if available
-    let totalWidth = NODE_WIDTH;
-    if (person.spouses && person.spouses.length > 0) {
-      const spouse = person.spouses[0]; // Only use the first spouse for layout
-      const spouseNode = {
-        x: xOffset + NODE_WIDTH + SPOUSE_SPACING,
-        y: level * LEVEL_HEIGHT,
-        person: spouse,
+  // Resolve absolute positions top-down
+  const stack = [...rootUnits];
+  while (stack.length > 0) {
+    const unit = stack.pop()!;
+    units.push(unit);
+
+    unit.members.forEach((person, index) => {
+      const node: TreeNode = {
+        x: unit.x + memberX(index),
+        y: unit.level * LEVEL_HEIGHT,
+        person,
         width: NODE_WIDTH,
         height: NODE_HEIGHT,
-        level,
+        level: unit.level
       };
-      
-      nodes.push(spouseNode);
-      node.spouse = spouseNode;
-      
-      // Add connector between spouses
+      nodes.push(node);
+      nodesById.set(person.id, node);
+    });
+
+    unit.childGroups.forEach(group => {
+      group.units.forEach(child => {
+        child.x += unit.x;
+        stack.push(child);
+      });
+    });
+  }
+
+  const connectors: Connector[] = [];
+  const linkedPairs = new Set<string>();
+
+  const addLink = (fromId: number, x1: number, y1: number, target: FamilyTreePerson) => {
+    const targetNode = nodesById.get(target.id);
+    const key = `${fromId}-${target.id}`;
+    if (!targetNode || linkedPairs.has(key)) return;
+    linkedPairs.add(key);
+
+    connectors.push({
+      type: 'link',
+      x1,
+      y1,
+      x2: targetNode.x + targetNode.width / 2,
+      y2: targetNode.y
+    });
+  };
+
+  units.forEach(unit => {
+    const y = unit.level * LEVEL_HEIGHT;
+    const head = nodesById.get(unit.members[unit.headIndex].id)!;
+
+    // Connect each spouse to the person the unit belongs to
+    unit.members.forEach((spouse, index) => {
+      if (index === unit.headIndex) return;
+      const spouseNode = nodesById.get(spouse.id)!;
+      const [left, right] = index < unit.headIndex ? [spouseNode, head] : [head, spouseNode];
       connectors.push({
         type: 'horizontal',
-        x1: node.x + node.width,
-        y1: node.y + (node.height / 2),
-        x2: spouseNode.x,
-        y2: spouseNode.y + (spouseNode.height / 2)
+        x1: left.x + left.width,
+        y1: y + NODE_HEIGHT / 2,
+        x2: right.x,
+        y2: y + NODE_HEIGHT / 2
+      });
+    });
+
+    unit.linkedSpouses.forEach(({ memberIndex, spouse }) => {
+      const member = nodesById.get(unit.members[memberIndex].id)!;
+      addLink(member.person.id, member.x + member.width / 2, y + NODE_HEIGHT / 2, spouse);
+    });
+
+    // Connect each union to its children through a horizontal line
+    const parentY = y + NODE_HEIGHT;
+    unit.childGroups.forEach((group, groupIndex) => {
+      const dropX = unit.x + group.dropX;
+      const stagger = (groupIndex - (unit.childGroups.length - 1) / 2) * BUS_STAGGER;
+      const busY = parentY + (LEVEL_HEIGHT - NODE_HEIGHT) / 2 + stagger;
+
+      connectors.push({ type: 'vertical', x1: dropX, y1: parentY, x2: dropX, y2: busY });
+
+      const childXs = group.units.map(child => child.x + memberX(child.headIndex) + NODE_WIDTH / 2);
+      if (childXs.length > 0) {
+        const busLeft = Math.min(dropX, ...childXs);
+        const busRight = Math.max(dropX, ...childXs);
+        if (busRight > busLeft) {
+          connectors.push({ type: 'horizontal', x1: busLeft, y1: busY, x2: busRight, y2: busY });
+        }
+      }
+
+      childXs.forEach(childX => {
+        connectors.push({ type: 'vertical', x1: childX, y1: busY, x2: childX, y2: parentY + LEVEL_HEIGHT - NODE_HEIGHT });
       });
-      
-      totalWidth += NODE_WIDTH + SPOUSE_SPACING;
+
+      group.linked.forEach(child => addLink(head.person.id, dropX, busY, child));
+    });
+  });
+
+  let maxWidth = 0;
+  let maxHeight = 0;
+  nodes.forEach(node => {
+    maxWidth = Math.max(maxWidth, node.x + node.width);
+    maxHeight = Math.max(maxHeight, node.y + node.height);
+  });
+
+  return {
+    nodes,
+    connectors,
+    dimensions: {
+      width: maxWidth,
+      height: maxHeight
     }
-    
-    // Process children if available
-    const validChildren = person.children?.filter(
-      child => !nodes.some(n => n.person.id === child.id)
-    ) || [];
-    
-    if (validChildren.length > 0) {
-      // Calculate the starting x position for children to center them
-      let childXOffset = xOffset;
-      
-      // If there's a spouse, center children under both parents
-      if (node.spouse) {
-        childXOffset = node.x + ((node.spouse.x + node.spouse.width - node.x) / 2) - 
-                      ((validChildren.length * NODE_WIDTH + (validChildren.length - 1) * SIBLING_SPACING) / 2);
+  };
+}
+
+/**
+ * Creates a hierarchical tree layout for visualization.
+ *
+ * Each person is drawn once, beside their spouses, with each union's
+ * children grouped under it. Subtrees are packed by their contours
+ * (Reingold–Tilford) so they never overlap. Relatives that are already
+ * drawn elsewhere, e.g. a child of two families, get a link instead.
+ */
+export function layoutFamilyTree(rootPersons: FamilyTreePerson[]): TreeLayout {
+  const options: UnitOptions = { placed: new Set<number>() };
+  const placed = options.placed;
+
+  // Roots married to someone with parents are drawn beside that spouse
+  // instead, so the couple sits under the spouse's family
+  const hasParents = (person: FamilyTreePerson) => (person.parents?.length ?? 0) > 0;
+  const rootUnits: FamilyUnit[] = [];
+  rootPersons
+    .filter(person => !(person.spouses ?? []).some(hasParents))
+    .concat(rootPersons)
+    .forEach(person => {
+      if (!placed.has(person.id)) rootUnits.push(buildUnit(person, 0, options));
+    });
+
+  // Anyone still missing is only connected to the roots sideways, e.g. a
+  // person whose only parents are themselves descendants
+  const queue = [...rootPersons];
+  const visited = new Set(queue.map(person => person.id));
+  for (let index = 0; index < queue.length; index++) {
+    const person = queue[index];
+    if (!placed.has(person.id)) rootUnits.push(buildUnit(person, 0, options));
+
+    [person.parents, person.children, person.spouses, person.siblings].forEach(relatives => {
+      (relatives ?? []).forEach(relative => {
+        if (visited.has(relative.id)) return;
+        visited.add(relative.id);
+        queue.push(relative);
+      });
+    });
+  }
+
+  return resolveLayout(rootUnits);
+}
+
+/**
+ * Creates a descendant chart: a person, their spouses and everyone
+ * descended from them. Children of collapsed people are left out.
+ */
+export function layoutDescendants(rootPerson: FamilyTreePerson, collapsedIds: Set<number>): TreeLayout {
+  const rootUnit = buildUnit(rootPerson, 0, { placed: new Set<number>(), collapsedIds, descendantsOnly: true });
+  return resolveLayout([rootUnit]);
+}
+
+/**
+ * Sorts a person's parents into father and mother, by gender where known
+ */
+export function getFatherAndMother(person: FamilyTreePerson): [FamilyTreePerson | null, FamilyTreePerson | null] {
+  const parents = uniqueById(person.parents);
+  let father = parents.find(parent => parent.gender === 'male') ?? null;
+  let mother = parents.find(parent => parent.gender === 'female') ?? null;
+
+  // Parents of unknown gender fill whichever slot is free
+  parents.forEach(parent => {
+    if (parent === father || parent === mother) return;
+    if (!father) father = parent;
+    else if (!mother) mother = parent;
+  });
+
+  return [father, mother];
+}
+
+/**
+ * Creates a pedigree chart: a person and their ancestors, one generation
+ * per column from left to right, with each father above the mother.
+ * Missing parents are returned as empty slots.
+ */
+export function layoutPedigree(rootPerson: FamilyTreePerson, generations: number): TreeLayout {
+  const nodes: TreeNode[] = [];
+  const connectors: Connector[] = [];
+  const emptySlots: EmptySlot[] = [];
+
+  // The oldest generation has one slot per ancestor, the rest are centered
+  const height = Math.pow(2, generations - 1) * (NODE_HEIGHT + PEDIGREE_SLOT_SPACING);
+  const slotX = (generation: number) => generation * (NODE_WIDTH + GENERATION_SPACING);
+  const slotCenterY = (generation: number, index: number) => (index + 0.5) * height / Math.pow(2, generation);
+
+  function placeAncestors(person: FamilyTreePerson, generation: number, index: number) {
+    const x = slotX(generation);
+    const centerY = slotCenterY(generation, index);
+    nodes.push({
+      x,
+      y: centerY - NODE_HEIGHT / 2,
+      person,
+      width: NODE_WIDTH,
+      height: NODE_HEIGHT,
+      level: generation
+    });
+
+    if (generation >= generations - 1) return;
+
+    // Bracket from this person to both parent slots
+    const bracketX = x + NODE_WIDTH + GENERATION_SPACING / 2;
+    const fatherY = slotCenterY(generation + 1, index * 2);
+    const motherY = slotCenterY(generation + 1, index * 2 + 1);
+    connectors.push(
+      { type: 'horizontal', x1: x + NODE_WIDTH, y1: centerY, x2: bracketX, y2: centerY },
+      { type: 'vertical', x1: bracketX, y1: fatherY, x2: bracketX, y2: motherY },
+      { type: 'horizontal', x1: bracketX, y1: fatherY, x2: slotX(generation + 1), y2: fatherY },
+      { type: 'horizontal', x1: bracketX, y1: motherY, x2: slotX(generation + 1), y2: motherY }
+    );
+
+    const [father, mother] = getFatherAndMother(person);
+    ([[father, 'father'], [mother, 'mother']] as const).forEach(([parent, role], offset) => {
+      const parentIndex = index * 2 + offset;
+      if (parent) {
+        placeAncestors(parent, generation + 1, parentIndex);
       } else {
-        childXOffset = node.x + (node.width / 2) - 
-                      ((validChildren.length * NODE_WIDTH + (validChildren.length - 1) * SIBLING_SPACING) / 2);
+        emptySlots.push({
+          x: slotX(generation + 1),
+          y: slotCenterY(generation + 1, parentIndex) - NODE_HEIGHT / 2,
+          width: NODE_WIDTH,
+          height: NODE_HEIGHT,
+          childId: person.id,
+          role
+        });
       }
-      
-      // Ensure at least 0 offset
-      childXOffset = Math.max(0, childXOffset);
-      
-      // Add vertical connector from parent to children
-      const parentY = node.y + node.height;
-      let centerX: number;
-      
-      if (node.spouse) {
-        centerX = node.x + ((node.spouse.x + node.spouse.width - node.x) / 2);
+    });
+  }
+
+  placeAncestors(rootPerson, 0, 0);
+
+  return {
+    nodes,
+    connectors,
+    emptySlots,
+    dimensions: {
+      width: slotX(generations - 1) + NODE_WIDTH,
+      height
+    }
+  };
+}
+
+/**
+ * Creates an hourglass chart: a person beside their spouses, with up to
+ * `ancestorDepth` generations of ancestors above and `descendantDepth`
+ * generations of descendants below
+ */
+export function layoutHourglass(focusPerson: FamilyTreePerson, ancestorDepth: number, descendantDepth: number): TreeLayout {
+  const placed = new Set<number>();
+  const descendants = resolveLayout([
+    buildUnit(focusPerson, 0, { placed, descendantsOnly: true, maxDepth: descendantDepth })
+  ]);
+
+  // Ancestors form a tree of their own growing upwards, where each
+  // person's "children" are their father and mother
+  function buildAncestorUnit(person: FamilyTreePerson, generation: number): FamilyUnit {
+    const unit: FamilyUnit = {
+      members: [person],
+      headIndex: 0,
+      width: NODE_WIDTH,
+      childGroups: [],
+      linkedSpouses: [],
+      level: generation,
+      x: 0,
+      contour: { left: [], right: [] }
+    };
+    if (generation >= ancestorDepth) return unit;
+
+    const group: ChildGroup = { dropX: NODE_WIDTH / 2, units: [], linked: [] };
+    getFatherAndMother(person).forEach(parent => {
+      if (!parent) return;
+      if (placed.has(parent.id)) {
+        group.linked.push(parent);
       } else {
-        centerX = node.x + (node.width / 2);
+        placed.add(parent.id);
+        group.units.push(buildAncestorUnit(parent, generation + 1));
       }
-      
-      connectors.push({
-        type: 'vertical',
-        x1: centerX,
-        y1: parentY,
-        x2: centerX,
-        y2: parentY + LEVEL_HEIGHT / 2
+    });
+    if (group.units.length > 0 || group.linked.length > 0) {
+      unit.childGroups.push(group);
+    }
+    return unit;
+  }
+
+  const ancestorRoot = buildAncestorUnit(focusPerson, 0);
+  measureUnit(ancestorRoot);
+
+  const nodes = [...descendants.nodes];
+  const connectors = [...descendants.connectors];
+  const nodesById = new Map(nodes.map(node => [node.person.id, node]));
+  const focusNode = nodesById.get(focusPerson.id)!;
+
+  // Resolve ancestor positions top-down from the focus person, whose node
+  // is already placed, then connect each person up to their parents
+  ancestorRoot.x = focusNode.x;
+  const stack = [ancestorRoot];
+  const units: FamilyUnit[] = [];
+  while (stack.length > 0) {
+    const unit = stack.pop()!;
+    units.push(unit);
+    if (unit !== ancestorRoot) {
+      const node: TreeNode = {
+        x: unit.x,
+        y: -unit.level * LEVEL_HEIGHT,
+        person: unit.members[0],
+        width: NODE_WIDTH,
+        height: NODE_HEIGHT,
+        level: -unit.level
+      };
+      nodes.push(node);
+      nodesById.set(node.person.id, node);
+    }
+    unit.childGroups.forEach(group => {
+      group.units.forEach(parent => {
+        parent.x += unit.x;
+        stack.push(parent);
       });
-      
-      // Add horizontal connector to span all children
-      if (validChildren.length > 1) {
-        const firstChildX = childXOffset + (NODE_WIDTH / 2);
-        const lastChildX = childXOffset + (validChildren.length * NODE_WIDTH) + 
-                          ((validChildren.length - 1) * SIBLING_SPACING) - (NODE_WIDTH / 2);
-        
-        connectors.push({
-          type: 'horizontal',
-          x1: firstChildX,
-          y1: parentY + LEVEL_HEIGHT / 2,
-          x2: lastChildX,
-          y2: parentY + LEVEL_HEIGHT / 2
-        });
+    });
+  }
+
+  units.forEach(unit => {
+    unit.childGroups.forEach(group => {
+      const childX = unit.x + group.dropX;
+      const childTop = -unit.level * LEVEL_HEIGHT;
+      const busY = childTop - (LEVEL_HEIGHT - NODE_HEIGHT) / 2;
+      const parentBottom = childTop - (LEVEL_HEIGHT - NODE_HEIGHT);
+
+      connectors.push({ type: 'vertical', x1: childX, y1: busY, x2: childX, y2: childTop });
+
+      const parentXs = group.units.map(parent => parent.x + NODE_WIDTH / 2);
+      if (parentXs.length > 0) {
+        const busLeft = Math.min(childX, ...parentXs);
+        const busRight = Math.max(childX, ...parentXs);
+        if (busRight > busLeft) {
+          connectors.push({ type: 'horizontal', x1: busLeft, y1: busY, x2: busRight, y2: busY });
+        }
       }
-      
-      // Process each child
-      validChildren.forEach((child, index) => {
-        const childX = childXOffset + (index * (NODE_WIDTH + SIBLING_SPACING));
-        const childNode = processNode(child, level + 1, childX);
-        node.children?.push(childNode);
-        
-        // Add vertical connector from horizontal line to child
+      parentXs.forEach(parentX => {
+        connectors.push({ type: 'vertical', x1: parentX, y1: parentBottom, x2: parentX, y2: busY });
+      });
+
+      group.linked.forEach(parent => {
+        const parentNode = nodesById.get(parent.id);
+        if (!parentNode) return;
         connectors.push({
-          type: 'vertical',
-          x1: childX + (NODE_WIDTH / 2),
-          y1: parentY + LEVEL_HEIGHT / 2,
-          x2: childX + (NODE_WIDTH / 2),
-          y2: childNode.y
+          type: 'link',
+          x1: childX,
+          y1: busY,
+          x2: parentNode.x + parentNode.width / 2,
+          y2: parentNode.y + parentNode.height
         });
-        
-        // Update the maximum width and height
-        maxWidth = Math.max(maxWidth, childX + NODE_WIDTH);
-        maxHeight = Math.max(maxHeight, childNode.y + NODE_HEIGHT);
       });
-    }
-    
-    // Update the maximum dimensions
-    maxWidth = Math.max(maxWidth, xOffset + totalWidth);
-    maxHeight = Math.max(maxHeight, level * LEVEL_HEIGHT + NODE_HEIGHT);
-    
-    return node;
-  }
+    });
+  });
 
-  // Process each root person
-  let xPos = 0;
-  rootPersons.forEach(rootPerson => {
-    const node = processNode(rootPerson, 0, xPos);
-    xPos = maxWidth + SIBLING_SPACING;
+  // Shift everything so the chart starts at the origin
+  let minX = 0;
+  let minY = 0;
+  nodes.forEach(node => {
+    minX = Math.min(minX, node.x);
+    minY = Math.min(minY, node.y);
+  });
+
+  let maxWidth = 0;
+  let maxHeight = 0;
+  const shiftedNodes = nodes.map(node => {
+    const shifted = { ...node, x: node.x - minX, y: node.y - minY };
+    maxWidth = Math.max(maxWidth, shifted.x + shifted.width);
+    maxHeight = Math.max(maxHeight, shifted.y + shifted.height);
+    return shifted;
   });
 
   return {
-    nodes,
-    connectors,
+    nodes: shiftedNodes,
+    connectors: connectors.map(connector => ({
+      ...connector,
+      x1: connector.x1 - minX,
+      y1: connector.y1 - minY,
+      x2: connector.x2 - minX,
+      y2: connector.y2 - minY
+    })),
     dimensions: {
       width: maxWidth,
       height: maxHeight
@@ -1,13 +1,12 @@
 import { Person, Relationship, FamilyTreePerson, FamilyTreeData } from "@shared/schema";
 
 /**
- * Builds a hierarchical tree structure from flat person and relationship data
+ * Links every person to their relatives
  * @param data The family tree data with persons and relationships arrays
- * @returns The root person or undefined if no data
+ * @returns All persons by ID, with children, parents, spouses and siblings filled in
  */
-export function buildFamilyTree(data: FamilyTreeData): FamilyTreePerson[] {
+export function buildPersonsMap(data: FamilyTreeData): Map<number, FamilyTreePerson> {
   const { persons, relationships } = data;
-  if (!persons.length) return [];
 
   // Create a map of all persons by ID for quick lookup
   const personsMap = new Map<number, FamilyTreePerson>();
@@ -44,6 +43,20 @@ export function buildFamilyTree(data: FamilyTreeData): FamilyTreePerson[] {
     }
   });
 
+  return personsMap;
+}
+
+/**
+ * Builds a hierarchical tree structure from flat person and relationship data
+ * @param data The family tree data with persons and relationships arrays
+ * @returns The root person or undefined if no data
+ */
+export function buildFamilyTree(data: FamilyTreeData): FamilyTreePerson[] {
+  const { persons, relationships } = data;
+  if (!persons.length) return [];
+
+  const personsMap = buildPersonsMap(data);
+
   // Find the root persons (those who have no parents or have the most descendants)
   const personsWithParents = new Set<number>();
   relationships
@@ -57,6 +70,24 @@ export function buildFamilyTree(data: FamilyTreeData): FamilyTreePerson[] {
   return rootCandidates.map(p => personsMap.get(p.id)!).sort((a, b) => a.id - b.id);
 }
 
+/**
+ * Counts everyone descended from a person
+ * @param person A person linked to their relatives
+ * @returns The number of distinct descendants
+ */
+export function countDescendants(person: FamilyTreePerson): number {
+  const seen = new Set<number>([person.id]);
+  const queue = [person];
+  for (let index = 0; index < queue.length; index++) {
+    queue[index].children?.forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      queue.push(child);
+    });
+  }
+  return seen.size - 1;
+}
+
 /**
  * Gets a flat list of relationships from a hierarchical tree
  * @param tree The hierarchical family tree
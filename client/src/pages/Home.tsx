@@ -2,10 +2,15 @@ import { useState, useRef } from "react";
 import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
 import FamilyTreeView from "@/components/FamilyTreeView";
-import PersonForm from "@/components/PersonForm";
-import { useFamilyTree } from "@/context/FamilyTreeContext";
-import { Person, PersonForm as PersonFormType } from "@shared/schema";
+import PersonForm, { NewPersonDefaults } from "@/components/PersonForm";
+import GedcomReportDialog from "@/components/GedcomReportDialog";
+import ImportReviewDialog from "@/components/ImportReviewDialog";
+import { useFamilyTree, ImportMode } from "@/context/FamilyTreeContext";
+import { Person, PersonForm as PersonFormType, FamilyTreeData, ImportMerge } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { decodeGedcom, parseGedcom, GedcomImportReport } from "@/lib/gedcom";
+import { parseImportedTreeData } from "@/lib/treeUtils";
 
 export default function Home() {
   const { isLoading } = useFamilyTree();
@@ -14,11 +19,19 @@ export default function Home() {
     window.innerWidth >= 768 // Default open on desktop
   );
   const [editPerson, setEditPerson] = useState<Person | null>(null);
+  const [newPersonDefaults, setNewPersonDefaults] = useState<NewPersonDefaults | null>(null);
+  const [gedcomReport, setGedcomReport] = useState<GedcomImportReport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('append');
+  const [pendingImport, setPendingImport] = useState<{
+    data: FamilyTreeData;
+    report: GedcomImportReport | null;
+  } | null>(null);
+  const { toast } = useToast();
   
   // Reference to file input for importing
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const { importFamilyTree } = useFamilyTree();
+  const { importFamilyTree, importGedcom, importData } = useFamilyTree();
   
   const handleToggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -26,22 +39,87 @@ export default function Home() {
   
   const handleOpenPersonModal = (person: Person | null = null) => {
     setEditPerson(person);
+    setNewPersonDefaults(null);
+    setIsModalOpen(true);
+  };
+  
+  // Adds a missing parent from a pedigree chart
+  const handleAddParent = (child: Person, role: 'father' | 'mother') => {
+    setEditPerson(null);
+    setNewPersonDefaults({
+      gender: role === 'father' ? 'male' : 'female',
+      relationshipType: 'parent',
+      relatedPersonId: child.id
+    });
     setIsModalOpen(true);
   };
   
   const handleClosePersonModal = () => {
     setEditPerson(null);
+    setNewPersonDefaults(null);
     setIsModalOpen(false);
   };
   
-  const handleImportClick = () => {
+  const handleImportClick = (mode: ImportMode) => {
+    setImportMode(mode);
     fileInputRef.current?.click();
   };
   
+  // In merge mode the file is parsed up front so duplicates can be reviewed
+  // before anything is written
+  const prepareMergeImport = async (file: File) => {
+    if (file.name.toLowerCase().endsWith('.ged')) {
+      const { text, encoding } = decodeGedcom(await file.arrayBuffer());
+      const { data, report } = parseGedcom(text, encoding);
+      return data.persons.length > 0 ? { data, report } : null;
+    }
+    
+    const data = parseImportedTreeData(await file.text());
+    return data ? { data, report: null } : null;
+  };
+  
+  const handleConfirmMerge = async (merges: ImportMerge[]) => {
+    if (!pendingImport) return;
+    
+    const { data, report } = pendingImport;
+    setPendingImport(null);
+    const result = await importData(data, merges);
+    if (result && report) {
+      setGedcomReport(report);
+    }
+  };
+  
   const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
+    if (importMode === 'merge') {
+      const prepared = await prepareMergeImport(file);
+      if (prepared) {
+        setPendingImport(prepared);
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to read import file. Please check the file format.",
+          variant: "destructive"
+        });
+      }
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      return;
+    }
+    
+    // GEDCOM files are decoded by the importer, which handles their encodings
+    if (file.name.toLowerCase().endsWith('.ged')) {
+      const report = await importGedcom(await file.arrayBuffer());
+      setGedcomReport(report);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      return;
+    }
+    
     const reader = new FileReader();
     reader.onload = async (event) => {
       const jsonData = event.target?.result as string;
@@ -82,6 +160,7 @@ export default function Home() {
           ) : (
             <FamilyTreeView 
               onPersonClick={(person) => handleOpenPersonModal(person)}
+              onAddParent={handleAddParent}
             />
           )}
           
@@ -100,6 +179,7 @@ export default function Home() {
         <PersonForm 
           isOpen={isModalOpen}
           person={editPerson}
+          defaults={newPersonDefaults}
           onClose={handleClosePersonModal}
         />
         
@@ -108,9 +188,20 @@ export default function Home() {
           type="file" 
           ref={fileInputRef} 
           onChange={handleFileImport} 
-          accept=".json" 
+          accept=".json,.ged" 
           className="hidden" 
         />
+        
+        <ImportReviewDialog 
+          importedData={pendingImport?.data ?? null}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleConfirmMerge}
+        />
+        
+        <GedcomReportDialog 
+          report={gedcomReport}
+          onClose={() => setGedcomReport(null)}
+        />
       </div>
     </div>
   );
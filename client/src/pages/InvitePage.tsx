@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { TreeInvitePreview, UserTree } from "@shared/schema";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { rememberCurrentTree } from "@/context/FamilyTreeContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+const ROLE_DESCRIPTIONS = {
+  viewer: 'look at',
+  editor: 'view and edit',
+  owner: 'view, edit and manage'
+};
+
+/**
+ * Shows what an invite link grants and joins its tree when accepted
+ */
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const { data: invite, error, isLoading } = useQuery<TreeInvitePreview>({
+    queryKey: [`/api/invites/${token}`],
+  });
+
+  const handleAccept = async () => {
+    try {
+      setIsAccepting(true);
+      const response = await apiRequest('POST', `/api/invites/${token}/accept`);
+      const tree: UserTree = await response.json();
+      rememberCurrentTree(tree.id);
+      navigate('/');
+    } catch (acceptError) {
+      console.error('Error accepting invite:', acceptError);
+      toast({
+        title: "Error",
+        description: getErrorMessage(acceptError as Error),
+        variant: "destructive"
+      });
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="pt-6 space-y-2">
+            <Skeleton className="h-6 w-2/3" />
+            <Skeleton className="h-4 w-full" />
+          </CardContent>
+        ) : invite ? (
+          <>
+            <CardHeader>
+              <CardTitle>Join {invite.treeName}</CardTitle>
+              <CardDescription>
+                You've been invited as {invite.role === 'viewer' ? 'a' : 'an'} {invite.role}, so you'll be able
+                to {ROLE_DESCRIPTIONS[invite.role]} this family tree. The invite can be used
+                once, until {new Date(invite.expiresAt).toLocaleDateString()}.
+              </CardDescription>
+            </CardHeader>
+            <CardFooter className="justify-end space-x-2">
+              <Button variant="outline" onClick={() => navigate('/')}>
+                Not now
+              </Button>
+              <Button onClick={handleAccept} disabled={isAccepting}>
+                {isAccepting ? 'Joining...' : 'Join tree'}
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Invite unavailable</CardTitle>
+              <CardDescription>
+                {error ? getErrorMessage(error) : 'Invite not found'}. Ask the person who shared the
+                tree for a new link.
+              </CardDescription>
+            </CardHeader>
+            <CardFooter className="justify-end">
+              <Button onClick={() => navigate('/')}>Go to my trees</Button>
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
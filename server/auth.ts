@@ -0,0 +1,159 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import { insertUserSchema, type User as StoredUser, type PublicUser, type Tree, type TreeRole } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hashes a password with a random salt, stored together as "hash.salt"
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+function toPublicUser({ password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+/**
+ * Rejects requests without a logged in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+}
+
+/**
+ * The role a user has in a tree: its creator owns it, anyone else needs a
+ * membership
+ */
+export async function getTreeRoleForUser(tree: Tree, userId: number): Promise<TreeRole | undefined> {
+  if (tree.ownerId === userId) return "owner";
+  return (await storage.getTreeMembership(tree.id, userId))?.role;
+}
+
+/**
+ * Sets up session cookies and the registration, login and logout endpoints.
+ * Returns the session middleware, for requests that don't go through Express.
+ */
+export function setupAuth(app: Express): RequestHandler {
+  // Without a configured secret, sessions only last until the server restarts
+  const sessionSecret = process.env.SESSION_SECRET ?? randomBytes(32).toString("hex");
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: StoredUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  return sessionMiddleware;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { UNOWNED_TREE_OWNER_ID } from "@shared/schema";
+import { upgradeDatabase, type Database } from "./db";
+import { DatabaseStorage } from "./storage";
+import { createTestDatabase } from "./testDatabase";
+
+// The tables as `npm run db:push` created them before multiple trees
+const singleTreeTables = [
+  `CREATE TABLE persons (
+    id serial PRIMARY KEY,
+    name text NOT NULL,
+    gender text,
+    birth_date date,
+    birth_place text,
+    death_date date,
+    notes text
+  )`,
+  `CREATE TABLE relationships (
+    id serial PRIMARY KEY,
+    type text NOT NULL,
+    person_id integer NOT NULL,
+    related_person_id integer NOT NULL
+  )`
+];
+
+// ...and before user accounts
+const ownerlessTreeTables = [
+  `CREATE TABLE trees (id serial PRIMARY KEY, name text NOT NULL, description text)`,
+  `CREATE TABLE persons (id serial PRIMARY KEY, tree_id integer NOT NULL, name text NOT NULL)`,
+  `CREATE TABLE relationships (
+    id serial PRIMARY KEY,
+    tree_id integer NOT NULL,
+    type text NOT NULL,
+    person_id integer NOT NULL,
+    related_person_id integer NOT NULL
+  )`
+];
+
+async function query(db: Database, text: string) {
+  return (await db.$client.query(text)).rows;
+}
+
+describe("upgradeDatabase", () => {
+  it("moves everyone from before multiple trees into an unowned first tree", async () => {
+    const db = await createTestDatabase(singleTreeTables);
+    await query(db, "INSERT INTO persons (name) VALUES ('John'), ('Mary')");
+    await query(db, "INSERT INTO relationships (type, person_id, related_person_id) VALUES ('spouse', 1, 2), ('spouse', 2, 1)");
+
+    await upgradeDatabase(db);
+
+    const trees = await query(db, "SELECT id, name, owner_id FROM trees");
+    expect(trees).toEqual([{ id: expect.any(Number), name: "My Family Tree", owner_id: UNOWNED_TREE_OWNER_ID }]);
+    const [{ id: treeId }] = trees;
+    expect(await query(db, "SELECT name, tree_id FROM persons ORDER BY id")).toEqual([
+      { name: "John", tree_id: treeId },
+      { name: "Mary", tree_id: treeId }
+    ]);
+    expect(await query(db, "SELECT tree_id FROM relationships")).toEqual([{ tree_id: treeId }, { tree_id: treeId }]);
+
+    // Only now can the columns be required
+    await expect(query(db, "INSERT INTO persons (name) VALUES ('Nobody')")).rejects.toThrow();
+    await expect(query(db, "INSERT INTO trees (name) VALUES ('Nobody''s')")).rejects.toThrow();
+  });
+
+  it("gives trees from before user accounts no owner", async () => {
+    const db = await createTestDatabase(ownerlessTreeTables);
+    await query(db, "INSERT INTO trees (name) VALUES ('Smiths'), ('Joneses')");
+
+    await upgradeDatabase(db);
+
+    expect(await query(db, "SELECT name, owner_id FROM trees ORDER BY id")).toEqual([
+      { name: "Smiths", owner_id: UNOWNED_TREE_OWNER_ID },
+      { name: "Joneses", owner_id: UNOWNED_TREE_OWNER_ID }
+    ]);
+  });
+
+  it("hands unowned trees to the first account", async () => {
+    const db = await createTestDatabase();
+    await query(db, `INSERT INTO trees (name, owner_id) VALUES ('Smiths', ${UNOWNED_TREE_OWNER_ID})`);
+    const storage = new DatabaseStorage(db);
+
+    const first = await storage.createUser({ username: "ann", password: "hash" });
+    const second = await storage.createUser({ username: "bob", password: "hash" });
+
+    expect((await storage.getTreesForUser(first.id)).map(tree => tree.name)).toEqual(["Smiths"]);
+    expect(await storage.getTreesForUser(second.id)).toEqual([]);
+  });
+
+  it("leaves new and up-to-date databases alone", async () => {
+    const empty = await createTestDatabase([]);
+    await upgradeDatabase(empty);
+    expect(await query(empty, "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'")).toEqual([]);
+
+    const current = await createTestDatabase();
+    await upgradeDatabase(current);
+    expect(await query(current, "SELECT * FROM trees")).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { Pool, type PoolClient } from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import { UNOWNED_TREE_OWNER_ID } from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: Pool };
+
+/**
+ * Opens a connection pool to the PostgreSQL database at the given URL.
+ * Any server speaking the Postgres wire protocol works here, including a
+ * local instance, so the same storage can be used in development and tests.
+ */
+export function createDatabase(connectionString: string): Database {
+  const pool = new Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+async function hasColumn(client: PoolClient, table: string, column: string): Promise<boolean> {
+  const result = await client.query(
+    "SELECT column_name FROM information_schema.columns WHERE table_name = $1 AND column_name = $2",
+    [table, column]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Brings a database from before multiple trees or user accounts up to where
+ * `npm run db:push` can add the rest. Their NOT NULL columns have no default,
+ * so push would fail on (or empty) tables that already have rows. As SQLite
+ * does, everyone goes into a first tree, owned by nobody until the first
+ * account is created. Does nothing to a new or up-to-date database.
+ */
+export async function upgradeDatabase(db: Database) {
+  const client = await db.$client.connect();
+  try {
+    await client.query("BEGIN");
+
+    if (await hasColumn(client, "persons", "id") && !await hasColumn(client, "persons", "tree_id")) {
+      await client.query(`CREATE TABLE IF NOT EXISTS trees (
+        id serial PRIMARY KEY,
+        name text NOT NULL,
+        description text
+      )`);
+      const { rows: [tree] } = await client.query(
+        "INSERT INTO trees (name) VALUES ('My Family Tree') RETURNING id"
+      );
+      for (const table of ["persons", "relationships"]) {
+        await client.query(`ALTER TABLE ${table} ADD COLUMN tree_id integer`);
+        await client.query(`UPDATE ${table} SET tree_id = $1`, [tree.id]);
+        await client.query(`ALTER TABLE ${table} ALTER COLUMN tree_id SET NOT NULL`);
+      }
+    }
+
+    if (await hasColumn(client, "trees", "id") && !await hasColumn(client, "trees", "owner_id")) {
+      await client.query("ALTER TABLE trees ADD COLUMN owner_id integer");
+      await client.query("UPDATE trees SET owner_id = $1", [UNOWNED_TREE_OWNER_ID]);
+      await client.query("ALTER TABLE trees ALTER COLUMN owner_id SET NOT NULL");
+    }
+
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
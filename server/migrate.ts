@@ -0,0 +1,10 @@
+import { createDatabase, upgradeDatabase } from "./db";
+
+// Run by `npm run db:push` before drizzle-kit brings the tables up to date
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL, ensure the database is provisioned");
+}
+
+// A failed upgrade rejects, which stops the script (and the push) with the error
+const db = createDatabase(process.env.DATABASE_URL);
+upgradeDatabase(db).finally(() => db.$client.end());
@@ -0,0 +1,221 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response, RequestHandler } from "express";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { type User, type TreeRole, hasTreeRole } from "@shared/schema";
+import {
+  TREE_EVENTS_PATH, ACCESS_REVOKED_CLOSE_CODE,
+  type PresenceEntry, type ServerMessage, type TreeEvent
+} from "@shared/realtime";
+import { storage } from "./storage";
+import { getTreeRoleForUser } from "./auth";
+import { log } from "./vite";
+
+// Sockets that stop answering pings are dropped, taking their presence along
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const clientMessageSchema = z.object({
+  type: z.literal("presence"),
+  personId: z.number().nullable(),
+  mode: z.enum(["viewing", "editing"]),
+});
+
+type Connection = {
+  socket: WebSocket;
+  treeId: number;
+  canEdit: boolean;
+  presence: PresenceEntry;
+  isAlive: boolean;
+};
+
+const connections = new Set<Connection>();
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(treeId: number, message: ServerMessage) {
+  connections.forEach(connection => {
+    if (connection.treeId === treeId) send(connection.socket, message);
+  });
+}
+
+function broadcastPresence(treeId: number) {
+  const entries = Array.from(connections)
+    .filter(connection => connection.treeId === treeId)
+    .map(connection => connection.presence);
+  broadcast(treeId, { type: "presence", entries });
+}
+
+/**
+ * Tells everyone with the tree open, including the user who made the
+ * change, what changed
+ */
+export function broadcastTreeEvents(treeId: number, actor: User, events: TreeEvent[]) {
+  events.forEach(event => {
+    broadcast(treeId, {
+      type: "tree-event",
+      event,
+      actor: { userId: actor.id, username: actor.username }
+    });
+  });
+}
+
+/**
+ * Brings the open sockets of a tree in line with who may still see it,
+ * after a user's role changes, they leave or are removed, or the tree is
+ * deleted. Without a user, every socket of the tree is checked. Sockets
+ * of users without access are closed; the others are told their role, and
+ * those who can no longer edit stop showing as editing.
+ */
+export async function refreshTreeAccess(treeId: number, userId?: number) {
+  const affected = Array.from(connections).filter(connection =>
+    connection.treeId === treeId && (userId === undefined || connection.presence.userId === userId)
+  );
+  if (affected.length === 0) return;
+
+  const tree = await storage.getTree(treeId);
+  const roles = new Map<number, TreeRole | undefined>();
+  for (const connection of affected) {
+    const connectionUserId = connection.presence.userId;
+    if (!roles.has(connectionUserId)) {
+      roles.set(connectionUserId, tree && await getTreeRoleForUser(tree, connectionUserId));
+    }
+
+    const role = roles.get(connectionUserId);
+    if (!role) {
+      // Dropped right away, so no more events reach it while it closes
+      connections.delete(connection);
+      connection.socket.close(ACCESS_REVOKED_CLOSE_CODE, "No access to this tree");
+      continue;
+    }
+
+    connection.canEdit = hasTreeRole(role, "editor");
+    if (!connection.canEdit) {
+      connection.presence = { ...connection.presence, mode: "viewing" };
+    }
+    send(connection.socket, { type: "access-changed", role });
+  }
+  broadcastPresence(treeId);
+}
+
+// Runs the session middleware on an upgrade request to find its user
+function getSessionUserId(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, () => {
+      const session = request.session as { passport?: { user?: number } } | undefined;
+      resolve(session?.passport?.user);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function handleConnection(socket: WebSocket, treeId: number, user: User, canEdit: boolean) {
+  const connection: Connection = {
+    socket,
+    treeId,
+    canEdit,
+    presence: {
+      connectionId: randomUUID(),
+      userId: user.id,
+      username: user.username,
+      personId: null,
+      mode: "viewing"
+    },
+    isAlive: true
+  };
+  connections.add(connection);
+  send(socket, { type: "welcome", connectionId: connection.presence.connectionId });
+  broadcastPresence(treeId);
+
+  socket.on("pong", () => {
+    connection.isAlive = true;
+  });
+
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(raw.toString()));
+    } catch {
+      return;
+    }
+
+    // Viewers can look at people but not edit them
+    connection.presence = {
+      ...connection.presence,
+      personId: message.personId,
+      mode: connection.canEdit ? message.mode : "viewing"
+    };
+    broadcastPresence(treeId);
+  });
+
+  socket.on("close", () => {
+    connections.delete(connection);
+    broadcastPresence(treeId);
+  });
+}
+
+/**
+ * Accepts WebSocket connections for the live changes and presence of a
+ * tree, from logged in users with access to it. Other upgrade requests,
+ * such as Vite's during development, are left alone.
+ */
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== TREE_EVENTS_PATH) return;
+
+    let access: { user: User; treeId: number; canEdit: boolean };
+    try {
+      const userId = await getSessionUserId(req, sessionMiddleware);
+      const user = userId === undefined ? undefined : await storage.getUser(userId);
+      if (!user) {
+        return rejectUpgrade(socket, "401 Unauthorized");
+      }
+
+      const treeId = parseInt(url.searchParams.get("treeId") ?? "");
+      const tree = isNaN(treeId) ? undefined : await storage.getTree(treeId);
+      if (!tree) {
+        return rejectUpgrade(socket, "404 Not Found");
+      }
+
+      const role = await getTreeRoleForUser(tree, user.id);
+      if (!role) {
+        return rejectUpgrade(socket, "403 Forbidden");
+      }
+
+      access = { user, treeId: tree.id, canEdit: hasTreeRole(role, "editor") };
+    } catch (error) {
+      log(`Error opening tree events socket: ${error}`, "realtime");
+      return rejectUpgrade(socket, "500 Internal Server Error");
+    }
+
+    // Past this point the socket is a WebSocket and can't be sent an HTTP error
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, access.treeId, access.user, access.canEdit);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    connections.forEach(connection => {
+      if (!connection.isAlive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      connection.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+let server: Server;
+let baseUrl: string;
+let userCount = 0;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+type ApiResponse = { status: number; headers: Headers; body: any };
+
+/**
+ * Registers a new user and returns a client that sends their session
+ * cookie with every request
+ */
+async function createUser() {
+  let cookie = "";
+  const request = async (method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<ApiResponse> => {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { "Content-Type": "application/json", Cookie: cookie, ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    cookie = response.headers.get("set-cookie")?.split(";")[0] ?? cookie;
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+  };
+
+  const { body: user } = await request("POST", "/api/register", { username: `user${++userCount}`, password: "password" });
+  return { ...user as { id: number; username: string }, request };
+}
+
+async function createTree(owner: Awaited<ReturnType<typeof createUser>>) {
+  const { body: tree } = await owner.request("POST", "/api/trees", { name: "Family" });
+  return tree.id as number;
+}
+
+describe("invites", () => {
+  it("lets one person join with an invite and turns away the next", async () => {
+    const owner = await createUser();
+    const treeId = await createTree(owner);
+    const { body: invite } = await owner.request("POST", `/api/trees/${treeId}/invites`, { role: "editor" });
+
+    const first = await createUser();
+    const accepted = await first.request("POST", `/api/invites/${invite.token}/accept`);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body).toMatchObject({ id: treeId, role: "editor" });
+
+    const second = await createUser();
+    expect((await second.request("POST", `/api/invites/${invite.token}/accept`)).status).toBe(404);
+    expect((await second.request("GET", `/api/trees/${treeId}/familytree`)).status).toBe(403);
+    expect((await owner.request("GET", `/api/trees/${treeId}/invites`)).body).toEqual([]);
+  });
+
+  it("leaves an invite for others when it gives nothing new", async () => {
+    const owner = await createUser();
+    const treeId = await createTree(owner);
+    const { body: invite } = await owner.request("POST", `/api/trees/${treeId}/invites`, { role: "viewer" });
+
+    // The owner trying their own link, then a member who already has more access
+    expect((await owner.request("POST", `/api/invites/${invite.token}/accept`)).body).toMatchObject({ role: "owner" });
+    const editor = await createUser();
+    const { body: editorInvite } = await owner.request("POST", `/api/trees/${treeId}/invites`, { role: "editor" });
+    await editor.request("POST", `/api/invites/${editorInvite.token}/accept`);
+    expect((await editor.request("POST", `/api/invites/${invite.token}/accept`)).body).toMatchObject({ role: "editor" });
+
+    const joined = await createUser();
+    expect((await joined.request("POST", `/api/invites/${invite.token}/accept`)).body).toMatchObject({ role: "viewer" });
+  });
+});
+
+describe("conditional person updates", () => {
+  async function createPerson() {
+    const owner = await createUser();
+    const treeId = await createTree(owner);
+    const created = await owner.request("POST", `/api/trees/${treeId}/persons`, { name: "Mary" });
+    const url = `/api/trees/${treeId}/persons/${created.body.id}`;
+    const update = (name: string, headers?: Record<string, string>) => owner.request("PUT", url, { name }, headers);
+    return { owner, url, etag: created.headers.get("ETag"), update };
+  }
+
+  it("saves an update whose If-Match is the current ETag and sends the next one", async () => {
+    const { owner, url, etag, update } = await createPerson();
+    expect(etag).toBe('"1"');
+
+    const updated = await update("Mary Ann", { "If-Match": etag! });
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get("ETag")).toBe('"2"');
+    expect(updated.body).toMatchObject({ name: "Mary Ann", version: 2 });
+    expect((await owner.request("GET", url)).headers.get("ETag")).toBe('"2"');
+  });
+
+  it("refuses an update based on a stale ETag with the current person", async () => {
+    const { url, etag, update, owner } = await createPerson();
+    await update("Mary Ann", { "If-Match": etag! });
+
+    const conflict = await update("Maria", { "If-Match": etag! });
+    expect(conflict.status).toBe(409);
+    expect(conflict.headers.get("ETag")).toBe('"2"');
+    expect(conflict.body).toMatchObject({ code: "version-conflict", person: { name: "Mary Ann", version: 2 } });
+    expect((await owner.request("GET", url)).body).toMatchObject({ name: "Mary Ann", version: 2 });
+  });
+
+  it.each<{ header: string; headers: Record<string, string> }>([
+    { header: "none", headers: {} },
+    { header: "*", headers: { "If-Match": "*" } }
+  ])("saves an update with If-Match $header over whatever is there", async ({ headers }) => {
+    const { etag, update } = await createPerson();
+    await update("Mary Ann", { "If-Match": etag! });
+
+    const updated = await update("Maria", headers);
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ name: "Maria", version: 3 });
+  });
+
+  it("rejects an If-Match that is not a person's ETag", async () => {
+    const { update } = await createPerson();
+    expect((await update("Maria", { "If-Match": "yesterday" })).status).toBe(400);
+  });
+});
+
+describe("new relationships", () => {
+  // Ann and Bob are the parents of Cal, who is the parent of Dee; Eve isn't related
+  async function createFamily() {
+    const owner = await createUser();
+    const treeId = await createTree(owner);
+    const ids: Record<string, number> = {};
+    for (const name of ["Ann", "Bob", "Cal", "Dee", "Eve"]) {
+      ids[name] = (await owner.request("POST", `/api/trees/${treeId}/persons`, { name })).body.id;
+    }
+    for (const [parent, child] of [["Ann", "Cal"], ["Bob", "Cal"], ["Cal", "Dee"]]) {
+      await owner.request("POST", `/api/trees/${treeId}/relationships`, { type: "parent", personId: ids[parent], relatedPersonId: ids[child] });
+    }
+    const relationshipCount = async () =>
+      (await owner.request("GET", `/api/trees/${treeId}/familytree`)).body.relationships.length;
+    return { owner, treeId, ids, relationshipCount };
+  }
+
+  it.each([
+    { name: "a third parent", type: "parent", from: "Eve", to: "Cal", status: 400, code: "too-many-parents" },
+    { name: "a descendant as parent", type: "child", from: "Ann", to: "Dee", status: 400, code: "ancestry-cycle" },
+    { name: "a relationship with oneself", type: "spouse", from: "Eve", to: "Eve", status: 400, code: "self-relationship" },
+    { name: "an existing parent from the child", type: "child", from: "Cal", to: "Ann", status: 409, code: "duplicate-relationship" },
+    { name: "someone not in the tree", type: "spouse", from: "Eve", to: "Nobody", status: 404, code: "person-not-found" }
+  ])("refuses $name without saving anything", async ({ type, from, to, status, code }) => {
+    const { owner, treeId, ids, relationshipCount } = await createFamily();
+    const body = { type, personId: ids[from], relatedPersonId: ids[to] ?? 9999 };
+    const before = await relationshipCount();
+
+    const checked = await owner.request("POST", `/api/trees/${treeId}/relationships/check`, body);
+    expect(checked.status).toBe(status);
+    expect(checked.body).toMatchObject({ code });
+
+    const created = await owner.request("POST", `/api/trees/${treeId}/relationships`, body);
+    expect(created.status).toBe(status);
+    expect(created.body).toMatchObject({ code });
+    expect(await relationshipCount()).toBe(before);
+  });
+
+  it("accepts a valid relationship and saves it with its reciprocal", async () => {
+    const { owner, treeId, ids, relationshipCount } = await createFamily();
+    const body = { type: "spouse", personId: ids.Cal, relatedPersonId: ids.Eve };
+    const before = await relationshipCount();
+
+    expect((await owner.request("POST", `/api/trees/${treeId}/relationships/check`, body)).status).toBe(204);
+    expect(await relationshipCount()).toBe(before);
+
+    const created = await owner.request("POST", `/api/trees/${treeId}/relationships`, body);
+    expect(created.status).toBe(201);
+    expect(created.body.relationship).toMatchObject(body);
+    expect(await relationshipCount()).toBe(before + 2);
+  });
+
+  it("checks a relationship for a person who isn't saved yet", async () => {
+    const { owner, treeId, ids } = await createFamily();
+    const check = (body: object) => owner.request("POST", `/api/trees/${treeId}/relationships/check`, body);
+
+    expect((await check({ type: "parent", relatedPersonId: ids.Dee })).status).toBe(204);
+    expect((await check({ type: "parent", relatedPersonId: ids.Cal })).body).toMatchObject({ code: "too-many-parents" });
+  });
+});
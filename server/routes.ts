@@ -1,37 +1,391 @@
-import type { Express } from "express";
+import { Router, type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { personFormSchema, relationshipFormSchema } from "@shared/schema";
+import { randomBytes } from "crypto";
+import { storage, PersonVersionConflictError } from "./storage";
+import { setupAuth, requireAuth, getTreeRoleForUser } from "./auth";
+import { setupRealtime, broadcastTreeEvents, refreshTreeAccess } from "./realtime";
+import { setupTrashPurge, getTrashRetentionDays } from "./trash";
+import {
+  type User, type Tree, type TreeRole, type UserTree, type Person, type FamilyTreeData,
+  type RevisionAction, type TreeTrash,
+  hasTreeRole, canChangePerson, insertTreeSchema, treeMemberRoleSchema, insertTreeInviteSchema,
+  personFormSchema, relationshipFormSchema, familyTreeImportSchema
+} from "@shared/schema";
+import { findRelationship } from "@shared/kinship";
+import { findProblems, validateRelationship, type RelationshipError } from "@shared/validation";
+import { diffTreeData, type CreateRelationshipResponse, type ImportResponse } from "@shared/realtime";
+import { diffRevisions } from "@shared/history";
 import { z } from "zod";
 
+// The tree a request is scoped to, set by the tree router's middleware
+function getTree(res: Response): Tree {
+  return res.locals.tree;
+}
+
+function getTreeId(res: Response): number {
+  return getTree(res).id;
+}
+
+// The logged in user's role in that tree
+function getTreeRole(res: Response): TreeRole {
+  return res.locals.role;
+}
+
+const roleRequirementMessages: Record<TreeRole, string> = {
+  viewer: "You don't have access to this tree",
+  editor: "Only editors can change this tree",
+  owner: "Only owners can do this"
+};
+
+// Rejects tree requests from users without at least the given role
+function requireTreeRole(required: TreeRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasTreeRole(getTreeRole(res), required)) {
+      return res.status(403).json({ message: roleRequirementMessages[required] });
+    }
+    next();
+  };
+}
+
+// Whether the logged in user may edit, delete or restore a person in the tree
+function canChangeTreePerson(req: Request, res: Response, person: Person): boolean {
+  return canChangePerson(getTreeRole(res), req.user?.id, person);
+}
+
+const PERSON_OWNERSHIP_MESSAGE = "Only the person who added them and the tree's owners can change this person";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A person's version is their ETag, so clients can make conditional updates
+function personETag(person: Person): string {
+  return `"${person.version}"`;
+}
+
+// The version an If-Match header expects: undefined when the update is
+// unconditional, null when the header isn't a single person version
+function parseIfMatchVersion(header: string | undefined): number | undefined | null {
+  if (header === undefined || header.trim() === "*") return undefined;
+  const match = /^\s*(?:W\/)?"(\d+)"\s*$/.exec(header);
+  return match ? parseInt(match[1]) : null;
+}
+
+// A person's relationships, to find the reciprocal relationships the storage
+// creates and deletes along with the requested one
+async function getPersonRelationshipData(treeId: number, personId: number) {
+  return { persons: [], relationships: await storage.getRelationshipsByPerson(treeId, personId) };
+}
+
+// Stands in for a person who isn't saved yet; saved people have IDs from 1
+const UNSAVED_PERSON_ID = 0;
+
+// Why a relationship can't be added to a tree, with the status to send,
+// or null when it can. Without a person ID it's checked for someone who
+// isn't saved yet.
+async function checkNewRelationship(
+  treeId: number,
+  relationship: Omit<z.infer<typeof relationshipFormSchema>, "personId"> & { personId?: number }
+): Promise<{ status: number; error: RelationshipError } | null> {
+  const { personId = UNSAVED_PERSON_ID, relatedPersonId } = relationship;
+  const ids = personId === UNSAVED_PERSON_ID ? [relatedPersonId] : [personId, relatedPersonId];
+  const persons = await Promise.all(ids.map(id => storage.getPerson(treeId, id)));
+  if (persons.some(person => !person)) {
+    return { status: 404, error: { code: "person-not-found", message: "Person not found" } };
+  }
+
+  const { relationships } = await storage.getFamilyTreeData(treeId);
+  const error = validateRelationship(relationships, { ...relationship, personId });
+  if (!error) return null;
+  return { status: error.code === "duplicate-relationship" ? 409 : 400, error };
+}
+
+// Records what a request changed in the tree's edit history. Restoring a
+// person from the trash recreates them as far as the diff can tell, so
+// their revision can be given another action.
+async function recordRevisions(
+  treeId: number,
+  user: User,
+  before: FamilyTreeData,
+  after: FamilyTreeData,
+  personAction?: RevisionAction
+) {
+  const createdAt = new Date();
+  await storage.addRevisions(
+    treeId,
+    diffRevisions(before, after).map(change => ({
+      ...change,
+      action: personAction && change.entityType === "person" ? personAction : change.action,
+      userId: user.id,
+      createdAt
+    }))
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  // Registration, login and logout; everything else needs a logged in user
+  const sessionMiddleware = setupAuth(app);
+  app.use("/api/trees", requireAuth);
+  app.use("/api/invites", requireAuth);
+
+  // Tree endpoints: the trees the user created or was invited to
+  app.get("/api/trees", async (req, res) => {
+    const trees = await storage.getTreesForUser(req.user!.id);
+    res.json(trees);
+  });
+
+  app.post("/api/trees", async (req, res) => {
+    try {
+      const treeData = insertTreeSchema.parse(req.body);
+      const newTree = await storage.createTree(req.user!.id, treeData);
+      const userTree: UserTree = { ...newTree, role: "owner" };
+      res.status(201).json(userTree);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create tree" });
+    }
+  });
+
+  // Invite links: what an invite grants, and joining the tree with it
+  app.get("/api/invites/:token", async (req, res) => {
+    const invite = await storage.getTreeInviteByToken(req.params.token);
+    const tree = invite && await storage.getTree(invite.treeId);
+    if (!invite || !tree) {
+      return res.status(404).json({ message: "Invite not found" });
+    }
+    if (invite.expiresAt.getTime() < Date.now()) {
+      return res.status(410).json({ message: "This invite has expired" });
+    }
+    res.json({ treeName: tree.name, role: invite.role, expiresAt: invite.expiresAt });
+  });
+
+  app.post("/api/invites/:token/accept", async (req, res) => {
+    const userId = req.user!.id;
+    const invite = await storage.getTreeInviteByToken(req.params.token);
+    const tree = invite && await storage.getTree(invite.treeId);
+    if (!invite || !tree) {
+      return res.status(404).json({ message: "Invite not found" });
+    }
+    if (invite.expiresAt.getTime() < Date.now()) {
+      return res.status(410).json({ message: "This invite has expired" });
+    }
+
+    // An invite never lowers the role someone already has
+    let role: TreeRole = "owner";
+    if (tree.ownerId !== userId) {
+      const membership = await storage.getTreeMembership(tree.id, userId);
+      role = membership && hasTreeRole(membership.role, invite.role) ? membership.role : invite.role;
+      if (role !== membership?.role) {
+        // An invite lets one person in; whoever removes it first gets to use it
+        if (!await storage.deleteTreeInvite(tree.id, invite.id)) {
+          return res.status(404).json({ message: "Invite not found" });
+        }
+        await storage.setTreeMemberRole(tree.id, userId, role);
+        await refreshTreeAccess(tree.id, userId);
+      }
+    }
+
+    const userTree: UserTree = { ...tree, role };
+    res.json(userTree);
+  });
+
+  // Everything below is scoped to one tree, under /api/trees/:treeId
+  const treeRouter = Router({ mergeParams: true });
+  app.use("/api/trees/:treeId", treeRouter);
+
+  // Only the tree's creator and members can see anything in it; what they
+  // can change depends on their role
+  treeRouter.use(async (req, res, next) => {
+    const treeId = parseInt(req.params.treeId);
+    if (isNaN(treeId)) {
+      return res.status(400).json({ message: "Invalid tree ID format" });
+    }
+
+    const tree = await storage.getTree(treeId);
+    if (!tree) {
+      return res.status(404).json({ message: "Tree not found" });
+    }
+
+    const role = await getTreeRoleForUser(tree, req.user!.id);
+    if (!role) {
+      return res.status(403).json({ message: roleRequirementMessages.viewer });
+    }
+
+    res.locals.tree = tree;
+    res.locals.role = role;
+    next();
+  });
+
+  treeRouter.get("/", async (req, res) => {
+    const userTree: UserTree = { ...getTree(res), role: getTreeRole(res) };
+    res.json(userTree);
+  });
+
+  treeRouter.put("/", requireTreeRole("owner"), async (req, res) => {
+    try {
+      const treeData = insertTreeSchema.parse(req.body);
+      const updatedTree = await storage.updateTree(getTreeId(res), treeData);
+      if (!updatedTree) {
+        return res.status(404).json({ message: "Tree not found" });
+      }
+      const userTree: UserTree = { ...updatedTree, role: getTreeRole(res) };
+      res.json(userTree);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update tree" });
+    }
+  });
+
+  // Deletes the tree with all its persons and relationships
+  treeRouter.delete("/", requireTreeRole("owner"), async (req, res) => {
+    const success = await storage.deleteTree(getTreeId(res));
+    if (!success) {
+      return res.status(404).json({ message: "Tree not found" });
+    }
+    await refreshTreeAccess(getTreeId(res));
+    res.status(204).end();
+  });
+
+  // Member endpoints
+  treeRouter.get("/members", async (req, res) => {
+    const members = await storage.getTreeMembers(getTreeId(res));
+    res.json(members);
+  });
+
+  treeRouter.put("/members/:userId", requireTreeRole("owner"), async (req, res) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID format" });
+    }
+    if (userId === getTree(res).ownerId) {
+      return res.status(400).json({ message: "The creator of a tree is always an owner" });
+    }
+
+    try {
+      const { role } = treeMemberRoleSchema.parse(req.body);
+      if (!await storage.getTreeMembership(getTreeId(res), userId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const member = await storage.setTreeMemberRole(getTreeId(res), userId, role);
+      await refreshTreeAccess(getTreeId(res), userId);
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  // Owners can remove anyone but the creator; anyone else can only leave
+  treeRouter.delete("/members/:userId", async (req, res) => {
+    const userId = parseInt(req.params.userId);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID format" });
+    }
+    if (userId !== req.user!.id && !hasTreeRole(getTreeRole(res), "owner")) {
+      return res.status(403).json({ message: roleRequirementMessages.owner });
+    }
+    if (userId === getTree(res).ownerId) {
+      return res.status(400).json({ message: "The creator of a tree can't be removed from it" });
+    }
+
+    const success = await storage.removeTreeMember(getTreeId(res), userId);
+    if (!success) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+    await refreshTreeAccess(getTreeId(res), userId);
+    res.status(204).end();
+  });
+
+  // Invite endpoints
+  treeRouter.get("/invites", requireTreeRole("owner"), async (req, res) => {
+    const invites = await storage.getTreeInvites(getTreeId(res));
+    res.json(invites);
+  });
+
+  treeRouter.post("/invites", requireTreeRole("owner"), async (req, res) => {
+    try {
+      const { role, expiresInDays } = insertTreeInviteSchema.parse(req.body);
+      const invite = await storage.createTreeInvite(getTreeId(res), {
+        token: randomBytes(24).toString("base64url"),
+        role,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInDays * DAY_MS)
+      });
+      res.status(201).json(invite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  treeRouter.delete("/invites/:id", requireTreeRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    const success = await storage.deleteTreeInvite(getTreeId(res), id);
+    if (!success) {
+      return res.status(404).json({ message: "Invite not found" });
+    }
+    res.status(204).end();
+  });
+
   // Person endpoints
-  app.get("/api/persons", async (req, res) => {
-    const persons = await storage.getAllPersons();
+  treeRouter.get("/persons", async (req, res) => {
+    const persons = await storage.getAllPersons(getTreeId(res));
     res.json(persons);
   });
 
-  app.get("/api/persons/:id", async (req, res) => {
+  treeRouter.get("/persons/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid ID format" });
     }
 
-    const person = await storage.getPerson(id);
+    const person = await storage.getPerson(getTreeId(res), id);
     if (!person) {
       return res.status(404).json({ message: "Person not found" });
     }
-    res.json(person);
+    res.set("ETag", personETag(person)).json(person);
   });
 
-  app.post("/api/persons", async (req, res) => {
+  // Edit history of a person and their relationships, newest first. It
+  // outlives the person, so their deletion can be looked up too.
+  treeRouter.get("/persons/:id/history", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    const history = await storage.getPersonHistory(getTreeId(res), id);
+    if (history.length === 0 && !await storage.getPerson(getTreeId(res), id)) {
+      return res.status(404).json({ message: "Person not found" });
+    }
+    res.json(history);
+  });
+
+  treeRouter.post("/persons", requireTreeRole("editor"), async (req, res) => {
     try {
       const personData = personFormSchema.parse(req.body);
-      const newPerson = await storage.createPerson(personData);
-      res.status(201).json(newPerson);
+      const newPerson = await storage.createPerson(getTreeId(res), req.user!.id, personData);
+      await recordRevisions(
+        getTreeId(res),
+        req.user!,
+        { persons: [], relationships: [] },
+        { persons: [newPerson], relationships: [] }
+      );
+      broadcastTreeEvents(getTreeId(res), req.user!, [{ type: "person-created", persons: [newPerson] }]);
+      res.status(201).set("ETag", personETag(newPerson)).json(newPerson);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
@@ -40,56 +394,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/persons/:id", async (req, res) => {
+  treeRouter.put("/persons/:id", requireTreeRole("editor"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid ID format" });
     }
 
+    const expectedVersion = parseIfMatchVersion(req.get("If-Match"));
+    if (expectedVersion === null) {
+      return res.status(400).json({ message: "If-Match must be a person's ETag" });
+    }
+
     try {
       const personData = personFormSchema.parse(req.body);
-      const updatedPerson = await storage.updatePerson(id, personData);
-      if (!updatedPerson) {
+      const previousPerson = await storage.getPerson(getTreeId(res), id);
+      if (previousPerson && !canChangeTreePerson(req, res, previousPerson)) {
+        return res.status(403).json({ message: PERSON_OWNERSHIP_MESSAGE });
+      }
+      const updatedPerson = await storage.updatePerson(getTreeId(res), id, personData, expectedVersion);
+      if (!previousPerson || !updatedPerson) {
         return res.status(404).json({ message: "Person not found" });
       }
-      res.json(updatedPerson);
+      await recordRevisions(
+        getTreeId(res),
+        req.user!,
+        { persons: [previousPerson], relationships: [] },
+        { persons: [updatedPerson], relationships: [] }
+      );
+      broadcastTreeEvents(getTreeId(res), req.user!, [{ type: "person-updated", persons: [updatedPerson] }]);
+      res.set("ETag", personETag(updatedPerson)).json(updatedPerson);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
       }
+      // Someone else saved first; send their version so the client can merge
+      if (error instanceof PersonVersionConflictError) {
+        return res.status(409).set("ETag", personETag(error.current)).json({
+          code: "version-conflict",
+          message: "This person was changed by someone else",
+          person: error.current
+        });
+      }
       res.status(500).json({ message: "Failed to update person" });
     }
   });
 
-  app.delete("/api/persons/:id", async (req, res) => {
+  treeRouter.delete("/persons/:id", requireTreeRole("editor"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid ID format" });
     }
 
-    const success = await storage.deletePerson(id);
+    // The person's relationships go to the trash along with them
+    const treeId = getTreeId(res);
+    const person = await storage.getPerson(treeId, id);
+    if (person && !canChangeTreePerson(req, res, person)) {
+      return res.status(403).json({ message: PERSON_OWNERSHIP_MESSAGE });
+    }
+    const before = {
+      persons: person ? [person] : [],
+      relationships: await storage.getRelationshipsByPerson(treeId, id)
+    };
+
+    const success = await storage.deletePerson(treeId, id);
     if (!success) {
       return res.status(404).json({ message: "Person not found" });
     }
+    await recordRevisions(treeId, req.user!, before, { persons: [], relationships: [] });
+    broadcastTreeEvents(treeId, req.user!, [{ type: "person-deleted", personIds: [id] }]);
+    res.status(204).end();
+  });
+
+  // Trash endpoints. Deleted persons and the relationships detached from
+  // them stay here until restored, purged or past the retention period.
+  treeRouter.get("/trash", async (req, res) => {
+    const trash: TreeTrash = {
+      ...await storage.getTrash(getTreeId(res)),
+      retentionDays: getTrashRetentionDays()
+    };
+    res.json(trash);
+  });
+
+  treeRouter.post("/trash/persons/:id/restore", requireTreeRole("editor"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    const treeId = getTreeId(res);
+    const trashedPerson = (await storage.getTrash(treeId)).persons.find(person => person.id === id);
+    if (trashedPerson && !canChangeTreePerson(req, res, trashedPerson)) {
+      return res.status(403).json({ message: PERSON_OWNERSHIP_MESSAGE });
+    }
+    const restored = await storage.restorePerson(treeId, id);
+    if (!restored) {
+      return res.status(404).json({ message: "Person not found in the trash" });
+    }
+    const before: FamilyTreeData = { persons: [], relationships: [] };
+    await recordRevisions(treeId, req.user!, before, restored, "restore");
+    broadcastTreeEvents(treeId, req.user!, diffTreeData(before, restored));
+    res.json(restored);
+  });
+
+  treeRouter.delete("/trash/persons/:id", requireTreeRole("owner"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid ID format" });
+    }
+
+    const success = await storage.purgePerson(getTreeId(res), id);
+    if (!success) {
+      return res.status(404).json({ message: "Person not found in the trash" });
+    }
     res.status(204).end();
   });
 
   // Relationship endpoints
-  app.get("/api/relationships/person/:personId", async (req, res) => {
+  treeRouter.get("/relationships/person/:personId", async (req, res) => {
     const personId = parseInt(req.params.personId);
     if (isNaN(personId)) {
       return res.status(400).json({ message: "Invalid person ID format" });
     }
 
-    const relationships = await storage.getRelationshipsByPerson(personId);
+    const relationships = await storage.getRelationshipsByPerson(getTreeId(res), personId);
     res.json(relationships);
   });
 
-  app.post("/api/relationships", async (req, res) => {
+  treeRouter.post("/relationships", requireTreeRole("editor"), async (req, res) => {
+    const treeId = getTreeId(res);
+
     try {
       const relationshipData = relationshipFormSchema.parse(req.body);
-      const newRelationship = await storage.createRelationship(relationshipData);
-      res.status(201).json(newRelationship);
+
+      const rejection = await checkNewRelationship(treeId, relationshipData);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.error);
+      }
+
+      const before = await getPersonRelationshipData(treeId, relationshipData.personId);
+      const newRelationship = await storage.createRelationship(treeId, relationshipData);
+      const after = await getPersonRelationshipData(treeId, relationshipData.personId);
+      await recordRevisions(treeId, req.user!, before, after);
+      const events = diffTreeData(before, after);
+      broadcastTreeEvents(treeId, req.user!, events);
+      const response: CreateRelationshipResponse = { relationship: newRelationship, events };
+      res.status(201).json(response);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.message });
@@ -98,26 +547,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/relationships/:id", async (req, res) => {
+  // Checks a relationship without adding it, e.g. before saving the new
+  // person it's for, who has no ID yet
+  treeRouter.post("/relationships/check", requireTreeRole("editor"), async (req, res) => {
+    try {
+      const relationshipData = relationshipFormSchema.partial({ personId: true }).parse(req.body);
+      const rejection = await checkNewRelationship(getTreeId(res), relationshipData);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.error);
+      }
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to check relationship" });
+    }
+  });
+
+  treeRouter.delete("/relationships/:id", requireTreeRole("editor"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid ID format" });
     }
 
-    const success = await storage.deleteRelationship(id);
+    const treeId = getTreeId(res);
+    const relationship = await storage.getRelationship(treeId, id);
+    if (!relationship) {
+      return res.status(404).json({ message: "Relationship not found" });
+    }
+
+    const before = await getPersonRelationshipData(treeId, relationship.personId);
+    const success = await storage.deleteRelationship(treeId, id);
     if (!success) {
       return res.status(404).json({ message: "Relationship not found" });
     }
+    const after = await getPersonRelationshipData(treeId, relationship.personId);
+    await recordRevisions(treeId, req.user!, before, after);
+    broadcastTreeEvents(treeId, req.user!, diffTreeData(before, after));
     res.status(204).end();
   });
 
   // Family tree data endpoint
-  app.get("/api/familytree", async (req, res) => {
-    const familyTreeData = await storage.getFamilyTreeData();
+  treeRouter.get("/familytree", async (req, res) => {
+    const familyTreeData = await storage.getFamilyTreeData(getTreeId(res));
     res.json(familyTreeData);
   });
 
+  // Relationship calculator: how `to` is related to `from`
+  treeRouter.get("/relationship-path", async (req, res) => {
+    const fromId = parseInt(String(req.query.from));
+    const toId = parseInt(String(req.query.to));
+    if (isNaN(fromId) || isNaN(toId)) {
+      return res.status(400).json({ message: "Invalid person ID format" });
+    }
+
+    const familyTreeData = await storage.getFamilyTreeData(getTreeId(res));
+    const personIds = new Set(familyTreeData.persons.map(p => p.id));
+    if (!personIds.has(fromId) || !personIds.has(toId)) {
+      return res.status(404).json({ message: "Person not found" });
+    }
+
+    const result = findRelationship(familyTreeData, fromId, toId);
+    if (!result) {
+      return res.status(404).json({ message: "These people are not related" });
+    }
+    res.json(result);
+  });
+
+  // Consistency check: impossible or suspicious records in the whole tree
+  treeRouter.get("/problems", async (req, res) => {
+    const familyTreeData = await storage.getFamilyTreeData(getTreeId(res));
+    res.json(findProblems(familyTreeData));
+  });
+
+  // Bulk import endpoint: adds a whole family tree document in one transaction
+  treeRouter.post("/import", requireTreeRole("editor"), async (req, res) => {
+    const treeId = getTreeId(res);
+
+    try {
+      const importData = familyTreeImportSchema.parse(req.body);
+
+      // Reject documents whose relationships point outside the document
+      const importedIds = new Set(importData.persons.map(p => p.id));
+      const danglingRelationship = importData.relationships.find(
+        r => !importedIds.has(r.personId) || !importedIds.has(r.relatedPersonId)
+      );
+      if (danglingRelationship) {
+        return res.status(400).json({
+          message: `Relationship between ${danglingRelationship.personId} and ${danglingRelationship.relatedPersonId} refers to a person not in the import`
+        });
+      }
+
+      // Merges must pair a person in the import with a person already in the tree
+      const before = await storage.getFamilyTreeData(treeId);
+      if (importData.merges?.length) {
+        const existingIds = new Set(before.persons.map(p => p.id));
+        const invalidMerge = importData.merges.find(
+          m => !importedIds.has(m.importedId) || !existingIds.has(m.existingId)
+        );
+        if (invalidMerge) {
+          return res.status(400).json({
+            message: `Cannot merge imported person ${invalidMerge.importedId} into person ${invalidMerge.existingId}`
+          });
+        }
+
+        // Merging new details into someone is changing them
+        const existingById = new Map(before.persons.map(p => [p.id, p]));
+        const forbiddenMerge = importData.merges.find(
+          m => m.person && !canChangeTreePerson(req, res, existingById.get(m.existingId)!)
+        );
+        if (forbiddenMerge) {
+          return res.status(403).json({ message: PERSON_OWNERSHIP_MESSAGE });
+        }
+      }
+
+      const result = await storage.importFamilyTree(treeId, req.user!.id, importData);
+      const after = await storage.getFamilyTreeData(treeId);
+      await recordRevisions(treeId, req.user!, before, after);
+      const events = diffTreeData(before, after);
+      broadcastTreeEvents(treeId, req.user!, events);
+      const response: ImportResponse = { ...result, events };
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import family tree" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
+  setupTrashPurge(httpServer);
 
   return httpServer;
 }
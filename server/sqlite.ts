@@ -0,0 +1,176 @@
+import BetterSqlite3 from "better-sqlite3";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { sqliteTable, text, integer, unique } from "drizzle-orm/sqlite-core";
+import type { TreeRole, RevisionAction, RevisionChanges, RevisionEntityType } from "@shared/schema";
+
+// SQLite mirror of the tables in shared/schema.ts. Dates are stored as
+// ISO strings, matching the string mode of the PostgreSQL date columns.
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const trees = sqliteTable("trees", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  ownerId: integer("owner_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+});
+
+export const treeMembers = sqliteTable("tree_members", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  treeId: integer("tree_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role").$type<TreeRole>().notNull(),
+}, (table) => ({
+  treeUserUnique: unique().on(table.treeId, table.userId),
+}));
+
+export const treeInvites = sqliteTable("tree_invites", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  treeId: integer("tree_id").notNull(),
+  token: text("token").notNull().unique(),
+  role: text("role").$type<TreeRole>().notNull(),
+  createdBy: integer("created_by").notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+});
+
+export const persons = sqliteTable("persons", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  treeId: integer("tree_id").notNull(),
+  version: integer("version").notNull().default(1),
+  name: text("name").notNull(),
+  gender: text("gender"),
+  birthDate: text("birth_date"),
+  birthPlace: text("birth_place"),
+  deathDate: text("death_date"),
+  deathPlace: text("death_place"),
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+});
+
+export const relationships = sqliteTable("relationships", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  treeId: integer("tree_id").notNull(),
+  type: text("type").notNull(), // parent, child, spouse, sibling
+  personId: integer("person_id").notNull(),
+  relatedPersonId: integer("related_person_id").notNull(),
+  deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+});
+
+export const revisions = sqliteTable("revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  treeId: integer("tree_id").notNull(),
+  personId: integer("person_id").notNull(),
+  entityType: text("entity_type").$type<RevisionEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: text("action").$type<RevisionAction>().notNull(),
+  userId: integer("user_id").notNull(),
+  changes: text("changes", { mode: "json" }).$type<RevisionChanges>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+});
+
+const schema = { users, trees, treeMembers, treeInvites, persons, relationships, revisions };
+
+export type SqliteDatabase = BetterSQLite3Database<typeof schema>;
+
+// Schema migrations, applied in order. The index of the last applied
+// migration is tracked in SQLite's user_version pragma, so only append here.
+const migrations: string[] = [
+  `CREATE TABLE persons (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    gender TEXT,
+    birth_date TEXT,
+    birth_place TEXT,
+    death_date TEXT,
+    notes TEXT
+  );
+  CREATE TABLE relationships (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    person_id INTEGER NOT NULL,
+    related_person_id INTEGER NOT NULL
+  );
+  CREATE INDEX relationships_person_id_idx ON relationships (person_id);
+  CREATE INDEX relationships_related_person_id_idx ON relationships (related_person_id);`,
+  `ALTER TABLE persons ADD COLUMN death_place TEXT;`,
+  // Databases from before multiple trees keep their people in a first tree
+  `CREATE TABLE trees (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    description TEXT
+  );
+  INSERT INTO trees (id, name) VALUES (1, 'My Family Tree');
+  ALTER TABLE persons ADD COLUMN tree_id INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE relationships ADD COLUMN tree_id INTEGER NOT NULL DEFAULT 1;
+  CREATE INDEX persons_tree_id_idx ON persons (tree_id);
+  CREATE INDEX relationships_tree_id_idx ON relationships (tree_id);`,
+  // Trees from before user accounts have no owner (0) until the first
+  // account is created, which takes them over
+  `CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL
+  );
+  ALTER TABLE trees ADD COLUMN owner_id INTEGER NOT NULL DEFAULT 0;
+  CREATE INDEX trees_owner_id_idx ON trees (owner_id);`,
+  `CREATE TABLE tree_members (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tree_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    UNIQUE (tree_id, user_id)
+  );
+  CREATE INDEX tree_members_user_id_idx ON tree_members (user_id);
+  CREATE TABLE tree_invites (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tree_id INTEGER NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL,
+    created_by INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX tree_invites_tree_id_idx ON tree_invites (tree_id);`,
+  `ALTER TABLE persons ADD COLUMN version INTEGER NOT NULL DEFAULT 1;`,
+  `CREATE TABLE revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tree_id INTEGER NOT NULL,
+    person_id INTEGER NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    changes TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX revisions_tree_id_person_id_idx ON revisions (tree_id, person_id);`,
+  `ALTER TABLE persons ADD COLUMN deleted_at INTEGER;
+  ALTER TABLE relationships ADD COLUMN deleted_at INTEGER;`,
+  // People added before creators were recorded have none
+  `ALTER TABLE persons ADD COLUMN created_by INTEGER;`,
+];
+
+function migrate(sqlite: BetterSqlite3.Database) {
+  const currentVersion = sqlite.pragma("user_version", { simple: true }) as number;
+
+  for (let version = currentVersion; version < migrations.length; version++) {
+    sqlite.transaction(() => {
+      sqlite.exec(migrations[version]);
+      sqlite.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+/**
+ * Opens (creating if needed) the SQLite database file at the given path and
+ * brings its schema up to date. The default rollback journal is kept so the
+ * whole tree lives in that single file.
+ */
+export function openSqliteDatabase(filename: string): SqliteDatabase {
+  const sqlite = new BetterSqlite3(filename);
+  migrate(sqlite);
+  return drizzle(sqlite, { schema });
+}
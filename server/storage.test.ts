@@ -0,0 +1,329 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Person } from "@shared/schema";
+import {
+  DatabaseStorage, MemStorage, PersonVersionConflictError, SqliteStorage, type IStorage
+} from "./storage";
+import { openSqliteDatabase } from "./sqlite";
+import { createTestDatabase } from "./testDatabase";
+
+type Backend = { name: string; create: () => Promise<IStorage> };
+
+const memory: Backend = { name: "MemStorage", create: async () => new MemStorage() };
+const sqlite: Backend = { name: "SqliteStorage", create: async () => new SqliteStorage(openSqliteDatabase(":memory:")) };
+const postgres: Backend = { name: "DatabaseStorage", create: async () => new DatabaseStorage(await createTestDatabase()) };
+
+// Every backend must return the same JSON, down to the order of the keys
+function expectJson(value: unknown, expected: unknown) {
+  expect(JSON.stringify(value)).toBe(JSON.stringify(expected));
+}
+
+const byId = <T extends { id: number }>(rows: T[]) => [...rows].sort((a, b) => a.id - b.id);
+
+function personJson(person: Pick<Person, "id" | "version" | "name"> & Partial<Person>): Person {
+  return {
+    id: person.id,
+    version: person.version,
+    name: person.name,
+    gender: person.gender ?? null,
+    birthDate: person.birthDate ?? null,
+    birthPlace: person.birthPlace ?? null,
+    deathDate: person.deathDate ?? null,
+    deathPlace: person.deathPlace ?? null,
+    notes: person.notes ?? null,
+    createdBy: person.createdBy ?? null
+  };
+}
+
+describe.each([memory, sqlite, postgres])("$name", (backend) => {
+  let storage: IStorage;
+  let treeId: number;
+  let ownerId: number;
+
+  beforeEach(async () => {
+    storage = await backend.create();
+    ownerId = (await storage.createUser({ username: "ann", password: "hash" })).id;
+    treeId = (await storage.createTree(ownerId, { name: "Ann's family" })).id;
+  });
+
+  describe("people", () => {
+    it("returns people without storage columns, with missing fields as null", async () => {
+      const created = await storage.createPerson(treeId, ownerId, { name: "Mary", gender: "female", birthDate: "1901-02-03" });
+      const expected = personJson({ id: created.id, version: 1, name: "Mary", gender: "female", birthDate: "1901-02-03", createdBy: ownerId });
+
+      expectJson(created, expected);
+      expectJson(await storage.getPerson(treeId, created.id), expected);
+      expectJson(await storage.getAllPersons(treeId), [expected]);
+      expectJson((await storage.getFamilyTreeData(treeId)).persons, [expected]);
+    });
+
+    it("bumps the version on each update and keeps fields left out", async () => {
+      const created = await storage.createPerson(treeId, ownerId, { name: "Mary", gender: "female" });
+      const updated = await storage.updatePerson(treeId, created.id, { name: "Mary Ann" }, 1);
+
+      expectJson(updated, personJson({ id: created.id, version: 2, name: "Mary Ann", gender: "female", createdBy: ownerId }));
+    });
+
+    it("rejects an update based on an old version with the current person", async () => {
+      const created = await storage.createPerson(treeId, ownerId, { name: "Mary" });
+      await storage.updatePerson(treeId, created.id, { name: "Mary Ann" }, 1);
+
+      const error = await storage.updatePerson(treeId, created.id, { name: "Maria" }, 1).catch(e => e);
+      expect(error).toBeInstanceOf(PersonVersionConflictError);
+      expect(error.current).toMatchObject({ name: "Mary Ann", version: 2 });
+    });
+
+    it("saves only one of two concurrent updates from the same version", async () => {
+      const created = await storage.createPerson(treeId, ownerId, { name: "Mary" });
+      const results = await Promise.allSettled([
+        storage.updatePerson(treeId, created.id, { name: "Mary Ann" }, 1),
+        storage.updatePerson(treeId, created.id, { name: "Maria" }, 1)
+      ]);
+
+      expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+      expect(results.filter(result => result.status === "rejected")).toHaveLength(1);
+      expect((await storage.getPerson(treeId, created.id))?.version).toBe(2);
+    });
+
+    it("keeps each tree's people to itself", async () => {
+      const otherTreeId = (await storage.createTree(ownerId, { name: "Other" })).id;
+      const created = await storage.createPerson(treeId, ownerId, { name: "Mary" });
+
+      expect(await storage.getPerson(otherTreeId, created.id)).toBeUndefined();
+      expect(await storage.getAllPersons(otherTreeId)).toEqual([]);
+      expect(await storage.updatePerson(otherTreeId, created.id, { name: "Maria" })).toBeUndefined();
+      expect(await storage.deletePerson(otherTreeId, created.id)).toBe(false);
+      expect(await storage.getPerson(treeId, created.id)).toBeDefined();
+    });
+  });
+
+  describe("relationships", () => {
+    let parentId: number;
+    let childId: number;
+
+    beforeEach(async () => {
+      parentId = (await storage.createPerson(treeId, ownerId, { name: "John" })).id;
+      childId = (await storage.createPerson(treeId, ownerId, { name: "Mary" })).id;
+    });
+
+    it.each([
+      ["parent", "child"],
+      ["child", "parent"],
+      ["spouse", "spouse"],
+      ["sibling", "sibling"]
+    ])("stores a %s relationship with its %s reciprocal", async (type, reciprocalType) => {
+      const relationship = await storage.createRelationship(treeId, { type, personId: parentId, relatedPersonId: childId });
+      expectJson(relationship, { id: relationship.id, type, personId: parentId, relatedPersonId: childId });
+
+      const { relationships } = await storage.getFamilyTreeData(treeId);
+      expect(relationships).toHaveLength(2);
+      expect(relationships).toContainEqual({ id: expect.any(Number), type: reciprocalType, personId: childId, relatedPersonId: parentId });
+      expect(byId(await storage.getRelationshipsByPerson(treeId, childId))).toEqual(byId(relationships));
+    });
+
+    it("deletes both rows of a relationship", async () => {
+      const relationship = await storage.createRelationship(treeId, { type: "parent", personId: parentId, relatedPersonId: childId });
+
+      expect(await storage.deleteRelationship(treeId, relationship.id)).toBe(true);
+      expect((await storage.getFamilyTreeData(treeId)).relationships).toEqual([]);
+      expect(await storage.deleteRelationship(treeId, relationship.id)).toBe(false);
+    });
+  });
+
+  describe("trash", () => {
+    let johnId: number;
+    let maryId: number;
+    let peterId: number;
+
+    beforeEach(async () => {
+      johnId = (await storage.createPerson(treeId, ownerId, { name: "John" })).id;
+      maryId = (await storage.createPerson(treeId, ownerId, { name: "Mary" })).id;
+      peterId = (await storage.createPerson(treeId, ownerId, { name: "Peter" })).id;
+      await storage.createRelationship(treeId, { type: "parent", personId: johnId, relatedPersonId: maryId });
+      await storage.createRelationship(treeId, { type: "sibling", personId: maryId, relatedPersonId: peterId });
+    });
+
+    it("moves a person's relationships to the trash with them", async () => {
+      const before = Date.now();
+      expect(await storage.deletePerson(treeId, maryId)).toBe(true);
+
+      const data = await storage.getFamilyTreeData(treeId);
+      expect(data.persons.map(person => person.id).sort()).toEqual([johnId, peterId].sort());
+      expect(data.relationships).toEqual([]);
+      expect(await storage.getPerson(treeId, maryId)).toBeUndefined();
+
+      const trash = await storage.getTrash(treeId);
+      expect(trash.persons.map(person => person.id)).toEqual([maryId]);
+      expect(trash.relationships).toHaveLength(4);
+      [...trash.persons, ...trash.relationships].forEach(row => {
+        expect(row.deletedAt).toBeInstanceOf(Date);
+        expect(row.deletedAt.getTime()).toBeGreaterThanOrEqual(before - 1000);
+      });
+      expect(Object.keys(trash.persons[0])).toEqual([...Object.keys(personJson({ id: 0, version: 1, name: "", createdBy: ownerId })), "deletedAt"]);
+    });
+
+    it("restores a person with their relationships to people outside the trash", async () => {
+      await storage.deletePerson(treeId, peterId);
+      await storage.deletePerson(treeId, maryId);
+
+      const restored = await storage.restorePerson(treeId, maryId);
+      expectJson(restored?.persons, [personJson({ id: maryId, version: 1, name: "Mary", createdBy: ownerId })]);
+      expect(restored?.relationships.map(rel => rel.type).sort()).toEqual(["child", "parent"]);
+
+      // The siblings come back once Peter does too
+      expect((await storage.getTrash(treeId)).relationships).toHaveLength(2);
+      expect((await storage.restorePerson(treeId, peterId))?.relationships).toHaveLength(2);
+      expect((await storage.getFamilyTreeData(treeId)).relationships).toHaveLength(4);
+      expect(await storage.restorePerson(treeId, peterId)).toBeUndefined();
+    });
+
+    it("purges a person and their relationships for good", async () => {
+      await storage.deletePerson(treeId, maryId);
+
+      expect(await storage.purgePerson(treeId, johnId)).toBe(false);
+      expect(await storage.purgePerson(treeId, maryId)).toBe(true);
+      expect(await storage.getTrash(treeId)).toEqual({ persons: [], relationships: [] });
+      expect(await storage.restorePerson(treeId, maryId)).toBeUndefined();
+    });
+
+    it("purges only what was trashed before the given time, in every tree", async () => {
+      const otherTreeId = (await storage.createTree(ownerId, { name: "Other" })).id;
+      const otherId = (await storage.createPerson(otherTreeId, ownerId, { name: "Other" })).id;
+      await storage.deletePerson(treeId, maryId);
+      await storage.deletePerson(otherTreeId, otherId);
+
+      expect(await storage.purgeTrash(new Date(Date.now() - 60_000))).toBe(0);
+      expect(await storage.purgeTrash(new Date(Date.now() + 60_000))).toBe(2);
+      expect(await storage.getTrash(treeId)).toEqual({ persons: [], relationships: [] });
+      expect((await storage.getFamilyTreeData(treeId)).persons).toHaveLength(2);
+    });
+  });
+
+  describe("trees", () => {
+    it("deletes everything in a tree along with it", async () => {
+      const guestId = (await storage.createUser({ username: "bob", password: "hash" })).id;
+      const otherTreeId = (await storage.createTree(ownerId, { name: "Other" })).id;
+      const keptId = (await storage.createPerson(otherTreeId, ownerId, { name: "Kept" })).id;
+      const johnId = (await storage.createPerson(treeId, ownerId, { name: "John" })).id;
+      const maryId = (await storage.createPerson(treeId, ownerId, { name: "Mary" })).id;
+      await storage.createRelationship(treeId, { type: "spouse", personId: johnId, relatedPersonId: maryId });
+      await storage.deletePerson(treeId, maryId);
+      await storage.setTreeMemberRole(treeId, guestId, "editor");
+      await storage.createTreeInvite(treeId, {
+        token: "invite-token", role: "viewer", createdBy: ownerId, expiresAt: new Date(Date.now() + 60_000)
+      });
+
+      // SQLite databases start with a tree of their own, which the first user takes over
+      const treesBefore = await storage.getTreesForUser(ownerId);
+
+      expect(await storage.deleteTree(treeId)).toBe(true);
+      expect(await storage.getTree(treeId)).toBeUndefined();
+      expect(await storage.getFamilyTreeData(treeId)).toEqual({ persons: [], relationships: [] });
+      expect(await storage.getTrash(treeId)).toEqual({ persons: [], relationships: [] });
+      expect(await storage.getTreeMembers(treeId)).toEqual([]);
+      expect(await storage.getTreeInviteByToken("invite-token")).toBeUndefined();
+      expect(await storage.getTreesForUser(guestId)).toEqual([]);
+
+      expect(await storage.getTreesForUser(ownerId)).toEqual(treesBefore.filter(tree => tree.id !== treeId));
+      expect(treesBefore.map(tree => tree.id)).toContain(otherTreeId);
+      expect(await storage.getPerson(otherTreeId, keptId)).toBeDefined();
+    });
+
+    it("lists trees shared with a user with their role", async () => {
+      const guestId = (await storage.createUser({ username: "bob", password: "hash" })).id;
+      await storage.setTreeMemberRole(treeId, guestId, "viewer");
+      await storage.setTreeMemberRole(treeId, guestId, "editor");
+
+      expect(await storage.getTreesForUser(guestId)).toEqual([
+        { id: treeId, ownerId, name: "Ann's family", description: null, role: "editor" }
+      ]);
+      expect(await storage.removeTreeMember(treeId, guestId)).toBe(true);
+      expect(await storage.getTreeMembership(treeId, guestId)).toBeUndefined();
+    });
+  });
+
+  describe("history", () => {
+    it("lists a person's revisions newest first with who made them", async () => {
+      const personId = (await storage.createPerson(treeId, ownerId, { name: "Mary" })).id;
+      await storage.addRevisions(treeId, [
+        { personId, entityType: "person", entityId: personId, action: "create", userId: ownerId, changes: { name: { from: null, to: "Mary" } }, createdAt: new Date() },
+        { personId, entityType: "person", entityId: personId, action: "update", userId: ownerId, changes: { name: { from: "Mary", to: "Maria" } }, createdAt: new Date() }
+      ]);
+
+      const history = await storage.getPersonHistory(treeId, personId);
+      expect(history.map(entry => [entry.action, entry.username, entry.changes])).toEqual([
+        ["update", "ann", { name: { from: "Mary", to: "Maria" } }],
+        ["create", "ann", { name: { from: null, to: "Mary" } }]
+      ]);
+      expect(await storage.getPersonHistory(treeId + 1, personId)).toEqual([]);
+    });
+  });
+
+  describe("import", () => {
+    it("adds new people, merges matches and maps relationships to the new IDs", async () => {
+      const existing = await storage.createPerson(treeId, ownerId, { name: "John" });
+      const importerId = (await storage.createUser({ username: "bob", password: "hash" })).id;
+
+      const result = await storage.importFamilyTree(treeId, importerId, {
+        persons: [{ id: 1, name: "John Smith" }, { id: 2, name: "Mary" }],
+        relationships: [
+          { type: "parent", personId: 1, relatedPersonId: 2 },
+          { type: "child", personId: 2, relatedPersonId: 1 }
+        ],
+        merges: [{ importedId: 1, existingId: existing.id, person: { name: "John Smith" } }]
+      });
+
+      const maryId = result.personIdMap[2];
+      expect(result).toEqual({ personCount: 1, relationshipCount: 2, personIdMap: { 1: existing.id, 2: maryId } });
+      // Merged people keep who added them; new ones are the importer's
+      expectJson(
+        await storage.getPerson(treeId, existing.id),
+        personJson({ id: existing.id, version: 2, name: "John Smith", createdBy: ownerId })
+      );
+      expectJson(await storage.getPerson(treeId, maryId), personJson({ id: maryId, version: 1, name: "Mary", createdBy: importerId }));
+
+      const { relationships } = await storage.getFamilyTreeData(treeId);
+      expect(relationships.map(({ type, personId, relatedPersonId }) => ({ type, personId, relatedPersonId }))).toEqual(
+        expect.arrayContaining([
+          { type: "parent", personId: existing.id, relatedPersonId: maryId },
+          { type: "child", personId: maryId, relatedPersonId: existing.id }
+        ])
+      );
+    });
+
+    it("counts the people it added, ignoring merges of people not in the import", async () => {
+      const existing = await storage.createPerson(treeId, ownerId, { name: "John" });
+
+      const result = await storage.importFamilyTree(treeId, ownerId, {
+        persons: [{ id: 1, name: "Mary" }, { id: 2, name: "Tom" }, { id: 3, name: "John Smith" }],
+        relationships: [],
+        merges: [
+          { importedId: 3, existingId: existing.id },
+          { importedId: 9, existingId: existing.id, person: { name: "Johnny" } }
+        ]
+      });
+
+      expect(result.personCount).toBe(2);
+      expect(Object.keys(result.personIdMap)).toEqual(["1", "2", "3"]);
+      expect((await storage.getAllPersons(treeId)).map(person => person.name).sort()).toEqual(["John", "Mary", "Tom"]);
+    });
+  });
+});
+
+// MemStorage has no constraints that could fail part way through a change
+describe.each([sqlite, postgres])("$name transactions", (backend) => {
+  it("rolls back an import that fails part way", async () => {
+    const storage = await backend.create();
+    const ownerId = (await storage.createUser({ username: "ann", password: "hash" })).id;
+    const treeId = (await storage.createTree(ownerId, { name: "Ann's family" })).id;
+    const existing = await storage.createPerson(treeId, ownerId, { name: "John" });
+
+    // A nameless person breaks the NOT NULL constraint after the merge is saved
+    await expect(storage.importFamilyTree(treeId, ownerId, {
+      persons: [{ id: 1, name: "John Smith" }, { id: 2, name: null as unknown as string }],
+      relationships: [],
+      merges: [{ importedId: 1, existingId: existing.id, person: { name: "John Smith" } }]
+    })).rejects.toThrow();
+
+    expectJson(await storage.getAllPersons(treeId), [personJson({ id: existing.id, version: 1, name: "John", createdBy: ownerId })]);
+  });
+});
@@ -1,153 +1,526 @@
+import { and, desc, eq, getTableColumns, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
 import { 
-  persons, relationships, 
+  users, trees, treeMembers, treeInvites, persons, relationships, revisions, 
+  type User, type InsertUser,
+  type Tree, type InsertTree, type UserTree,
+  type TreeRole, type TreeMembership, type TreeMember, type TreeInvite,
   type Person, type InsertPerson, 
   type Relationship, type InsertRelationship,
-  type FamilyTreeData
+  type Revision, type PersonHistoryEntry,
+  type TrashedPerson, type TrashedRelationship, type TreeTrash,
+  type FamilyTreeData, type FamilyTreeImport, type ImportResult,
+  UNOWNED_TREE_OWNER_ID
 } from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+import * as sqlite from "./sqlite";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
-  // Person operations
-  getPerson(id: number): Promise<Person | undefined>;
-  getAllPersons(): Promise<Person[]>;
-  createPerson(person: InsertPerson): Promise<Person>;
-  updatePerson(id: number, person: InsertPerson): Promise<Person | undefined>;
-  deletePerson(id: number): Promise<boolean>;
+  // Login sessions
+  sessionStore: session.Store;
   
-  // Relationship operations
-  getRelationship(id: number): Promise<Relationship | undefined>;
-  getRelationshipsByPerson(personId: number): Promise<Relationship[]>;
-  createRelationship(relationship: InsertRelationship): Promise<Relationship>;
-  deleteRelationship(id: number): Promise<boolean>;
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  
+  // Tree operations
+  getTreesForUser(userId: number): Promise<UserTree[]>;
+  getTree(id: number): Promise<Tree | undefined>;
+  createTree(ownerId: number, tree: InsertTree): Promise<Tree>;
+  updateTree(id: number, tree: InsertTree): Promise<Tree | undefined>;
+  deleteTree(id: number): Promise<boolean>;
+  
+  // Sharing operations, within a tree
+  getTreeMembership(treeId: number, userId: number): Promise<TreeMembership | undefined>;
+  getTreeMembers(treeId: number): Promise<TreeMember[]>;
+  setTreeMemberRole(treeId: number, userId: number, role: TreeRole): Promise<TreeMembership>;
+  removeTreeMember(treeId: number, userId: number): Promise<boolean>;
+  getTreeInvites(treeId: number): Promise<TreeInvite[]>;
+  getTreeInviteByToken(token: string): Promise<TreeInvite | undefined>;
+  createTreeInvite(treeId: number, invite: NewTreeInvite): Promise<TreeInvite>;
+  deleteTreeInvite(treeId: number, id: number): Promise<boolean>;
+  
+  // Person operations, within a tree
+  getPerson(treeId: number, id: number): Promise<Person | undefined>;
+  getAllPersons(treeId: number): Promise<Person[]>;
+  createPerson(treeId: number, createdBy: number, person: InsertPerson): Promise<Person>;
+  // Rejects the update with a PersonVersionConflictError if the person is
+  // no longer at the expected version
+  updatePerson(treeId: number, id: number, person: InsertPerson, expectedVersion?: number): Promise<Person | undefined>;
+  // Moves the person and their relationships to the trash
+  deletePerson(treeId: number, id: number): Promise<boolean>;
+  
+  // Relationship operations, within a tree
+  getRelationship(treeId: number, id: number): Promise<Relationship | undefined>;
+  getRelationshipsByPerson(treeId: number, personId: number): Promise<Relationship[]>;
+  createRelationship(treeId: number, relationship: InsertRelationship): Promise<Relationship>;
+  deleteRelationship(treeId: number, id: number): Promise<boolean>;
+  
+  // Trash operations, within a tree. Restoring a person brings back their
+  // relationships to people who aren't in the trash, and returns them all.
+  getTrash(treeId: number): Promise<Omit<TreeTrash, "retentionDays">>;
+  restorePerson(treeId: number, id: number): Promise<FamilyTreeData | undefined>;
+  purgePerson(treeId: number, id: number): Promise<boolean>;
+  // Permanently deletes everyone, in every tree, trashed before the given time
+  purgeTrash(deletedBefore: Date): Promise<number>;
+  
+  // Edit history, within a tree
+  addRevisions(treeId: number, revisions: NewRevision[]): Promise<void>;
+  getPersonHistory(treeId: number, personId: number): Promise<PersonHistoryEntry[]>;
   
   // Family tree operations
-  getFamilyTreeData(): Promise<FamilyTreeData>;
+  getFamilyTreeData(treeId: number): Promise<FamilyTreeData>;
+  // Imported persons are created by the given user
+  importFamilyTree(treeId: number, createdBy: number, data: FamilyTreeImport): Promise<ImportResult>;
+}
+
+// Stored rows, which also record the tree they belong to and when they
+// were trashed
+type PersonRow = typeof persons.$inferSelect;
+type RelationshipRow = typeof relationships.$inferSelect;
+
+// Leaves out what only storage needs of a row, or of the columns to select,
+// so every backend returns persons and relationships in the same shape
+function withoutInternalColumns<T extends { treeId: unknown; deletedAt: unknown }>(row: T): Omit<T, "treeId" | "deletedAt"> {
+  const { treeId, deletedAt, ...publicColumns } = row;
+  return publicColumns;
+}
+
+const personColumns = withoutInternalColumns(getTableColumns(persons));
+const relationshipColumns = withoutInternalColumns(getTableColumns(relationships));
+const sqlitePersonColumns = withoutInternalColumns(getTableColumns(sqlite.persons));
+const sqliteRelationshipColumns = withoutInternalColumns(getTableColumns(sqlite.relationships));
+
+// Builds a stored person the way the database backends return one, with
+// the columns in table order and missing optional fields as null
+function toPersonRow(
+  id: number,
+  treeId: number,
+  version: number,
+  createdBy: number | null,
+  person: InsertPerson
+): PersonRow {
+  return {
+    id,
+    treeId,
+    version,
+    name: person.name,
+    gender: person.gender ?? null,
+    birthDate: person.birthDate ?? null,
+    birthPlace: person.birthPlace ?? null,
+    deathDate: person.deathDate ?? null,
+    deathPlace: person.deathPlace ?? null,
+    notes: person.notes ?? null,
+    createdBy,
+    deletedAt: null
+  };
+}
+
+// An invite as created by the routes, which pick its token and expiry
+export type NewTreeInvite = Omit<TreeInvite, "id" | "treeId">;
+
+// A revision as recorded by the routes, which know who made the change
+export type NewRevision = Omit<Revision, "id" | "treeId">;
+
+// Thrown when a person was changed since the version an update was based on
+export class PersonVersionConflictError extends Error {
+  constructor(public readonly current: Person) {
+    super(`Person ${current.id} is at version ${current.version}`);
+    this.name = "PersonVersionConflictError";
+  }
+}
+
+// The creator of a tree owns it without a membership row
+function withCreator(tree: Tree, creator: User | undefined, members: TreeMember[]): TreeMember[] {
+  const creatorMember: TreeMember = {
+    userId: tree.ownerId,
+    username: creator?.username ?? "",
+    role: "owner",
+    isCreator: true
+  };
+  return [creatorMember, ...members];
 }
 
+// Helper to get the reciprocal relationship type
+function getReciprocalType(type: string): string {
+  switch (type) {
+    case 'parent': return 'child';
+    case 'child': return 'parent';
+    case 'spouse': return 'spouse';
+    case 'sibling': return 'sibling';
+    default: return type;
+  }
+}
+
+// Expands the relationships of an imported document so each one appears
+// alongside its reciprocal exactly once, whichever sides the document listed
+function normalizeImportedRelationships(importedRelationships: InsertRelationship[]): InsertRelationship[] {
+  const seen = new Set<string>();
+  const normalized: InsertRelationship[] = [];
+
+  for (const relationship of importedRelationships) {
+    const pair = [
+      relationship,
+      {
+        type: getReciprocalType(relationship.type),
+        personId: relationship.relatedPersonId,
+        relatedPersonId: relationship.personId
+      }
+    ];
+
+    for (const { type, personId, relatedPersonId } of pair) {
+      const key = `${type}-${personId}-${relatedPersonId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      normalized.push({ type, personId, relatedPersonId });
+    }
+  }
+
+  return normalized;
+}
+
+const relationshipKey = (relationship: InsertRelationship) =>
+  `${relationship.type}-${relationship.personId}-${relationship.relatedPersonId}`;
+
+// Rewrites the person IDs of imported relationships to the newly assigned
+// (or merged) IDs, dropping those the tree already has
+function remapImportedRelationships(
+  importedRelationships: InsertRelationship[],
+  personIdMap: Record<number, number>,
+  existingRelationships: Relationship[] = []
+): InsertRelationship[] {
+  const existingKeys = new Set(existingRelationships.map(relationshipKey));
+
+  return normalizeImportedRelationships(importedRelationships)
+    .map(relationship => ({
+      type: relationship.type,
+      personId: personIdMap[relationship.personId],
+      relatedPersonId: personIdMap[relationship.relatedPersonId]
+    }))
+    .filter(relationship =>
+      // Two imported people merged into the same person can't relate to themselves
+      relationship.personId !== relationship.relatedPersonId &&
+      !existingKeys.has(relationshipKey(relationship))
+    );
+}
+
+// Insert in chunks to stay under PostgreSQL's bind parameter limit
+const IMPORT_CHUNK_SIZE = 1000;
+
+// Expired sessions are swept from memory once a day
+const SESSION_CHECK_PERIOD_MS = 24 * 60 * 60 * 1000;
+
 export class MemStorage implements IStorage {
-  private persons: Map<number, Person>;
-  private relationships: Map<number, Relationship>;
+  sessionStore: session.Store;
+  private users: Map<number, User>;
+  private trees: Map<number, Tree>;
+  private treeMembers: Map<number, TreeMembership>;
+  private treeInvites: Map<number, TreeInvite>;
+  private persons: Map<number, PersonRow>;
+  private relationships: Map<number, RelationshipRow>;
+  private revisions: Map<number, Revision>;
+  private currentUserId: number;
+  private currentTreeId: number;
+  private currentTreeMemberId: number;
+  private currentTreeInviteId: number;
   private currentPersonId: number;
   private currentRelationshipId: number;
+  private currentRevisionId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_CHECK_PERIOD_MS });
+    this.users = new Map();
+    this.trees = new Map();
+    this.treeMembers = new Map();
+    this.treeInvites = new Map();
     this.persons = new Map();
     this.relationships = new Map();
+    this.revisions = new Map();
+    this.currentUserId = 1;
+    this.currentTreeId = 1;
+    this.currentTreeMemberId = 1;
+    this.currentTreeInviteId = 1;
     this.currentPersonId = 1;
     this.currentRelationshipId = 1;
+    this.currentRevisionId = 1;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = { ...insertUser, id };
+    this.users.set(id, user);
+    return user;
+  }
+
+  // Tree operations
+  async getTreesForUser(userId: number): Promise<UserTree[]> {
+    const roles = new Map<number, TreeRole>();
+    this.treeMembers.forEach(member => {
+      if (member.userId === userId) roles.set(member.treeId, member.role);
+    });
+
+    return Array.from(this.trees.values()).flatMap((tree): UserTree[] => {
+      if (tree.ownerId === userId) return [{ ...tree, role: "owner" }];
+      const role = roles.get(tree.id);
+      return role ? [{ ...tree, role }] : [];
+    });
+  }
+
+  async getTree(id: number): Promise<Tree | undefined> {
+    return this.trees.get(id);
+  }
+
+  async createTree(ownerId: number, insertTree: InsertTree): Promise<Tree> {
+    const id = this.currentTreeId++;
+    const tree: Tree = { description: null, ...insertTree, id, ownerId };
+    this.trees.set(id, tree);
+    return tree;
+  }
+
+  async updateTree(id: number, updateTree: InsertTree): Promise<Tree | undefined> {
+    const existingTree = this.trees.get(id);
+    if (!existingTree) return undefined;
+
+    const updatedTree: Tree = { description: null, ...updateTree, id, ownerId: existingTree.ownerId };
+    this.trees.set(id, updatedTree);
+    return updatedTree;
+  }
+
+  async deleteTree(id: number): Promise<boolean> {
+    // Delete everything in the tree along with it
+    this.relationships.forEach((relationship, relationshipId) => {
+      if (relationship.treeId === id) this.relationships.delete(relationshipId);
+    });
+    this.persons.forEach((person, personId) => {
+      if (person.treeId === id) this.persons.delete(personId);
+    });
+    this.treeMembers.forEach((member, memberId) => {
+      if (member.treeId === id) this.treeMembers.delete(memberId);
+    });
+    this.treeInvites.forEach((invite, inviteId) => {
+      if (invite.treeId === id) this.treeInvites.delete(inviteId);
+    });
+    this.revisions.forEach((revision, revisionId) => {
+      if (revision.treeId === id) this.revisions.delete(revisionId);
+    });
+
+    return this.trees.delete(id);
+  }
+
+  // Sharing operations
+  async getTreeMembership(treeId: number, userId: number): Promise<TreeMembership | undefined> {
+    return Array.from(this.treeMembers.values()).find(
+      member => member.treeId === treeId && member.userId === userId
+    );
+  }
+
+  async getTreeMembers(treeId: number): Promise<TreeMember[]> {
+    const tree = this.trees.get(treeId);
+    if (!tree) return [];
+
+    const members = Array.from(this.treeMembers.values())
+      .filter(member => member.treeId === treeId)
+      .map(member => ({
+        userId: member.userId,
+        username: this.users.get(member.userId)?.username ?? "",
+        role: member.role,
+        isCreator: false
+      }));
+    return withCreator(tree, this.users.get(tree.ownerId), members);
+  }
+
+  async setTreeMemberRole(treeId: number, userId: number, role: TreeRole): Promise<TreeMembership> {
+    const existingMember = await this.getTreeMembership(treeId, userId);
+    const member: TreeMembership = {
+      id: existingMember?.id ?? this.currentTreeMemberId++,
+      treeId,
+      userId,
+      role
+    };
+    this.treeMembers.set(member.id, member);
+    return member;
+  }
+
+  async removeTreeMember(treeId: number, userId: number): Promise<boolean> {
+    const member = await this.getTreeMembership(treeId, userId);
+    return member ? this.treeMembers.delete(member.id) : false;
+  }
+
+  async getTreeInvites(treeId: number): Promise<TreeInvite[]> {
+    return Array.from(this.treeInvites.values()).filter(invite => invite.treeId === treeId);
+  }
+
+  async getTreeInviteByToken(token: string): Promise<TreeInvite | undefined> {
+    return Array.from(this.treeInvites.values()).find(invite => invite.token === token);
+  }
+
+  async createTreeInvite(treeId: number, newInvite: NewTreeInvite): Promise<TreeInvite> {
+    const id = this.currentTreeInviteId++;
+    const invite: TreeInvite = { ...newInvite, id, treeId };
+    this.treeInvites.set(id, invite);
+    return invite;
+  }
+
+  async deleteTreeInvite(treeId: number, id: number): Promise<boolean> {
+    const invite = this.treeInvites.get(id);
+    return invite?.treeId === treeId ? this.treeInvites.delete(id) : false;
   }
 
   // Person operations
-  async getPerson(id: number): Promise<Person | undefined> {
-    return this.persons.get(id);
+  async getPerson(treeId: number, id: number): Promise<Person | undefined> {
+    const person = this.persons.get(id);
+    return person?.treeId === treeId && !person.deletedAt ? withoutInternalColumns(person) : undefined;
   }
 
-  async getAllPersons(): Promise<Person[]> {
-    return Array.from(this.persons.values());
+  async getAllPersons(treeId: number): Promise<Person[]> {
+    return Array.from(this.persons.values())
+      .filter(person => person.treeId === treeId && !person.deletedAt)
+      .map(person => withoutInternalColumns(person));
   }
 
-  async createPerson(insertPerson: InsertPerson): Promise<Person> {
+  async createPerson(treeId: number, createdBy: number, insertPerson: InsertPerson): Promise<Person> {
     const id = this.currentPersonId++;
-    const person: Person = { ...insertPerson, id };
+    const person = toPersonRow(id, treeId, 1, createdBy, insertPerson);
     this.persons.set(id, person);
-    return person;
+    return withoutInternalColumns(person);
   }
 
-  async updatePerson(id: number, updatePerson: InsertPerson): Promise<Person | undefined> {
+  async updatePerson(treeId: number, id: number, updatePerson: InsertPerson, expectedVersion?: number): Promise<Person | undefined> {
+    // Read without awaiting, so no other update can save in between
     const existingPerson = this.persons.get(id);
-    if (!existingPerson) return undefined;
+    if (existingPerson?.treeId !== treeId || existingPerson.deletedAt) return undefined;
+    if (expectedVersion !== undefined && existingPerson.version !== expectedVersion) {
+      throw new PersonVersionConflictError(existingPerson);
+    }
     
-    const updatedPerson: Person = { ...updatePerson, id };
+    // Fields left out keep their value, as with an SQL UPDATE
+    const updatedPerson = toPersonRow(
+      id,
+      treeId,
+      existingPerson.version + 1,
+      existingPerson.createdBy,
+      { ...existingPerson, ...updatePerson }
+    );
     this.persons.set(id, updatedPerson);
-    return updatedPerson;
+    return withoutInternalColumns(updatedPerson);
   }
 
-  async deletePerson(id: number): Promise<boolean> {
-    // First delete all relationships for this person
-    const allRelationships = Array.from(this.relationships.values());
-    const personRelationships = allRelationships.filter(
-      r => r.personId === id || r.relatedPersonId === id
-    );
-    
-    for (const rel of personRelationships) {
-      await this.deleteRelationship(rel.id);
-    }
-    
-    return this.persons.delete(id);
+  async deletePerson(treeId: number, id: number): Promise<boolean> {
+    const person = this.persons.get(id);
+    if (person?.treeId !== treeId || person.deletedAt) return false;
+
+    // Trash all relationships for this person along with them
+    const deletedAt = new Date();
+    this.relationships.forEach(rel => {
+      if (rel.treeId === treeId && !rel.deletedAt && (rel.personId === id || rel.relatedPersonId === id)) {
+        this.relationships.set(rel.id, { ...rel, deletedAt });
+      }
+    });
+    this.persons.set(id, { ...person, deletedAt });
+    return true;
   }
 
   // Relationship operations
-  async getRelationship(id: number): Promise<Relationship | undefined> {
-    return this.relationships.get(id);
+  async getRelationship(treeId: number, id: number): Promise<Relationship | undefined> {
+    const relationship = this.relationships.get(id);
+    return relationship?.treeId === treeId && !relationship.deletedAt ? withoutInternalColumns(relationship) : undefined;
   }
 
-  async getRelationshipsByPerson(personId: number): Promise<Relationship[]> {
-    return Array.from(this.relationships.values()).filter(
-      rel => rel.personId === personId || rel.relatedPersonId === personId
-    );
+  async getRelationshipsByPerson(treeId: number, personId: number): Promise<Relationship[]> {
+    return Array.from(this.relationships.values())
+      .filter(rel =>
+        rel.treeId === treeId && !rel.deletedAt && (rel.personId === personId || rel.relatedPersonId === personId)
+      )
+      .map(rel => withoutInternalColumns(rel));
   }
 
-  async createRelationship(insertRelationship: InsertRelationship): Promise<Relationship> {
+  async createRelationship(treeId: number, insertRelationship: InsertRelationship): Promise<Relationship> {
     const id = this.currentRelationshipId++;
-    const relationship: Relationship = { ...insertRelationship, id };
+    const relationship: RelationshipRow = { id, treeId, ...insertRelationship, deletedAt: null };
     this.relationships.set(id, relationship);
     
     // If adding a spouse relationship, create the reciprocal relationship as well
     if (insertRelationship.type === 'spouse') {
-      const reciprocal: Relationship = {
+      const reciprocal: RelationshipRow = {
         id: this.currentRelationshipId++,
+        treeId,
         type: 'spouse',
         personId: insertRelationship.relatedPersonId,
-        relatedPersonId: insertRelationship.personId
+        relatedPersonId: insertRelationship.personId,
+        deletedAt: null
       };
       this.relationships.set(reciprocal.id, reciprocal);
     }
     
     // If adding a parent relationship, create the child relationship as well
     if (insertRelationship.type === 'parent') {
-      const reciprocal: Relationship = {
+      const reciprocal: RelationshipRow = {
         id: this.currentRelationshipId++,
+        treeId,
         type: 'child',
         personId: insertRelationship.relatedPersonId,
-        relatedPersonId: insertRelationship.personId
+        relatedPersonId: insertRelationship.personId,
+        deletedAt: null
       };
       this.relationships.set(reciprocal.id, reciprocal);
     }
     
     // If adding a child relationship, create the parent relationship as well
     if (insertRelationship.type === 'child') {
-      const reciprocal: Relationship = {
+      const reciprocal: RelationshipRow = {
         id: this.currentRelationshipId++,
+        treeId,
         type: 'parent',
         personId: insertRelationship.relatedPersonId,
-        relatedPersonId: insertRelationship.personId
+        relatedPersonId: insertRelationship.personId,
+        deletedAt: null
       };
       this.relationships.set(reciprocal.id, reciprocal);
     }
     
     // If adding a sibling relationship, create the reciprocal relationship as well
     if (insertRelationship.type === 'sibling') {
-      const reciprocal: Relationship = {
+      const reciprocal: RelationshipRow = {
         id: this.currentRelationshipId++,
+        treeId,
         type: 'sibling',
         personId: insertRelationship.relatedPersonId,
-        relatedPersonId: insertRelationship.personId
+        relatedPersonId: insertRelationship.personId,
+        deletedAt: null
       };
       this.relationships.set(reciprocal.id, reciprocal);
     }
     
-    return relationship;
+    return withoutInternalColumns(relationship);
   }
 
-  async deleteRelationship(id: number): Promise<boolean> {
-    const relationship = this.relationships.get(id);
+  async deleteRelationship(treeId: number, id: number): Promise<boolean> {
+    const relationship = await this.getRelationship(treeId, id);
     if (!relationship) return false;
     
     // Also delete the reciprocal relationship if it exists
     const reciprocalRelationships = Array.from(this.relationships.values()).filter(
       rel => 
+        rel.treeId === treeId &&
+        !rel.deletedAt &&
         rel.personId === relationship.relatedPersonId && 
         rel.relatedPersonId === relationship.personId && 
-        rel.type === this.getReciprocalType(relationship.type)
+        rel.type === getReciprocalType(relationship.type)
     );
     
     for (const rel of reciprocalRelationships) {
@@ -156,25 +529,1075 @@ export class MemStorage implements IStorage {
     
     return this.relationships.delete(id);
   }
-  
-  // Helper method to get the reciprocal relationship type
-  private getReciprocalType(type: string): string {
-    switch (type) {
-      case 'parent': return 'child';
-      case 'child': return 'parent';
-      case 'spouse': return 'spouse';
-      case 'sibling': return 'sibling';
-      default: return type;
-    }
+
+  // Trash operations
+  async getTrash(treeId: number): Promise<Omit<TreeTrash, "retentionDays">> {
+    return {
+      persons: Array.from(this.persons.values())
+        .filter((person): person is PersonRow & TrashedPerson => person.treeId === treeId && !!person.deletedAt)
+        .map(person => ({ ...withoutInternalColumns(person), deletedAt: person.deletedAt })),
+      relationships: Array.from(this.relationships.values())
+        .filter((rel): rel is RelationshipRow & TrashedRelationship => rel.treeId === treeId && !!rel.deletedAt)
+        .map(rel => ({ ...withoutInternalColumns(rel), deletedAt: rel.deletedAt }))
+    };
+  }
+
+  async restorePerson(treeId: number, id: number): Promise<FamilyTreeData | undefined> {
+    const person = this.persons.get(id);
+    if (person?.treeId !== treeId || !person.deletedAt) return undefined;
+
+    const restoredPerson: PersonRow = { ...person, deletedAt: null };
+    this.persons.set(id, restoredPerson);
+
+    const restoredRelationships: RelationshipRow[] = [];
+    this.relationships.forEach(rel => {
+      if (rel.treeId !== treeId || !rel.deletedAt) return;
+      if (rel.personId !== id && rel.relatedPersonId !== id) return;
+      // Those to someone still in the trash wait for them to be restored too
+      const otherId = rel.personId === id ? rel.relatedPersonId : rel.personId;
+      if (this.persons.get(otherId)?.deletedAt !== null) return;
+
+      const restoredRelationship: RelationshipRow = { ...rel, deletedAt: null };
+      this.relationships.set(rel.id, restoredRelationship);
+      restoredRelationships.push(restoredRelationship);
+    });
+
+    return {
+      persons: [withoutInternalColumns(restoredPerson)],
+      relationships: restoredRelationships.map(rel => withoutInternalColumns(rel))
+    };
+  }
+
+  async purgePerson(treeId: number, id: number): Promise<boolean> {
+    const person = this.persons.get(id);
+    if (person?.treeId !== treeId || !person.deletedAt) return false;
+
+    this.purgePersonIds(new Set([id]));
+    return true;
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    const ids = new Set<number>();
+    this.persons.forEach(person => {
+      if (person.deletedAt && person.deletedAt < deletedBefore) ids.add(person.id);
+    });
+
+    this.purgePersonIds(ids);
+    return ids.size;
+  }
+
+  // Permanently deletes the given persons and every relationship they're in
+  private purgePersonIds(ids: Set<number>) {
+    this.relationships.forEach((rel, relationshipId) => {
+      if (ids.has(rel.personId) || ids.has(rel.relatedPersonId)) this.relationships.delete(relationshipId);
+    });
+    ids.forEach(id => this.persons.delete(id));
+  }
+
+  // Edit history
+  async addRevisions(treeId: number, newRevisions: NewRevision[]): Promise<void> {
+    newRevisions.forEach(newRevision => {
+      const id = this.currentRevisionId++;
+      this.revisions.set(id, { ...newRevision, id, treeId });
+    });
+  }
+
+  async getPersonHistory(treeId: number, personId: number): Promise<PersonHistoryEntry[]> {
+    return Array.from(this.revisions.values())
+      .filter(revision => revision.treeId === treeId && revision.personId === personId)
+      .sort((a, b) => b.id - a.id)
+      .map(({ treeId, ...revision }) => ({
+        ...revision,
+        username: this.users.get(revision.userId)?.username ?? ""
+      }));
   }
 
   // Family tree operations
-  async getFamilyTreeData(): Promise<FamilyTreeData> {
+  async getFamilyTreeData(treeId: number): Promise<FamilyTreeData> {
     return {
-      persons: Array.from(this.persons.values()),
+      persons: await this.getAllPersons(treeId),
       relationships: Array.from(this.relationships.values())
+        .filter(rel => rel.treeId === treeId && !rel.deletedAt)
+        .map(rel => withoutInternalColumns(rel))
+    };
+  }
+
+  async importFamilyTree(treeId: number, createdBy: number, data: FamilyTreeImport): Promise<ImportResult> {
+    const merges = new Map((data.merges ?? []).map(merge => [merge.importedId, merge]));
+    const personIdMap: Record<number, number> = {};
+    let personCount = 0;
+    for (const { id: importedId, ...insertPerson } of data.persons) {
+      const merge = merges.get(importedId);
+      if (merge) {
+        if (merge.person) {
+          await this.updatePerson(treeId, merge.existingId, merge.person);
+        }
+        personIdMap[importedId] = merge.existingId;
+        continue;
+      }
+
+      const person = await this.createPerson(treeId, createdBy, insertPerson);
+      personIdMap[importedId] = person.id;
+      personCount++;
+    }
+
+    const { relationships: existingRelationships } = await this.getFamilyTreeData(treeId);
+    const newRelationships = remapImportedRelationships(
+      data.relationships,
+      personIdMap,
+      existingRelationships
+    );
+    for (const insertRelationship of newRelationships) {
+      const id = this.currentRelationshipId++;
+      this.relationships.set(id, { id, treeId, ...insertRelationship, deletedAt: null });
+    }
+
+    return {
+      personCount,
+      relationshipCount: newRelationships.length,
+      personIdMap
+    };
+  }
+
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+
+      // The first account takes over the trees from before there were accounts
+      await tx.update(trees)
+        .set({ ownerId: user.id })
+        .where(eq(trees.ownerId, UNOWNED_TREE_OWNER_ID));
+
+      return user;
+    });
+  }
+
+  // Tree operations
+  async getTreesForUser(userId: number): Promise<UserTree[]> {
+    const ownedTrees = await this.db.select().from(trees).where(eq(trees.ownerId, userId));
+    const sharedTrees = await this.db
+      .select({ tree: trees, role: treeMembers.role })
+      .from(treeMembers)
+      .innerJoin(trees, eq(trees.id, treeMembers.treeId))
+      .where(eq(treeMembers.userId, userId));
+
+    return [
+      ...ownedTrees.map((tree): UserTree => ({ ...tree, role: "owner" })),
+      ...sharedTrees.map(({ tree, role }): UserTree => ({ ...tree, role }))
+    ].sort((a, b) => a.id - b.id);
+  }
+
+  async getTree(id: number): Promise<Tree | undefined> {
+    const [tree] = await this.db.select().from(trees).where(eq(trees.id, id));
+    return tree;
+  }
+
+  async createTree(ownerId: number, insertTree: InsertTree): Promise<Tree> {
+    const [tree] = await this.db.insert(trees).values({ ...insertTree, ownerId }).returning();
+    return tree;
+  }
+
+  async updateTree(id: number, updateTree: InsertTree): Promise<Tree | undefined> {
+    const [tree] = await this.db
+      .update(trees)
+      .set(updateTree)
+      .where(eq(trees.id, id))
+      .returning();
+    return tree;
+  }
+
+  async deleteTree(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Delete everything in the tree along with it
+      await tx.delete(relationships).where(eq(relationships.treeId, id));
+      await tx.delete(persons).where(eq(persons.treeId, id));
+      await tx.delete(treeMembers).where(eq(treeMembers.treeId, id));
+      await tx.delete(treeInvites).where(eq(treeInvites.treeId, id));
+      await tx.delete(revisions).where(eq(revisions.treeId, id));
+
+      const deleted = await tx.delete(trees).where(eq(trees.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Sharing operations
+  async getTreeMembership(treeId: number, userId: number): Promise<TreeMembership | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(treeMembers)
+      .where(and(eq(treeMembers.treeId, treeId), eq(treeMembers.userId, userId)));
+    return member;
+  }
+
+  async getTreeMembers(treeId: number): Promise<TreeMember[]> {
+    const tree = await this.getTree(treeId);
+    if (!tree) return [];
+
+    const creator = await this.getUser(tree.ownerId);
+    const members = await this.db
+      .select({ userId: treeMembers.userId, username: users.username, role: treeMembers.role })
+      .from(treeMembers)
+      .innerJoin(users, eq(users.id, treeMembers.userId))
+      .where(eq(treeMembers.treeId, treeId));
+    return withCreator(tree, creator, members.map(member => ({ ...member, isCreator: false })));
+  }
+
+  async setTreeMemberRole(treeId: number, userId: number, role: TreeRole): Promise<TreeMembership> {
+    const [member] = await this.db
+      .insert(treeMembers)
+      .values({ treeId, userId, role })
+      .onConflictDoUpdate({ target: [treeMembers.treeId, treeMembers.userId], set: { role } })
+      .returning();
+    return member;
+  }
+
+  async removeTreeMember(treeId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(treeMembers)
+      .where(and(eq(treeMembers.treeId, treeId), eq(treeMembers.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getTreeInvites(treeId: number): Promise<TreeInvite[]> {
+    return this.db.select().from(treeInvites).where(eq(treeInvites.treeId, treeId));
+  }
+
+  async getTreeInviteByToken(token: string): Promise<TreeInvite | undefined> {
+    const [invite] = await this.db.select().from(treeInvites).where(eq(treeInvites.token, token));
+    return invite;
+  }
+
+  async createTreeInvite(treeId: number, newInvite: NewTreeInvite): Promise<TreeInvite> {
+    const [invite] = await this.db.insert(treeInvites).values({ ...newInvite, treeId }).returning();
+    return invite;
+  }
+
+  async deleteTreeInvite(treeId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(treeInvites)
+      .where(and(eq(treeInvites.treeId, treeId), eq(treeInvites.id, id)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Person operations
+  async getPerson(treeId: number, id: number): Promise<Person | undefined> {
+    const [person] = await this.db
+      .select(personColumns)
+      .from(persons)
+      .where(and(eq(persons.treeId, treeId), eq(persons.id, id), isNull(persons.deletedAt)));
+    return person;
+  }
+
+  async getAllPersons(treeId: number): Promise<Person[]> {
+    return this.db.select(personColumns).from(persons).where(and(eq(persons.treeId, treeId), isNull(persons.deletedAt)));
+  }
+
+  async createPerson(treeId: number, createdBy: number, insertPerson: InsertPerson): Promise<Person> {
+    const [person] = await this.db.insert(persons).values({ ...insertPerson, treeId, createdBy }).returning(personColumns);
+    return person;
+  }
+
+  async updatePerson(treeId: number, id: number, updatePerson: InsertPerson, expectedVersion?: number): Promise<Person | undefined> {
+    const [person] = await this.db
+      .update(persons)
+      .set({ ...updatePerson, version: sql`${persons.version} + 1` })
+      .where(and(
+        eq(persons.treeId, treeId),
+        eq(persons.id, id),
+        isNull(persons.deletedAt),
+        expectedVersion !== undefined ? eq(persons.version, expectedVersion) : undefined
+      ))
+      .returning(personColumns);
+    if (person || expectedVersion === undefined) return person;
+
+    // Either the person is gone or someone else saved first
+    const current = await this.getPerson(treeId, id);
+    if (current) throw new PersonVersionConflictError(current);
+    return undefined;
+  }
+
+  async deletePerson(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deletedAt = new Date();
+      const deleted = await tx
+        .update(persons)
+        .set({ deletedAt })
+        .where(and(eq(persons.treeId, treeId), eq(persons.id, id), isNull(persons.deletedAt)))
+        .returning();
+      if (deleted.length === 0) return false;
+
+      // Trash all relationships for this person along with them
+      await tx.update(relationships).set({ deletedAt }).where(
+        and(
+          eq(relationships.treeId, treeId),
+          isNull(relationships.deletedAt),
+          or(eq(relationships.personId, id), eq(relationships.relatedPersonId, id))
+        )
+      );
+      return true;
+    });
+  }
+
+  // Relationship operations
+  async getRelationship(treeId: number, id: number): Promise<Relationship | undefined> {
+    const [relationship] = await this.db
+      .select(relationshipColumns)
+      .from(relationships)
+      .where(and(eq(relationships.treeId, treeId), eq(relationships.id, id), isNull(relationships.deletedAt)));
+    return relationship;
+  }
+
+  async getRelationshipsByPerson(treeId: number, personId: number): Promise<Relationship[]> {
+    return this.db.select(relationshipColumns).from(relationships).where(
+      and(
+        eq(relationships.treeId, treeId),
+        isNull(relationships.deletedAt),
+        or(eq(relationships.personId, personId), eq(relationships.relatedPersonId, personId))
+      )
+    );
+  }
+
+  async createRelationship(treeId: number, insertRelationship: InsertRelationship): Promise<Relationship> {
+    return this.db.transaction(async (tx) => {
+      const [relationship] = await tx
+        .insert(relationships)
+        .values({ ...insertRelationship, treeId })
+        .returning(relationshipColumns);
+
+      // Every relationship type has a reciprocal, so store it alongside
+      await tx.insert(relationships).values({
+        treeId,
+        type: getReciprocalType(insertRelationship.type),
+        personId: insertRelationship.relatedPersonId,
+        relatedPersonId: insertRelationship.personId
+      });
+
+      return relationship;
+    });
+  }
+
+  async deleteRelationship(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [relationship] = await tx
+        .select()
+        .from(relationships)
+        .where(and(eq(relationships.treeId, treeId), eq(relationships.id, id), isNull(relationships.deletedAt)));
+      if (!relationship) return false;
+
+      // Also delete the reciprocal relationship if it exists
+      await tx.delete(relationships).where(
+        and(
+          eq(relationships.treeId, treeId),
+          isNull(relationships.deletedAt),
+          eq(relationships.personId, relationship.relatedPersonId),
+          eq(relationships.relatedPersonId, relationship.personId),
+          eq(relationships.type, getReciprocalType(relationship.type))
+        )
+      );
+
+      await tx.delete(relationships).where(eq(relationships.id, id));
+      return true;
+    });
+  }
+
+  // Trash operations
+  async getTrash(treeId: number): Promise<Omit<TreeTrash, "retentionDays">> {
+    const [trashedPersons, trashedRelationships] = await Promise.all([
+      this.db
+        .select({ ...personColumns, deletedAt: persons.deletedAt })
+        .from(persons)
+        .where(and(eq(persons.treeId, treeId), isNotNull(persons.deletedAt))),
+      this.db
+        .select({ ...relationshipColumns, deletedAt: relationships.deletedAt })
+        .from(relationships)
+        .where(and(eq(relationships.treeId, treeId), isNotNull(relationships.deletedAt)))
+    ]);
+
+    return {
+      persons: trashedPersons as TrashedPerson[],
+      relationships: trashedRelationships as TrashedRelationship[]
+    };
+  }
+
+  async restorePerson(treeId: number, id: number): Promise<FamilyTreeData | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [person] = await tx
+        .update(persons)
+        .set({ deletedAt: null })
+        .where(and(eq(persons.treeId, treeId), eq(persons.id, id), isNotNull(persons.deletedAt)))
+        .returning(personColumns);
+      if (!person) return undefined;
+
+      // Those to someone still in the trash wait for them to be restored too
+      const activePersonIds = tx
+        .select({ id: persons.id })
+        .from(persons)
+        .where(and(eq(persons.treeId, treeId), isNull(persons.deletedAt)));
+      const restoredRelationships = await tx
+        .update(relationships)
+        .set({ deletedAt: null })
+        .where(and(
+          eq(relationships.treeId, treeId),
+          isNotNull(relationships.deletedAt),
+          or(eq(relationships.personId, id), eq(relationships.relatedPersonId, id)),
+          inArray(relationships.personId, activePersonIds),
+          inArray(relationships.relatedPersonId, activePersonIds)
+        ))
+        .returning(relationshipColumns);
+
+      return { persons: [person], relationships: restoredRelationships };
+    });
+  }
+
+  async purgePerson(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const purged = await tx
+        .delete(persons)
+        .where(and(eq(persons.treeId, treeId), eq(persons.id, id), isNotNull(persons.deletedAt)))
+        .returning();
+      if (purged.length === 0) return false;
+
+      await tx.delete(relationships).where(
+        and(
+          eq(relationships.treeId, treeId),
+          or(eq(relationships.personId, id), eq(relationships.relatedPersonId, id))
+        )
+      );
+      return true;
+    });
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const expiredPersonIds = tx
+        .select({ id: persons.id })
+        .from(persons)
+        .where(lt(persons.deletedAt, deletedBefore));
+      await tx.delete(relationships).where(
+        or(inArray(relationships.personId, expiredPersonIds), inArray(relationships.relatedPersonId, expiredPersonIds))
+      );
+
+      const purged = await tx
+        .delete(persons)
+        .where(lt(persons.deletedAt, deletedBefore))
+        .returning({ id: persons.id });
+      return purged.length;
+    });
+  }
+
+  // Edit history
+  async addRevisions(treeId: number, newRevisions: NewRevision[]): Promise<void> {
+    for (let start = 0; start < newRevisions.length; start += IMPORT_CHUNK_SIZE) {
+      await this.db
+        .insert(revisions)
+        .values(newRevisions.slice(start, start + IMPORT_CHUNK_SIZE).map(revision => ({ ...revision, treeId })));
+    }
+  }
+
+  async getPersonHistory(treeId: number, personId: number): Promise<PersonHistoryEntry[]> {
+    const { treeId: _treeId, ...revisionColumns } = getTableColumns(revisions);
+    return this.db
+      .select({ ...revisionColumns, username: users.username })
+      .from(revisions)
+      .innerJoin(users, eq(users.id, revisions.userId))
+      .where(and(eq(revisions.treeId, treeId), eq(revisions.personId, personId)))
+      .orderBy(desc(revisions.id));
+  }
+
+  // Family tree operations
+  async getFamilyTreeData(treeId: number): Promise<FamilyTreeData> {
+    const [treePersons, treeRelationships] = await Promise.all([
+      this.db.select(personColumns).from(persons).where(and(eq(persons.treeId, treeId), isNull(persons.deletedAt))),
+      this.db
+        .select(relationshipColumns)
+        .from(relationships)
+        .where(and(eq(relationships.treeId, treeId), isNull(relationships.deletedAt)))
+    ]);
+
+    return {
+      persons: treePersons,
+      relationships: treeRelationships
+    };
+  }
+
+  async importFamilyTree(treeId: number, createdBy: number, data: FamilyTreeImport): Promise<ImportResult> {
+    const merges = new Map((data.merges ?? []).map(merge => [merge.importedId, merge]));
+    const newPersons = data.persons.filter(person => !merges.has(person.id));
+
+    return this.db.transaction(async (tx) => {
+      const personIdMap: Record<number, number> = {};
+      const existingRelationships: Relationship[] = [];
+      let personCount = 0;
+
+      // As in the other backends, merges of people not in the import are ignored
+      const mergeList = data.persons.flatMap(person => merges.get(person.id) ?? []);
+      for (const merge of mergeList) {
+        if (merge.person) {
+          await tx.update(persons).set({ ...merge.person, version: sql`${persons.version} + 1` }).where(
+            and(eq(persons.treeId, treeId), eq(persons.id, merge.existingId))
+          );
+        }
+        personIdMap[merge.importedId] = merge.existingId;
+      }
+
+      // Relationships of merged persons that may already exist
+      for (let start = 0; start < mergeList.length; start += IMPORT_CHUNK_SIZE) {
+        const existingIds = mergeList.slice(start, start + IMPORT_CHUNK_SIZE).map(merge => merge.existingId);
+        existingRelationships.push(
+          ...await tx.select(relationshipColumns).from(relationships).where(
+            and(
+              eq(relationships.treeId, treeId),
+              isNull(relationships.deletedAt),
+              inArray(relationships.personId, existingIds)
+            )
+          )
+        );
+      }
+
+      for (let start = 0; start < newPersons.length; start += IMPORT_CHUNK_SIZE) {
+        const chunk = newPersons.slice(start, start + IMPORT_CHUNK_SIZE);
+        const inserted = await tx
+          .insert(persons)
+          .values(chunk.map(({ id, ...insertPerson }) => ({ ...insertPerson, treeId, createdBy })))
+          .returning({ id: persons.id });
+
+        // RETURNING yields rows in the order of the VALUES list
+        inserted.forEach((row, index) => {
+          personIdMap[chunk[index].id] = row.id;
+        });
+        personCount += inserted.length;
+      }
+
+      const newRelationships = remapImportedRelationships(
+        data.relationships,
+        personIdMap,
+        existingRelationships
+      );
+      for (let start = 0; start < newRelationships.length; start += IMPORT_CHUNK_SIZE) {
+        await tx
+          .insert(relationships)
+          .values(newRelationships.slice(start, start + IMPORT_CHUNK_SIZE).map(relationship => ({ ...relationship, treeId })));
+      }
+
+      return {
+        personCount,
+        relationshipCount: newRelationships.length,
+        personIdMap
+      };
+    });
+  }
+
+}
+
+export class SqliteStorage implements IStorage {
+  // Sessions are kept in memory, so everyone has to log in again after a restart
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: SESSION_CHECK_PERIOD_MS });
+
+  constructor(private db: sqlite.SqliteDatabase) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.db.select().from(sqlite.users).where(eq(sqlite.users.id, id)).get();
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.db.select().from(sqlite.users).where(eq(sqlite.users.username, username)).get();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction((tx) => {
+      const user = tx.insert(sqlite.users).values(insertUser).returning().get();
+
+      // The first account takes over the trees from before there were accounts
+      tx.update(sqlite.trees)
+        .set({ ownerId: user.id })
+        .where(eq(sqlite.trees.ownerId, UNOWNED_TREE_OWNER_ID))
+        .run();
+
+      return user;
+    });
+  }
+
+  // Tree operations
+  async getTreesForUser(userId: number): Promise<UserTree[]> {
+    const ownedTrees = this.db.select().from(sqlite.trees).where(eq(sqlite.trees.ownerId, userId)).all();
+    const sharedTrees = this.db
+      .select({ tree: sqlite.trees, role: sqlite.treeMembers.role })
+      .from(sqlite.treeMembers)
+      .innerJoin(sqlite.trees, eq(sqlite.trees.id, sqlite.treeMembers.treeId))
+      .where(eq(sqlite.treeMembers.userId, userId))
+      .all();
+
+    return [
+      ...ownedTrees.map((tree): UserTree => ({ ...tree, role: "owner" })),
+      ...sharedTrees.map(({ tree, role }): UserTree => ({ ...tree, role }))
+    ].sort((a, b) => a.id - b.id);
+  }
+
+  async getTree(id: number): Promise<Tree | undefined> {
+    return this.db.select().from(sqlite.trees).where(eq(sqlite.trees.id, id)).get();
+  }
+
+  async createTree(ownerId: number, insertTree: InsertTree): Promise<Tree> {
+    return this.db.insert(sqlite.trees).values({ ...insertTree, ownerId }).returning().get();
+  }
+
+  async updateTree(id: number, updateTree: InsertTree): Promise<Tree | undefined> {
+    return this.db
+      .update(sqlite.trees)
+      .set(updateTree)
+      .where(eq(sqlite.trees.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteTree(id: number): Promise<boolean> {
+    return this.db.transaction((tx) => {
+      // Delete everything in the tree along with it
+      tx.delete(sqlite.relationships).where(eq(sqlite.relationships.treeId, id)).run();
+      tx.delete(sqlite.persons).where(eq(sqlite.persons.treeId, id)).run();
+      tx.delete(sqlite.treeMembers).where(eq(sqlite.treeMembers.treeId, id)).run();
+      tx.delete(sqlite.treeInvites).where(eq(sqlite.treeInvites.treeId, id)).run();
+      tx.delete(sqlite.revisions).where(eq(sqlite.revisions.treeId, id)).run();
+
+      const result = tx.delete(sqlite.trees).where(eq(sqlite.trees.id, id)).run();
+      return result.changes > 0;
+    });
+  }
+
+  // Sharing operations
+  async getTreeMembership(treeId: number, userId: number): Promise<TreeMembership | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.treeMembers)
+      .where(and(eq(sqlite.treeMembers.treeId, treeId), eq(sqlite.treeMembers.userId, userId)))
+      .get();
+  }
+
+  async getTreeMembers(treeId: number): Promise<TreeMember[]> {
+    const tree = await this.getTree(treeId);
+    if (!tree) return [];
+
+    const creator = await this.getUser(tree.ownerId);
+    const members = this.db
+      .select({ userId: sqlite.treeMembers.userId, username: sqlite.users.username, role: sqlite.treeMembers.role })
+      .from(sqlite.treeMembers)
+      .innerJoin(sqlite.users, eq(sqlite.users.id, sqlite.treeMembers.userId))
+      .where(eq(sqlite.treeMembers.treeId, treeId))
+      .all();
+    return withCreator(tree, creator, members.map(member => ({ ...member, isCreator: false })));
+  }
+
+  async setTreeMemberRole(treeId: number, userId: number, role: TreeRole): Promise<TreeMembership> {
+    return this.db
+      .insert(sqlite.treeMembers)
+      .values({ treeId, userId, role })
+      .onConflictDoUpdate({ target: [sqlite.treeMembers.treeId, sqlite.treeMembers.userId], set: { role } })
+      .returning()
+      .get();
+  }
+
+  async removeTreeMember(treeId: number, userId: number): Promise<boolean> {
+    const result = this.db
+      .delete(sqlite.treeMembers)
+      .where(and(eq(sqlite.treeMembers.treeId, treeId), eq(sqlite.treeMembers.userId, userId)))
+      .run();
+    return result.changes > 0;
+  }
+
+  async getTreeInvites(treeId: number): Promise<TreeInvite[]> {
+    return this.db.select().from(sqlite.treeInvites).where(eq(sqlite.treeInvites.treeId, treeId)).all();
+  }
+
+  async getTreeInviteByToken(token: string): Promise<TreeInvite | undefined> {
+    return this.db.select().from(sqlite.treeInvites).where(eq(sqlite.treeInvites.token, token)).get();
+  }
+
+  async createTreeInvite(treeId: number, newInvite: NewTreeInvite): Promise<TreeInvite> {
+    return this.db.insert(sqlite.treeInvites).values({ ...newInvite, treeId }).returning().get();
+  }
+
+  async deleteTreeInvite(treeId: number, id: number): Promise<boolean> {
+    const result = this.db
+      .delete(sqlite.treeInvites)
+      .where(and(eq(sqlite.treeInvites.treeId, treeId), eq(sqlite.treeInvites.id, id)))
+      .run();
+    return result.changes > 0;
+  }
+
+  // Person operations
+  async getPerson(treeId: number, id: number): Promise<Person | undefined> {
+    return this.db
+      .select(sqlitePersonColumns)
+      .from(sqlite.persons)
+      .where(and(eq(sqlite.persons.treeId, treeId), eq(sqlite.persons.id, id), isNull(sqlite.persons.deletedAt)))
+      .get();
+  }
+
+  async getAllPersons(treeId: number): Promise<Person[]> {
+    return this.db
+      .select(sqlitePersonColumns)
+      .from(sqlite.persons)
+      .where(and(eq(sqlite.persons.treeId, treeId), isNull(sqlite.persons.deletedAt)))
+      .all();
+  }
+
+  async createPerson(treeId: number, createdBy: number, insertPerson: InsertPerson): Promise<Person> {
+    return this.db
+      .insert(sqlite.persons)
+      .values({ ...insertPerson, treeId, createdBy })
+      .returning(sqlitePersonColumns)
+      .get();
+  }
+
+  async updatePerson(treeId: number, id: number, updatePerson: InsertPerson, expectedVersion?: number): Promise<Person | undefined> {
+    const person = this.db
+      .update(sqlite.persons)
+      .set({ ...updatePerson, version: sql`${sqlite.persons.version} + 1` })
+      .where(and(
+        eq(sqlite.persons.treeId, treeId),
+        eq(sqlite.persons.id, id),
+        isNull(sqlite.persons.deletedAt),
+        expectedVersion !== undefined ? eq(sqlite.persons.version, expectedVersion) : undefined
+      ))
+      .returning(sqlitePersonColumns)
+      .get();
+    if (person || expectedVersion === undefined) return person;
+
+    // Either the person is gone or someone else saved first
+    const current = await this.getPerson(treeId, id);
+    if (current) throw new PersonVersionConflictError(current);
+    return undefined;
+  }
+
+  async deletePerson(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction((tx) => {
+      const deletedAt = new Date();
+      const result = tx
+        .update(sqlite.persons)
+        .set({ deletedAt })
+        .where(and(
+          eq(sqlite.persons.treeId, treeId),
+          eq(sqlite.persons.id, id),
+          isNull(sqlite.persons.deletedAt)
+        ))
+        .run();
+      if (result.changes === 0) return false;
+
+      // Trash all relationships for this person along with them
+      tx.update(sqlite.relationships).set({ deletedAt }).where(
+        and(
+          eq(sqlite.relationships.treeId, treeId),
+          isNull(sqlite.relationships.deletedAt),
+          or(
+            eq(sqlite.relationships.personId, id),
+            eq(sqlite.relationships.relatedPersonId, id)
+          )
+        )
+      ).run();
+      return true;
+    });
+  }
+
+  // Relationship operations
+  async getRelationship(treeId: number, id: number): Promise<Relationship | undefined> {
+    return this.db
+      .select(sqliteRelationshipColumns)
+      .from(sqlite.relationships)
+      .where(and(
+        eq(sqlite.relationships.treeId, treeId),
+        eq(sqlite.relationships.id, id),
+        isNull(sqlite.relationships.deletedAt)
+      ))
+      .get();
+  }
+
+  async getRelationshipsByPerson(treeId: number, personId: number): Promise<Relationship[]> {
+    return this.db.select(sqliteRelationshipColumns).from(sqlite.relationships).where(
+      and(
+        eq(sqlite.relationships.treeId, treeId),
+        isNull(sqlite.relationships.deletedAt),
+        or(
+          eq(sqlite.relationships.personId, personId),
+          eq(sqlite.relationships.relatedPersonId, personId)
+        )
+      )
+    ).all();
+  }
+
+  async createRelationship(treeId: number, insertRelationship: InsertRelationship): Promise<Relationship> {
+    return this.db.transaction((tx) => {
+      const relationship = tx
+        .insert(sqlite.relationships)
+        .values({ ...insertRelationship, treeId })
+        .returning(sqliteRelationshipColumns)
+        .get();
+
+      // Every relationship type has a reciprocal, so store it alongside
+      tx.insert(sqlite.relationships).values({
+        treeId,
+        type: getReciprocalType(insertRelationship.type),
+        personId: insertRelationship.relatedPersonId,
+        relatedPersonId: insertRelationship.personId
+      }).run();
+
+      return relationship;
+    });
+  }
+
+  async deleteRelationship(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction((tx) => {
+      const relationship = tx
+        .select()
+        .from(sqlite.relationships)
+        .where(and(
+          eq(sqlite.relationships.treeId, treeId),
+          eq(sqlite.relationships.id, id),
+          isNull(sqlite.relationships.deletedAt)
+        ))
+        .get();
+      if (!relationship) return false;
+
+      // Also delete the reciprocal relationship if it exists
+      tx.delete(sqlite.relationships).where(
+        and(
+          eq(sqlite.relationships.treeId, treeId),
+          isNull(sqlite.relationships.deletedAt),
+          eq(sqlite.relationships.personId, relationship.relatedPersonId),
+          eq(sqlite.relationships.relatedPersonId, relationship.personId),
+          eq(sqlite.relationships.type, getReciprocalType(relationship.type))
+        )
+      ).run();
+
+      tx.delete(sqlite.relationships).where(eq(sqlite.relationships.id, id)).run();
+      return true;
+    });
+  }
+
+  // Trash operations
+  async getTrash(treeId: number): Promise<Omit<TreeTrash, "retentionDays">> {
+    return {
+      persons: this.db
+        .select({ ...sqlitePersonColumns, deletedAt: sqlite.persons.deletedAt })
+        .from(sqlite.persons)
+        .where(and(eq(sqlite.persons.treeId, treeId), isNotNull(sqlite.persons.deletedAt)))
+        .all() as TrashedPerson[],
+      relationships: this.db
+        .select({ ...sqliteRelationshipColumns, deletedAt: sqlite.relationships.deletedAt })
+        .from(sqlite.relationships)
+        .where(and(eq(sqlite.relationships.treeId, treeId), isNotNull(sqlite.relationships.deletedAt)))
+        .all() as TrashedRelationship[]
     };
   }
+
+  async restorePerson(treeId: number, id: number): Promise<FamilyTreeData | undefined> {
+    return this.db.transaction((tx) => {
+      const person = tx
+        .update(sqlite.persons)
+        .set({ deletedAt: null })
+        .where(and(
+          eq(sqlite.persons.treeId, treeId),
+          eq(sqlite.persons.id, id),
+          isNotNull(sqlite.persons.deletedAt)
+        ))
+        .returning(sqlitePersonColumns)
+        .get();
+      if (!person) return undefined;
+
+      // Those to someone still in the trash wait for them to be restored too
+      const activePersonIds = tx
+        .select({ id: sqlite.persons.id })
+        .from(sqlite.persons)
+        .where(and(eq(sqlite.persons.treeId, treeId), isNull(sqlite.persons.deletedAt)));
+      const restoredRelationships = tx
+        .update(sqlite.relationships)
+        .set({ deletedAt: null })
+        .where(and(
+          eq(sqlite.relationships.treeId, treeId),
+          isNotNull(sqlite.relationships.deletedAt),
+          or(eq(sqlite.relationships.personId, id), eq(sqlite.relationships.relatedPersonId, id)),
+          inArray(sqlite.relationships.personId, activePersonIds),
+          inArray(sqlite.relationships.relatedPersonId, activePersonIds)
+        ))
+        .returning(sqliteRelationshipColumns)
+        .all();
+
+      return { persons: [person], relationships: restoredRelationships };
+    });
+  }
+
+  async purgePerson(treeId: number, id: number): Promise<boolean> {
+    return this.db.transaction((tx) => {
+      const result = tx
+        .delete(sqlite.persons)
+        .where(and(
+          eq(sqlite.persons.treeId, treeId),
+          eq(sqlite.persons.id, id),
+          isNotNull(sqlite.persons.deletedAt)
+        ))
+        .run();
+      if (result.changes === 0) return false;
+
+      tx.delete(sqlite.relationships).where(
+        and(
+          eq(sqlite.relationships.treeId, treeId),
+          or(
+            eq(sqlite.relationships.personId, id),
+            eq(sqlite.relationships.relatedPersonId, id)
+          )
+        )
+      ).run();
+      return true;
+    });
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    return this.db.transaction((tx) => {
+      const expiredPersonIds = tx
+        .select({ id: sqlite.persons.id })
+        .from(sqlite.persons)
+        .where(lt(sqlite.persons.deletedAt, deletedBefore));
+      tx.delete(sqlite.relationships).where(
+        or(
+          inArray(sqlite.relationships.personId, expiredPersonIds),
+          inArray(sqlite.relationships.relatedPersonId, expiredPersonIds)
+        )
+      ).run();
+
+      const result = tx.delete(sqlite.persons).where(lt(sqlite.persons.deletedAt, deletedBefore)).run();
+      return result.changes;
+    });
+  }
+
+  // Edit history
+  async addRevisions(treeId: number, newRevisions: NewRevision[]): Promise<void> {
+    this.db.transaction((tx) => {
+      for (let start = 0; start < newRevisions.length; start += IMPORT_CHUNK_SIZE) {
+        tx.insert(sqlite.revisions)
+          .values(newRevisions.slice(start, start + IMPORT_CHUNK_SIZE).map(revision => ({ ...revision, treeId })))
+          .run();
+      }
+    });
+  }
+
+  async getPersonHistory(treeId: number, personId: number): Promise<PersonHistoryEntry[]> {
+    const { treeId: _treeId, ...revisionColumns } = getTableColumns(sqlite.revisions);
+    return this.db
+      .select({ ...revisionColumns, username: sqlite.users.username })
+      .from(sqlite.revisions)
+      .innerJoin(sqlite.users, eq(sqlite.users.id, sqlite.revisions.userId))
+      .where(and(eq(sqlite.revisions.treeId, treeId), eq(sqlite.revisions.personId, personId)))
+      .orderBy(desc(sqlite.revisions.id))
+      .all();
+  }
+
+  // Family tree operations
+  async getFamilyTreeData(treeId: number): Promise<FamilyTreeData> {
+    return {
+      persons: this.db
+        .select(sqlitePersonColumns)
+        .from(sqlite.persons)
+        .where(and(eq(sqlite.persons.treeId, treeId), isNull(sqlite.persons.deletedAt)))
+        .all(),
+      relationships: this.db
+        .select(sqliteRelationshipColumns)
+        .from(sqlite.relationships)
+        .where(and(eq(sqlite.relationships.treeId, treeId), isNull(sqlite.relationships.deletedAt)))
+        .all()
+    };
+  }
+
+  async importFamilyTree(treeId: number, createdBy: number, data: FamilyTreeImport): Promise<ImportResult> {
+    const merges = new Map((data.merges ?? []).map(merge => [merge.importedId, merge]));
+
+    return this.db.transaction((tx) => {
+      const personIdMap: Record<number, number> = {};
+      const existingRelationships: Relationship[] = [];
+      let personCount = 0;
+
+      for (const { id: importedId, ...insertPerson } of data.persons) {
+        const merge = merges.get(importedId);
+        if (merge) {
+          if (merge.person) {
+            tx.update(sqlite.persons)
+              .set({ ...merge.person, version: sql`${sqlite.persons.version} + 1` })
+              .where(and(eq(sqlite.persons.treeId, treeId), eq(sqlite.persons.id, merge.existingId)))
+              .run();
+          }
+          existingRelationships.push(
+            ...tx.select(sqliteRelationshipColumns)
+              .from(sqlite.relationships)
+              .where(and(
+                eq(sqlite.relationships.treeId, treeId),
+                isNull(sqlite.relationships.deletedAt),
+                eq(sqlite.relationships.personId, merge.existingId)
+              ))
+              .all()
+          );
+          personIdMap[importedId] = merge.existingId;
+          continue;
+        }
+
+        const person = tx
+          .insert(sqlite.persons)
+          .values({ ...insertPerson, treeId, createdBy })
+          .returning({ id: sqlite.persons.id })
+          .get();
+        personIdMap[importedId] = person.id;
+        personCount++;
+      }
+
+      const newRelationships = remapImportedRelationships(
+        data.relationships,
+        personIdMap,
+        existingRelationships
+      );
+      for (const insertRelationship of newRelationships) {
+        tx.insert(sqlite.relationships).values({ ...insertRelationship, treeId }).run();
+      }
+
+      return {
+        personCount,
+        relationshipCount: newRelationships.length,
+        personIdMap
+      };
+    });
+  }
+
+}
+
+// Use PostgreSQL when a database is provisioned, a single SQLite file when
+// SQLITE_PATH is set (e.g. for self-hosting), otherwise keep everything in memory
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+  }
+  if (process.env.SQLITE_PATH) {
+    return new SqliteStorage(sqlite.openSqliteDatabase(process.env.SQLITE_PATH));
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
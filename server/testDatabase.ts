@@ -0,0 +1,106 @@
+import { createRequire } from "module";
+import { newDb, type IBackup, type IMemoryDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { getTableColumns, getTableName, isTable } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+// drizzle-kit's ES module build can't be bundled by vitest, so load its CommonJS one
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+type QueryConfig = { text: string; rowMode?: "array"; types?: unknown };
+type QueryResult = { rows: Record<string, unknown>[] | unknown[][] };
+type Queryable = { query(config: QueryConfig | string, values?: unknown[]): Promise<QueryResult> };
+
+// The statements `npm run db:push` runs against an empty database
+let schemaStatements: Promise<string[]> | undefined;
+
+// Date and timestamp columns by name, which node-postgres returns as text
+// under the type parsers drizzle sets
+const dateColumnTypes = new Map<string, string>();
+Object.values(schema as Record<string, unknown>)
+  .filter(isTable)
+  .forEach(table => {
+    Object.values(getTableColumns(table)).forEach(column => {
+      if (column.columnType === "PgDateString" || column.columnType === "PgTimestamp") {
+        const existing = dateColumnTypes.get(column.name);
+        if (existing && existing !== column.columnType) {
+          throw new Error(`Column ${getTableName(table)}.${column.name} has another type elsewhere`);
+        }
+        dateColumnTypes.set(column.name, column.columnType);
+      }
+    });
+  });
+
+function toDriverText(column: string, value: unknown): unknown {
+  if (!(value instanceof Date)) return value;
+  const iso = value.toISOString();
+  switch (dateColumnTypes.get(column)) {
+    case "PgDateString": return iso.slice(0, 10);
+    case "PgTimestamp": return iso.slice(0, 23).replace("T", " ");
+    default: return value;
+  }
+}
+
+/**
+ * Makes a pg-mem client take queries the way drizzle sends them. pg-mem
+ * rejects drizzle's type parsers and array row mode, so queries run
+ * without them and rows are returned as node-postgres would return them:
+ * dates and timestamps as text, and as arrays in column order.
+ *
+ * pg-mem also ignores ROLLBACK, so a transaction is undone by restoring a
+ * snapshot taken when it began. That is only right while transactions
+ * don't overlap, as in tests that make one change at a time.
+ */
+function adaptClient<T extends Queryable>(client: T, mem: IMemoryDb): T {
+  const query = client.query.bind(client);
+  let snapshot: IBackup | undefined;
+
+  client.query = async (config, values) => {
+    if (typeof config === "string" || config.types === undefined) return query(config, values);
+
+    switch (config.text.trim().toLowerCase()) {
+      case "begin":
+        snapshot = mem.backup();
+        break;
+      case "commit":
+        snapshot = undefined;
+        break;
+      case "rollback":
+        snapshot?.restore();
+        snapshot = undefined;
+        break;
+    }
+
+    const { types, rowMode, ...plainConfig } = config;
+    const result = await query(plainConfig, values);
+    const rows = (result.rows as Record<string, unknown>[]).map(row =>
+      Object.entries(row).map(([column, value]) => [column, toDriverText(column, value)] as const)
+    );
+    result.rows = rowMode === "array"
+      ? rows.map(row => row.map(([, value]) => value))
+      : rows.map(row => Object.fromEntries(row));
+    return result;
+  };
+  return client;
+}
+
+/**
+ * Creates an empty in-memory PostgreSQL database (pg-mem) with the tables
+ * from shared/schema.ts, or the ones the given statements create, for
+ * testing DatabaseStorage and database upgrades without a server
+ */
+export async function createTestDatabase(statements?: string[]): Promise<Database> {
+  schemaStatements ??= generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+
+  const mem = newDb();
+  (statements ?? await schemaStatements).forEach(statement => mem.public.none(statement));
+
+  const { Pool } = mem.adapters.createPg();
+  const pool = adaptClient(new Pool(), mem);
+  const connect = pool.connect.bind(pool);
+  pool.connect = async () => adaptClient(await connect(), mem);
+  return drizzle(pool, { schema }) as Database;
+}
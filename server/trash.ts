@@ -0,0 +1,41 @@
+import type { Server } from "http";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Deleted persons can be restored for this many days, unless
+// TRASH_RETENTION_DAYS says otherwise
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// How often the trash is checked for persons past the retention period
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The number of days a deleted person stays in the trash
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS ?? "");
+  return isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+async function purgeExpiredTrash() {
+  try {
+    const purged = await storage.purgeTrash(new Date(Date.now() - getTrashRetentionDays() * DAY_MS));
+    if (purged > 0) {
+      log(`Purged ${purged} ${purged === 1 ? "person" : "persons"} from the trash`, "trash");
+    }
+  } catch (error) {
+    log(`Error purging the trash: ${error}`, "trash");
+  }
+}
+
+/**
+ * Permanently deletes persons once they've been in the trash longer than
+ * the retention period, now and then every hour until the server closes
+ */
+export function setupTrashPurge(server: Server) {
+  purgeExpiredTrash();
+  const interval = setInterval(purgeExpiredTrash, PURGE_INTERVAL_MS);
+  server.on("close", () => clearInterval(interval));
+}
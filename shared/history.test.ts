@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyTreeData, Person, PersonHistoryEntry, Relationship } from "./schema";
+import { diffRevisions, getPersonAtRevision, PERSON_HISTORY_FIELDS, type RevisionChange } from "./history";
+
+const person = (id: number, fields: Partial<Person> = {}): Person => ({
+  id, version: 1, name: `Person ${id}`, gender: null,
+  birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null,
+  ...fields
+});
+
+const relationship = (id: number, type: string, personId: number, relatedPersonId: number): Relationship =>
+  ({ id, type, personId, relatedPersonId });
+
+const tree = (persons: Person[], relationships: Relationship[] = []): FamilyTreeData => ({ persons, relationships });
+
+// Numbers the changes as the server stores them, after any earlier entries
+const toHistory = (changes: RevisionChange[], previous: PersonHistoryEntry[] = []): PersonHistoryEntry[] => [
+  ...previous,
+  ...changes.map((change, index) => ({
+    ...change, id: previous.length + index + 1, userId: 1, username: "alice", createdAt: new Date(0)
+  }))
+];
+
+// The recorded fields of a person, as getPersonAtRevision returns them
+const historyFields = (p: Person) =>
+  Object.fromEntries(PERSON_HISTORY_FIELDS.map(field => [field, p[field]]));
+
+describe("diffRevisions", () => {
+  it("records every field of a new person, and nothing for an unchanged one", () => {
+    const before = tree([person(1)]);
+    const after = tree([person(1), person(2, { gender: "female" })]);
+
+    expect(diffRevisions(before, after)).toEqual([{
+      personId: 2, entityType: "person", entityId: 2, action: "create",
+      changes: { name: { from: null, to: "Person 2" }, gender: { from: null, to: "female" } }
+    }]);
+  });
+
+  it("records only the fields an update changed", () => {
+    const before = tree([person(1, { birthPlace: "Leeds", notes: "Farmer" })]);
+    const after = tree([person(1, { version: 2, birthPlace: "York", notes: null })]);
+
+    expect(diffRevisions(before, after)).toEqual([{
+      personId: 1, entityType: "person", entityId: 1, action: "update",
+      changes: { birthPlace: { from: "Leeds", to: "York" }, notes: { from: "Farmer", to: null } }
+    }]);
+  });
+
+  it("records the last values of a deleted person", () => {
+    const before = tree([person(1, { birthDate: "1900-01-01" })]);
+
+    expect(diffRevisions(before, tree([]))).toEqual([{
+      personId: 1, entityType: "person", entityId: 1, action: "delete",
+      changes: { name: { from: "Person 1", to: null }, birthDate: { from: "1900-01-01", to: null } }
+    }]);
+  });
+
+  it("records added and removed relationships against the person they belong to", () => {
+    const before = tree([person(1), person(2)], [relationship(10, "spouse", 1, 2)]);
+    const after = tree([person(1), person(2)], [relationship(11, "parent", 2, 1)]);
+
+    expect(diffRevisions(before, after)).toEqual([
+      {
+        personId: 2, entityType: "relationship", entityId: 11, action: "create",
+        changes: { type: { from: null, to: "parent" }, relatedPersonId: { from: null, to: 1 } }
+      },
+      {
+        personId: 1, entityType: "relationship", entityId: 10, action: "delete",
+        changes: { type: { from: "spouse", to: null }, relatedPersonId: { from: 2, to: null } }
+      }
+    ]);
+  });
+
+  it("records nothing when no one changed", () => {
+    const before = tree([person(1), person(2)]);
+    const after = tree([person(1), person(2)]);
+
+    expect(diffRevisions(before, after)).toEqual([]);
+  });
+});
+
+describe("getPersonAtRevision", () => {
+  // A person created, edited twice and given a relationship along the way
+  const created = person(1, { name: "Mary Smith", birthDate: "1900-01-01" });
+  const renamed = { ...created, version: 2, name: "Mary Jones", notes: "Married 1921" };
+  const moved = { ...renamed, version: 3, birthPlace: "York", notes: null };
+
+  let history = toHistory(diffRevisions(tree([]), tree([created])));
+  history = toHistory(diffRevisions(tree([created]), tree([renamed])), history);
+  history = toHistory(diffRevisions(tree([renamed, person(2)]), tree([renamed, person(2)], [relationship(10, "spouse", 1, 2)])), history);
+  history = toHistory(diffRevisions(tree([renamed]), tree([moved])), history);
+
+  it.each([
+    { revisionId: 1, expected: created },
+    { revisionId: 2, expected: renamed },
+    { revisionId: 3, expected: renamed },
+    { revisionId: 4, expected: moved }
+  ])("restores the person as they were after revision $revisionId", ({ revisionId, expected }) => {
+    expect(getPersonAtRevision(moved, history, revisionId)).toEqual(historyFields(expected));
+  });
+
+  it("restores a deleted person from their history", () => {
+    const deleted = toHistory(diffRevisions(tree([moved]), tree([])), history);
+
+    expect(getPersonAtRevision(undefined, deleted, 2)).toEqual(historyFields(renamed));
+    expect(getPersonAtRevision(undefined, deleted, 4)).toEqual(historyFields(moved));
+  });
+
+  it("ignores relationship revisions", () => {
+    const withRelationshipLast = toHistory(
+      diffRevisions(tree([moved, person(2)]), tree([moved, person(2)], [relationship(12, "sibling", 1, 2)])),
+      history
+    );
+
+    expect(getPersonAtRevision(moved, withRelationshipLast, 4)).toEqual(historyFields(moved));
+  });
+});
@@ -0,0 +1,109 @@
+import type {
+  FamilyTreeData, InsertPerson, Person, PersonHistoryEntry, Relationship, Revision, RevisionChanges, RevisionValue
+} from "./schema";
+
+// Fields recorded in the edit history. A person's ID and version, and a
+// relationship's personId, are implied by the revision itself.
+export const PERSON_HISTORY_FIELDS = [
+  "name", "gender", "birthDate", "birthPlace", "deathDate", "deathPlace", "notes"
+] as const;
+const RELATIONSHIP_HISTORY_FIELDS = ["type", "relatedPersonId"] as const;
+
+// A change to record, before the server stamps who made it and when
+export type RevisionChange = Pick<Revision, "personId" | "entityType" | "entityId" | "action" | "changes">;
+
+function diffFields<T extends Person | Relationship>(
+  before: T | undefined,
+  after: T | undefined,
+  fields: readonly (keyof T & string)[]
+): RevisionChanges {
+  const changes: RevisionChanges = {};
+  fields.forEach(field => {
+    const from = (before?.[field] ?? null) as RevisionValue;
+    const to = (after?.[field] ?? null) as RevisionValue;
+    if (from !== to) changes[field] = { from, to };
+  });
+  return changes;
+}
+
+/**
+ * Describes how a tree changed as revisions for its edit history. Only the
+ * persons and relationships in either snapshot are compared, so a request
+ * can pass just the part of the tree it touched.
+ */
+export function diffRevisions(before: FamilyTreeData, after: FamilyTreeData): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+  const personsBefore = new Map(before.persons.map(p => [p.id, p]));
+  const personsAfter = new Map(after.persons.map(p => [p.id, p]));
+  const relationshipIdsBefore = new Set(before.relationships.map(r => r.id));
+  const relationshipIdsAfter = new Set(after.relationships.map(r => r.id));
+
+  after.persons.forEach(person => {
+    const previous = personsBefore.get(person.id);
+    const fieldChanges = diffFields<Person>(previous, person, PERSON_HISTORY_FIELDS);
+    if (previous && Object.keys(fieldChanges).length === 0) return;
+    changes.push({
+      personId: person.id,
+      entityType: "person",
+      entityId: person.id,
+      action: previous ? "update" : "create",
+      changes: fieldChanges
+    });
+  });
+  before.persons.filter(p => !personsAfter.has(p.id)).forEach(person => {
+    changes.push({
+      personId: person.id,
+      entityType: "person",
+      entityId: person.id,
+      action: "delete",
+      changes: diffFields<Person>(person, undefined, PERSON_HISTORY_FIELDS)
+    });
+  });
+
+  after.relationships.filter(r => !relationshipIdsBefore.has(r.id)).forEach(relationship => {
+    changes.push({
+      personId: relationship.personId,
+      entityType: "relationship",
+      entityId: relationship.id,
+      action: "create",
+      changes: diffFields<Relationship>(undefined, relationship, RELATIONSHIP_HISTORY_FIELDS)
+    });
+  });
+  before.relationships.filter(r => !relationshipIdsAfter.has(r.id)).forEach(relationship => {
+    changes.push({
+      personId: relationship.personId,
+      entityType: "relationship",
+      entityId: relationship.id,
+      action: "delete",
+      changes: diffFields<Relationship>(relationship, undefined, RELATIONSHIP_HISTORY_FIELDS)
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Works out what a person looked like right after the given revision, by
+ * undoing every later change to them, newest first
+ */
+export function getPersonAtRevision(
+  current: Person | undefined,
+  history: PersonHistoryEntry[],
+  revisionId: number
+): InsertPerson {
+  const person: Record<string, unknown> = {};
+  PERSON_HISTORY_FIELDS.forEach(field => {
+    person[field] = current?.[field] ?? null;
+  });
+
+  history
+    .filter(entry => entry.entityType === "person" && entry.id > revisionId)
+    .sort((a, b) => b.id - a.id)
+    .forEach(entry => {
+      Object.entries(entry.changes).forEach(([field, change]) => {
+        person[field] = change.from;
+      });
+    });
+
+  return person as InsertPerson;
+}
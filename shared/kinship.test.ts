@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyTreeData, Person, Relationship } from "./schema";
+import { findRelationship } from "./kinship";
+
+const person = (id: number, name: string, gender: string | null): Person => ({
+  id, version: 1, name, gender,
+  birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null
+});
+
+// Both rows of each pair, as storage records them
+function relate(pairs: [Relationship["type"], number, number][]): Relationship[] {
+  return pairs.flatMap(([type, personId, relatedPersonId]) => [
+    { type, personId, relatedPersonId },
+    { type: type === "parent" ? "child" : type, personId: relatedPersonId, relatedPersonId: personId }
+  ]).map((relationship, index) => ({ id: index + 1, ...relationship }));
+}
+
+const parentsOf = (childId: number, ...parentIds: number[]) =>
+  parentIds.map((parentId): [Relationship["type"], number, number] => ["parent", parentId, childId]);
+
+// Five generations descended from George, who has children with Alice and
+// with Grace. Ruth is only known as Henry's sister, and Walter as Kate's father.
+const data: FamilyTreeData = {
+  persons: [
+    person(1, "George", "male"), person(2, "Alice", "female"),
+    person(3, "Henry", "male"), person(4, "Emily", "female"),
+    person(5, "Sarah", "female"), person(6, "Tom", "male"),
+    person(7, "James", "male"), person(8, "Jane", "female"), person(9, "Anne", "female"),
+    person(10, "Kate", "female"), person(11, "Peter", "male"), person(12, "Lucy", "female"),
+    person(13, "Sam", null), person(14, "Grace", "female"), person(15, "Edward", "male"),
+    person(16, "Walter", "male"), person(17, "Ruth", "female"), person(18, "Stranger", null)
+  ],
+  relationships: relate([
+    ["spouse", 1, 2], ...parentsOf(3, 1, 2), ...parentsOf(4, 1, 2),
+    ["spouse", 1, 14], ...parentsOf(15, 1, 14),
+    ["spouse", 3, 5], ...parentsOf(7, 3, 5), ...parentsOf(8, 3, 5),
+    ["spouse", 4, 6], ...parentsOf(9, 4, 6),
+    ["spouse", 7, 10], ...parentsOf(11, 7, 10), ...parentsOf(10, 16),
+    ...parentsOf(12, 9),
+    ...parentsOf(13, 11),
+    ["sibling", 3, 17]
+  ])
+};
+
+describe("findRelationship", () => {
+  it.each([
+    // Direct line, gendered after the relative
+    { from: 7, to: 7, label: "self" },
+    { from: 7, to: 3, label: "father" },
+    { from: 7, to: 5, label: "mother" },
+    { from: 3, to: 7, label: "son" },
+    { from: 3, to: 8, label: "daughter" },
+    { from: 7, to: 1, label: "grandfather" },
+    { from: 11, to: 1, label: "great-grandfather" },
+    { from: 13, to: 1, label: "great-great-grandfather" },
+    { from: 1, to: 13, label: "great-great-grandchild" },
+    // Siblings, and their lines
+    { from: 7, to: 8, label: "sister" },
+    { from: 8, to: 7, label: "brother" },
+    { from: 3, to: 15, label: "half-brother" },
+    { from: 7, to: 4, label: "aunt" },
+    { from: 4, to: 7, label: "nephew" },
+    { from: 4, to: 8, label: "niece" },
+    { from: 4, to: 11, label: "grandnephew" },
+    { from: 11, to: 4, label: "grandaunt" },
+    { from: 7, to: 17, label: "aunt" },
+    // Cousins by degree and removal
+    { from: 7, to: 9, label: "first cousin" },
+    { from: 7, to: 12, label: "first cousin once removed" },
+    { from: 11, to: 9, label: "first cousin once removed" },
+    { from: 13, to: 9, label: "first cousin twice removed" },
+    { from: 11, to: 12, label: "second cousin" },
+    { from: 13, to: 12, label: "second cousin once removed" },
+    // By marriage
+    { from: 7, to: 10, label: "wife" },
+    { from: 10, to: 7, label: "husband" },
+    { from: 3, to: 10, label: "daughter-in-law" },
+    { from: 10, to: 3, label: "father-in-law" },
+    { from: 7, to: 16, label: "father-in-law" },
+    { from: 5, to: 4, label: "sister-in-law" },
+    { from: 7, to: 6, label: "uncle by marriage" },
+    { from: 3, to: 14, label: "stepmother" },
+    { from: 14, to: 3, label: "stepson" },
+    // Anything else as a chain
+    { from: 16, to: 5, label: "daughter's husband's mother" }
+  ])("calls $to the $label of $from", ({ from, to, label }) => {
+    const result = findRelationship(data, from, to);
+    expect(result?.label).toBe(label);
+    expect(result?.path[0]).toBe(from);
+    expect(result?.path[result.path.length - 1]).toBe(to);
+  });
+
+  it("finds the closest common ancestors of blood relatives", () => {
+    expect(findRelationship(data, 7, 9)?.commonAncestorIds.sort()).toEqual([1, 2]);
+    expect(findRelationship(data, 3, 15)?.commonAncestorIds).toEqual([1]);
+    expect(findRelationship(data, 7, 9)?.path).toHaveLength(5);
+    expect(findRelationship(data, 7, 10)?.commonAncestorIds).toEqual([]);
+  });
+
+  it("returns null for people who are not connected or not in the tree", () => {
+    expect(findRelationship(data, 7, 18)).toBeNull();
+    expect(findRelationship(data, 7, 99)).toBeNull();
+  });
+});
@@ -0,0 +1,355 @@
+import type { FamilyTreeData, Person } from "./schema";
+
+// How `to` is related to `from`, e.g. "second cousin once removed"
+export type KinshipResult = {
+  label: string;
+  // Person IDs connecting `from` to `to`, both included
+  path: number[];
+  // The closest ancestors `from` and `to` descend from, if related by blood
+  commonAncestorIds: number[];
+};
+
+type KinshipGraph = {
+  persons: Map<number, Person>;
+  parents: Map<number, number[]>;
+  children: Map<number, number[]>;
+  spouses: Map<number, number[]>;
+  siblings: Map<number, number[]>;
+};
+
+// A relationship traced by blood: `up` generations from `from` to the
+// common ancestor, then `down` generations to `to`
+type BloodLine = {
+  up: number;
+  down: number;
+  path: number[];
+};
+
+const ORDINALS = ["", "first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+function addEdge(edges: Map<number, number[]>, from: number, to: number) {
+  const list = edges.get(from);
+  if (!list) {
+    edges.set(from, [to]);
+  } else if (!list.includes(to)) {
+    list.push(to);
+  }
+}
+
+function buildKinshipGraph(data: FamilyTreeData): KinshipGraph {
+  const graph: KinshipGraph = {
+    persons: new Map(data.persons.map(person => [person.id, person])),
+    parents: new Map(),
+    children: new Map(),
+    spouses: new Map(),
+    siblings: new Map()
+  };
+
+  data.relationships.forEach(({ type, personId, relatedPersonId }) => {
+    if (!graph.persons.has(personId) || !graph.persons.has(relatedPersonId)) return;
+
+    switch (type) {
+      case "parent":
+        addEdge(graph.children, personId, relatedPersonId);
+        addEdge(graph.parents, relatedPersonId, personId);
+        break;
+      case "child":
+        addEdge(graph.parents, personId, relatedPersonId);
+        addEdge(graph.children, relatedPersonId, personId);
+        break;
+      case "spouse":
+        addEdge(graph.spouses, personId, relatedPersonId);
+        addEdge(graph.spouses, relatedPersonId, personId);
+        break;
+      case "sibling":
+        addEdge(graph.siblings, personId, relatedPersonId);
+        addEdge(graph.siblings, relatedPersonId, personId);
+        break;
+    }
+  });
+
+  return graph;
+}
+
+/**
+ * Finds the closest blood relationship between two people: a path that goes
+ * up through parents, optionally across one sibling link, then down through
+ * children. A sibling link counts as one generation up and one down.
+ */
+function findBloodLine(graph: KinshipGraph, fromId: number, toId: number): BloodLine | null {
+  type State = { id: number; descending: boolean; up: number; down: number; path: number[] };
+
+  // Queues indexed by path length, since a sibling link costs two generations
+  const queues: State[][] = [[{ id: fromId, descending: false, up: 0, down: 0, path: [fromId] }]];
+  const visited = new Set<string>();
+
+  for (let cost = 0; cost < queues.length; cost++) {
+    const queue = queues[cost] ?? [];
+    for (let index = 0; index < queue.length; index++) {
+      const state = queue[index];
+      const key = `${state.id}-${state.descending}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      if (state.id === toId) {
+        return { up: state.up, down: state.down, path: state.path };
+      }
+
+      const enqueue = (next: State) => {
+        const nextCost = next.up + next.down;
+        (queues[nextCost] = queues[nextCost] ?? []).push(next);
+      };
+
+      if (!state.descending) {
+        (graph.parents.get(state.id) ?? []).forEach(parentId => enqueue({
+          ...state, id: parentId, up: state.up + 1, path: [...state.path, parentId]
+        }));
+        (graph.siblings.get(state.id) ?? []).forEach(siblingId => enqueue({
+          id: siblingId, descending: true, up: state.up + 1, down: state.down + 1, path: [...state.path, siblingId]
+        }));
+      }
+      (graph.children.get(state.id) ?? []).forEach(childId => enqueue({
+        id: childId, descending: true, up: state.up, down: state.down + 1, path: [...state.path, childId]
+      }));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Maps each ancestor of a person (and the person themselves) to the
+ * number of generations between them
+ */
+function getAncestorDepths(graph: KinshipGraph, personId: number): Map<number, number> {
+  const depths = new Map<number, number>([[personId, 0]]);
+  const queue = [personId];
+
+  for (let index = 0; index < queue.length; index++) {
+    const id = queue[index];
+    (graph.parents.get(id) ?? []).forEach(parentId => {
+      if (depths.has(parentId)) return;
+      depths.set(parentId, depths.get(id)! + 1);
+      queue.push(parentId);
+    });
+  }
+
+  return depths;
+}
+
+function ordinal(n: number): string {
+  if (n < ORDINALS.length) return ORDINALS[n];
+
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? "th"
+    : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+// "", "great-", "great-great-", then "3× great-" and so on
+function greats(count: number): string {
+  if (count <= 0) return "";
+  return count <= 2 ? "great-".repeat(count) : `${count}× great-`;
+}
+
+function gendered(person: Person | undefined, male: string, female: string, neutral: string): string {
+  switch (person?.gender?.toLowerCase()) {
+    case "male": return male;
+    case "female": return female;
+    default: return neutral;
+  }
+}
+
+/**
+ * Names a blood relationship from the generations up to the common
+ * ancestor and down again, gendered after the relative
+ */
+function describeBloodLine(up: number, down: number, relative: Person | undefined, isHalf: boolean): string {
+  if (up === 0 && down === 0) return "self";
+
+  if (up === 0) {
+    const child = gendered(relative, "son", "daughter", "child");
+    return down === 1 ? child : `${greats(down - 2)}grand${child}`;
+  }
+
+  if (down === 0) {
+    const parent = gendered(relative, "father", "mother", "parent");
+    return up === 1 ? parent : `${greats(up - 2)}grand${parent}`;
+  }
+
+  if (up === 1 && down === 1) {
+    return `${isHalf ? "half-" : ""}${gendered(relative, "brother", "sister", "sibling")}`;
+  }
+
+  if (up === 1) {
+    const nephew = gendered(relative, "nephew", "niece", "nephew or niece");
+    return down === 2 ? nephew : `${greats(down - 3)}grand${nephew}`;
+  }
+
+  if (down === 1) {
+    const uncle = gendered(relative, "uncle", "aunt", "uncle or aunt");
+    return up === 2 ? uncle : `${greats(up - 3)}grand${uncle}`;
+  }
+
+  const degree = Math.min(up, down) - 1;
+  const removed = Math.abs(up - down);
+  const removedText = removed === 0
+    ? ""
+    : removed === 1 ? " once removed" : removed === 2 ? " twice removed" : ` ${removed} times removed`;
+
+  return `${ordinal(degree)} cousin${removedText}`;
+}
+
+/**
+ * Names the relationship to the spouse of a blood relative, e.g. a sibling's
+ * spouse is a brother- or sister-in-law
+ */
+function describeSpouseOfRelative(line: BloodLine, relative: Person | undefined): string {
+  const { up, down } = line;
+
+  if (up === 0 && down === 1) return `${gendered(relative, "son", "daughter", "child")}-in-law`;
+  if (up === 0 && down === 2) return `grand${gendered(relative, "son", "daughter", "child")}-in-law`;
+  if (up === 1 && down === 1) return `${gendered(relative, "brother", "sister", "sibling")}-in-law`;
+  if (up === 1 && down === 0) return `step${gendered(relative, "father", "mother", "parent")}`;
+
+  return `${describeBloodLine(up, down, relative, false)} by marriage`;
+}
+
+/**
+ * Names the relationship to a blood relative of one's spouse, e.g. a
+ * spouse's father is a father-in-law
+ */
+function describeRelativeOfSpouse(line: BloodLine, relative: Person | undefined): string {
+  const { up, down } = line;
+
+  if (up === 1 && down === 0) return `${gendered(relative, "father", "mother", "parent")}-in-law`;
+  if (up === 2 && down === 0) return `grand${gendered(relative, "father", "mother", "parent")}-in-law`;
+  if (up === 1 && down === 1) return `${gendered(relative, "brother", "sister", "sibling")}-in-law`;
+  if (up === 0 && down === 1) return `step${gendered(relative, "son", "daughter", "child")}`;
+
+  return `spouse's ${describeBloodLine(up, down, relative, false)}`;
+}
+
+// Two siblings are half-siblings when both have two known parents but share only one
+function isHalfSibling(graph: KinshipGraph, a: number, b: number): boolean {
+  const parentsA = graph.parents.get(a) ?? [];
+  const parentsB = graph.parents.get(b) ?? [];
+  const shared = parentsA.filter(id => parentsB.includes(id)).length;
+  return parentsA.length >= 2 && parentsB.length >= 2 && shared === 1;
+}
+
+/**
+ * Describes any path between two people as a chain of immediate relations,
+ * e.g. "father's wife's brother", for relationships with no common name
+ */
+function describeChain(graph: KinshipGraph, path: number[]): string {
+  const terms: string[] = [];
+
+  for (let index = 1; index < path.length; index++) {
+    const [previous, current] = [path[index - 1], path[index]];
+    const person = graph.persons.get(current);
+
+    if ((graph.parents.get(previous) ?? []).includes(current)) {
+      terms.push(gendered(person, "father", "mother", "parent"));
+    } else if ((graph.children.get(previous) ?? []).includes(current)) {
+      terms.push(gendered(person, "son", "daughter", "child"));
+    } else if ((graph.spouses.get(previous) ?? []).includes(current)) {
+      terms.push(gendered(person, "husband", "wife", "spouse"));
+    } else {
+      terms.push(gendered(person, "brother", "sister", "sibling"));
+    }
+  }
+
+  return terms.join("'s ");
+}
+
+function findShortestPath(graph: KinshipGraph, fromId: number, toId: number): number[] | null {
+  const previous = new Map<number, number>([[fromId, fromId]]);
+  const queue = [fromId];
+
+  for (let index = 0; index < queue.length; index++) {
+    const id = queue[index];
+    if (id === toId) {
+      const path = [toId];
+      while (path[0] !== fromId) path.unshift(previous.get(path[0])!);
+      return path;
+    }
+
+    [graph.parents, graph.children, graph.spouses, graph.siblings].forEach(edges => {
+      (edges.get(id) ?? []).forEach(nextId => {
+        if (previous.has(nextId)) return;
+        previous.set(nextId, id);
+        queue.push(nextId);
+      });
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Works out how `to` is related to `from`: by blood through their closest
+ * common ancestors, by marriage through one spouse, or otherwise as a chain
+ * of immediate relations. Returns null when they aren't connected at all.
+ */
+export function findRelationship(data: FamilyTreeData, fromId: number, toId: number): KinshipResult | null {
+  const graph = buildKinshipGraph(data);
+  if (!graph.persons.has(fromId) || !graph.persons.has(toId)) return null;
+
+  const relative = graph.persons.get(toId);
+
+  if (fromId === toId) {
+    return { label: "self", path: [fromId], commonAncestorIds: [] };
+  }
+
+  const bloodLine = findBloodLine(graph, fromId, toId);
+  if (bloodLine) {
+    const fromAncestors = getAncestorDepths(graph, fromId);
+    const toAncestors = getAncestorDepths(graph, toId);
+    const commonAncestorIds = Array.from(fromAncestors.keys()).filter(id =>
+      fromAncestors.get(id) === bloodLine.up && toAncestors.get(id) === bloodLine.down
+    );
+    const isHalf = bloodLine.up === 1 && bloodLine.down === 1 && isHalfSibling(graph, fromId, toId);
+
+    return {
+      label: describeBloodLine(bloodLine.up, bloodLine.down, relative, isHalf),
+      path: bloodLine.path,
+      commonAncestorIds
+    };
+  }
+
+  if ((graph.spouses.get(fromId) ?? []).includes(toId)) {
+    return {
+      label: gendered(relative, "husband", "wife", "spouse"),
+      path: [fromId, toId],
+      commonAncestorIds: []
+    };
+  }
+
+  // Related by marriage: through a spouse of either person, closest first
+  let best: KinshipResult | null = null;
+  let bestLength = Infinity;
+
+  for (const spouseId of graph.spouses.get(toId) ?? []) {
+    const line = findBloodLine(graph, fromId, spouseId);
+    if (line && line.up + line.down < bestLength) {
+      bestLength = line.up + line.down;
+      best = { label: describeSpouseOfRelative(line, relative), path: [...line.path, toId], commonAncestorIds: [] };
+    }
+  }
+
+  for (const spouseId of graph.spouses.get(fromId) ?? []) {
+    const line = findBloodLine(graph, spouseId, toId);
+    if (line && line.up + line.down < bestLength) {
+      bestLength = line.up + line.down;
+      best = { label: describeRelativeOfSpouse(line, relative), path: [fromId, ...line.path], commonAncestorIds: [] };
+    }
+  }
+
+  if (best) return best;
+
+  const path = findShortestPath(graph, fromId, toId);
+  if (!path) return null;
+
+  return { label: describeChain(graph, path), path, commonAncestorIds: [] };
+}
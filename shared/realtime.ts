@@ -0,0 +1,118 @@
+import type { FamilyTreeData, ImportResult, Person, Relationship, TreeRole } from "./schema";
+
+// WebSocket endpoint for the live changes and presence of one tree,
+// opened as `${TREE_EVENTS_PATH}?treeId=<id>`
+export const TREE_EVENTS_PATH = "/api/events";
+
+// Close code of a tree's socket once its user has lost access, after being
+// removed from the tree, leaving it or its deletion. Clients don't reconnect.
+export const ACCESS_REVOKED_CLOSE_CODE = 4403;
+
+// Changes to a tree, broadcast to everyone who has it open. Each event
+// lists everything that changed, including reciprocal relationships the
+// server created or deleted along with the requested one.
+export type TreeEvent =
+  | { type: "person-created"; persons: Person[] }
+  | { type: "person-updated"; persons: Person[] }
+  | { type: "person-deleted"; personIds: number[] }
+  | { type: "relationship-created"; relationships: Relationship[] }
+  | { type: "relationship-deleted"; relationshipIds: number[] };
+
+// Responses to changes that also create rows the client didn't ask for,
+// such as reciprocal relationships. They carry the same events that are
+// broadcast, so the client applies its own change like anyone else's.
+export type CreateRelationshipResponse = { relationship: Relationship; events: TreeEvent[] };
+export type ImportResponse = ImportResult & { events: TreeEvent[] };
+
+// The user whose request caused an event
+export type TreeActor = {
+  userId: number;
+  username: string;
+};
+
+export type PresenceMode = "viewing" | "editing";
+
+// Someone with the tree open, and the person they have open if any. A user
+// with the tree open in several tabs has an entry for each.
+export type PresenceEntry = {
+  connectionId: string;
+  userId: number;
+  username: string;
+  personId: number | null;
+  mode: PresenceMode;
+};
+
+export type ServerMessage =
+  | { type: "welcome"; connectionId: string }
+  | { type: "presence"; entries: PresenceEntry[] }
+  | { type: "tree-event"; event: TreeEvent; actor: TreeActor }
+  // The user's role in the tree changed while they had it open
+  | { type: "access-changed"; role: TreeRole };
+
+export type ClientMessage =
+  | { type: "presence"; personId: number | null; mode: PresenceMode };
+
+function upsertById<T extends { id: number }>(items: T[], changed: T[]): T[] {
+  const changedById = new Map(changed.map(item => [item.id, item]));
+  const updated = items.map(item => changedById.get(item.id) ?? item);
+  const existingIds = new Set(items.map(item => item.id));
+  return updated.concat(changed.filter(item => !existingIds.has(item.id)));
+}
+
+/**
+ * Applies a tree event to a copy of the tree data. Applying an event that
+ * is already reflected in the data changes nothing, so clients can apply
+ * the events of their own changes too.
+ */
+export function applyTreeEvent(data: FamilyTreeData, event: TreeEvent): FamilyTreeData {
+  switch (event.type) {
+    case "person-created":
+    case "person-updated":
+      return { ...data, persons: upsertById(data.persons, event.persons) };
+    case "person-deleted": {
+      // The server trashes a person's relationships along with them
+      const deletedIds = new Set(event.personIds);
+      return {
+        persons: data.persons.filter(p => !deletedIds.has(p.id)),
+        relationships: data.relationships.filter(
+          r => !deletedIds.has(r.personId) && !deletedIds.has(r.relatedPersonId)
+        )
+      };
+    }
+    case "relationship-created":
+      return { ...data, relationships: upsertById(data.relationships, event.relationships) };
+    case "relationship-deleted": {
+      const deletedIds = new Set(event.relationshipIds);
+      return { ...data, relationships: data.relationships.filter(r => !deletedIds.has(r.id)) };
+    }
+  }
+}
+
+/**
+ * Describes how a tree changed as events, e.g. after a bulk import
+ */
+export function diffTreeData(before: FamilyTreeData, after: FamilyTreeData): TreeEvent[] {
+  const personsBefore = new Map(before.persons.map(p => [p.id, p]));
+  const relationshipIdsBefore = new Set(before.relationships.map(r => r.id));
+  const personIdsAfter = new Set(after.persons.map(p => p.id));
+  const relationshipIdsAfter = new Set(after.relationships.map(r => r.id));
+
+  const createdPersons = after.persons.filter(p => !personsBefore.has(p.id));
+  const updatedPersons = after.persons.filter(p => {
+    const previous = personsBefore.get(p.id);
+    return previous !== undefined && JSON.stringify(previous) !== JSON.stringify(p);
+  });
+  const deletedPersonIds = before.persons.filter(p => !personIdsAfter.has(p.id)).map(p => p.id);
+  const createdRelationships = after.relationships.filter(r => !relationshipIdsBefore.has(r.id));
+  const deletedRelationshipIds = before.relationships
+    .filter(r => !relationshipIdsAfter.has(r.id))
+    .map(r => r.id);
+
+  const events: TreeEvent[] = [];
+  if (createdPersons.length) events.push({ type: "person-created", persons: createdPersons });
+  if (updatedPersons.length) events.push({ type: "person-updated", persons: updatedPersons });
+  if (deletedPersonIds.length) events.push({ type: "person-deleted", personIds: deletedPersonIds });
+  if (createdRelationships.length) events.push({ type: "relationship-created", relationships: createdRelationships });
+  if (deletedRelationshipIds.length) events.push({ type: "relationship-deleted", relationshipIds: deletedRelationshipIds });
+  return events;
+}
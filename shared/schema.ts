@@ -1,33 +1,141 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Define the person schema
+// Define the user schema. Passwords are stored as salted scrypt hashes.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+// Define the tree schema. Each tree has its own persons and relationships,
+// and belongs to the user who created it.
+export const trees = pgTable("trees", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+});
+
+// Owner of trees from before user accounts, until the first account takes them over
+export const UNOWNED_TREE_OWNER_ID = 0;
+
+// Roles a user can have in a tree, from least to most access. Viewers can
+// only read, editors can also change persons and relationships, and owners
+// can also delete the tree and manage who has access to it.
+export const treeRoles = ["viewer", "editor", "owner"] as const;
+
+// Define the tree membership schema. The user who created a tree is always
+// its owner and has no membership row.
+export const treeMembers = pgTable("tree_members", {
+  id: serial("id").primaryKey(),
+  treeId: integer("tree_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role").$type<TreeRole>().notNull(),
+}, (table) => ({
+  treeUserUnique: unique().on(table.treeId, table.userId),
+}));
+
+// Define the tree invite schema. The first user who opens the link before
+// it expires joins the tree with the invite's role, which uses it up.
+export const treeInvites = pgTable("tree_invites", {
+  id: serial("id").primaryKey(),
+  treeId: integer("tree_id").notNull(),
+  token: text("token").notNull().unique(),
+  role: text("role").$type<TreeRole>().notNull(),
+  createdBy: integer("created_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Define the person schema. The version counts saved changes, so an edit
+// based on an older version can be rejected instead of overwriting newer ones.
+// Each person belongs to the user who added them, who may change them along
+// with the tree's owners; those added before this was recorded have no
+// creator and belong to the owners. Deleted persons stay in the tree's
+// trash, with their deletion time, until they're restored or purged.
 export const persons = pgTable("persons", {
   id: serial("id").primaryKey(),
+  treeId: integer("tree_id").notNull(),
+  version: integer("version").notNull().default(1),
   name: text("name").notNull(),
   gender: text("gender"),
   birthDate: date("birth_date"),
   birthPlace: text("birth_place"),
   deathDate: date("death_date"),
+  deathPlace: text("death_place"),
   notes: text("notes"),
+  createdBy: integer("created_by"),
+  deletedAt: timestamp("deleted_at"),
 });
 
-// Define the relationship schema
+// Define the relationship schema. Relationships of a deleted person go to
+// the trash along with them, with the same deletion time.
 export const relationships = pgTable("relationships", {
   id: serial("id").primaryKey(),
+  treeId: integer("tree_id").notNull(),
   type: text("type").notNull(), // parent, child, spouse, sibling
   personId: integer("person_id").notNull(),
   relatedPersonId: integer("related_person_id").notNull(),
+  deletedAt: timestamp("deleted_at"),
+});
+
+// Changes recorded in the edit history
+export const revisionActions = ["create", "update", "delete", "restore"] as const;
+
+// Define the revision schema: one change to a person or relationship, filed
+// under the person it concerns. A relationship is filed under its personId,
+// so each side of a reciprocal pair shows up in one person's history.
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  treeId: integer("tree_id").notNull(),
+  personId: integer("person_id").notNull(),
+  entityType: text("entity_type").$type<RevisionEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: text("action").$type<RevisionAction>().notNull(),
+  userId: integer("user_id").notNull(),
+  changes: jsonb("changes").$type<RevisionChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Insert schemas. The owner of a tree, the creator of a person and the tree
+// of a person or relationship come from the session and route, not the
+// request body.
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+}).extend({
+  username: z.string().trim().min(1, "Username is required").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const insertTreeSchema = createInsertSchema(trees).omit({
+  id: true,
+  ownerId: true,
+}).extend({
+  name: z.string().trim().min(1, "Tree name is required"),
+});
+
+export const treeMemberRoleSchema = z.object({
+  role: z.enum(treeRoles),
+});
+
+export const insertTreeInviteSchema = z.object({
+  role: z.enum(treeRoles),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
 });
 
-// Insert schemas
 export const insertPersonSchema = createInsertSchema(persons).omit({
   id: true,
+  treeId: true,
+  version: true,
+  createdBy: true,
+  deletedAt: true,
 });
 
 export const insertRelationshipSchema = createInsertSchema(relationships).omit({
   id: true,
+  treeId: true,
+  deletedAt: true,
 });
 
 // Extension for form validation
@@ -42,12 +150,80 @@ export const relationshipFormSchema = insertRelationshipSchema.extend({
   type: z.enum(["parent", "child", "spouse", "sibling"]),
 });
 
+// A whole family tree document, as exported by the client. IDs are only
+// used to link relationships to persons within the document.
+// Merges list imported persons that are the same as an existing person,
+// optionally with the field values to store on the existing person.
+export const importMergeSchema = z.object({
+  importedId: z.number(),
+  existingId: z.number(),
+  person: personFormSchema.optional(),
+});
+
+export const familyTreeImportSchema = z.object({
+  persons: z.array(personFormSchema.extend({ id: z.number() })),
+  relationships: z.array(relationshipFormSchema.extend({ id: z.number().optional() })),
+  merges: z.array(importMergeSchema).optional(),
+});
+
 // Types
-export type Person = typeof persons.$inferSelect;
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+// A user as sent to the client, without the password hash
+export type PublicUser = Omit<User, "password">;
+
+export type Tree = typeof trees.$inferSelect;
+export type InsertTree = z.infer<typeof insertTreeSchema>;
+
+export type TreeRole = typeof treeRoles[number];
+
+// A tree as listed for a user, with what that user may do in it
+export type UserTree = Tree & { role: TreeRole };
+
+export type TreeMembership = typeof treeMembers.$inferSelect;
+
+// Someone with access to a tree, including its creator
+export type TreeMember = {
+  userId: number;
+  username: string;
+  role: TreeRole;
+  isCreator: boolean;
+};
+
+export type TreeInvite = typeof treeInvites.$inferSelect;
+export type InsertTreeInvite = z.infer<typeof insertTreeInviteSchema>;
+
+// What an invite link grants, shown before accepting it
+export type TreeInvitePreview = {
+  treeName: string;
+  role: TreeRole;
+  expiresAt: Date;
+};
+
+// Whether a role gives at least the access of another one
+export function hasTreeRole(role: TreeRole | undefined, required: TreeRole): boolean {
+  return role !== undefined && treeRoles.indexOf(role) >= treeRoles.indexOf(required);
+}
+
+// Whether a user with the given role may edit, delete or restore a person.
+// Editors may only change the people they added; owners may change anyone.
+export function canChangePerson(
+  role: TreeRole | undefined,
+  userId: number | undefined,
+  person: { createdBy: number | null }
+): boolean {
+  if (!hasTreeRole(role, "editor")) return false;
+  return role === "owner" || (userId !== undefined && person.createdBy === userId);
+}
+
+// Persons and relationships as seen within a tree, and in exported documents,
+// which don't belong to any tree. Those in the trash are left out of both.
+export type Person = Omit<typeof persons.$inferSelect, "treeId" | "deletedAt">;
 export type InsertPerson = z.infer<typeof insertPersonSchema>;
 export type PersonForm = z.infer<typeof personFormSchema>;
 
-export type Relationship = typeof relationships.$inferSelect;
+export type Relationship = Omit<typeof relationships.$inferSelect, "treeId" | "deletedAt">;
 export type InsertRelationship = z.infer<typeof insertRelationshipSchema>;
 export type RelationshipForm = z.infer<typeof relationshipFormSchema>;
 
@@ -64,3 +240,35 @@ export type FamilyTreeData = {
   persons: Person[];
   relationships: Relationship[];
 };
+
+export type RevisionAction = typeof revisionActions[number];
+export type RevisionEntityType = "person" | "relationship";
+export type RevisionValue = string | number | null;
+// The value of each changed field before and after the change
+export type RevisionChanges = Record<string, { from: RevisionValue; to: RevisionValue }>;
+export type Revision = typeof revisions.$inferSelect;
+
+// A revision in a person's history, with the name of the user who made it
+export type PersonHistoryEntry = Omit<Revision, "treeId"> & {
+  username: string;
+};
+
+// Deleted persons of a tree, and the relationships deleted along with them
+export type TrashedPerson = Person & { deletedAt: Date };
+export type TrashedRelationship = Relationship & { deletedAt: Date };
+export type TreeTrash = {
+  persons: TrashedPerson[];
+  relationships: TrashedRelationship[];
+  // Days a person stays in the trash before being purged for good
+  retentionDays: number;
+};
+
+export type ImportMerge = z.infer<typeof importMergeSchema>;
+export type FamilyTreeImport = z.infer<typeof familyTreeImportSchema>;
+
+// Summary of a bulk import, with the new ID assigned to each imported person
+export type ImportResult = {
+  personCount: number;
+  relationshipCount: number;
+  personIdMap: Record<number, number>;
+};
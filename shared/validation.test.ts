@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyTreeData, Person, Relationship } from "./schema";
+import { findProblems, relationshipIdentity, validateRelationship } from "./validation";
+
+const person = (id: number, fields: Partial<Person> = {}): Person => ({
+  id, version: 1, name: `Person ${id}`, gender: null,
+  birthDate: null, birthPlace: null, deathDate: null, deathPlace: null, notes: null, createdBy: null,
+  ...fields
+});
+
+const relationship = (id: number, type: string, personId: number, relatedPersonId: number): Relationship =>
+  ({ id, type, personId, relatedPersonId });
+
+// A parent/child pair stored in both directions, as storage records it
+const parentOf = (id: number, parentId: number, childId: number) => [
+  relationship(id, "parent", parentId, childId),
+  relationship(id + 1, "child", childId, parentId)
+];
+
+describe("findProblems", () => {
+  it.each<{ name: string; data: FamilyTreeData; code: string; severity: string; personIds: number[] }>([
+    {
+      name: "a death before the birth",
+      data: { persons: [person(1, { birthDate: "1900-01-01", deathDate: "1899-12-31" })], relationships: [] },
+      code: "death-before-birth", severity: "error", personIds: [1]
+    },
+    {
+      name: "a child born before their parent",
+      data: { persons: [person(1, { birthDate: "1900-01-01" }), person(2, { birthDate: "1890-01-01" })], relationships: parentOf(1, 1, 2) },
+      code: "born-before-parent", severity: "error", personIds: [2, 1]
+    },
+    {
+      name: "a parent younger than 12",
+      data: { persons: [person(1, { birthDate: "1900-01-01" }), person(2, { birthDate: "1910-01-01" })], relationships: parentOf(1, 1, 2) },
+      code: "parent-too-young", severity: "warning", personIds: [1, 2]
+    },
+    {
+      name: "a parent older than 70",
+      data: { persons: [person(1, { birthDate: "1800-01-01" }), person(2, { birthDate: "1880-01-01" })], relationships: parentOf(1, 1, 2) },
+      code: "parent-too-old", severity: "warning", personIds: [1, 2]
+    },
+    {
+      name: "a birth after the mother's death",
+      data: {
+        persons: [person(1, { gender: "female", deathDate: "1900-01-01" }), person(2, { birthDate: "1900-02-01" })],
+        relationships: parentOf(1, 1, 2)
+      },
+      code: "born-after-parent-death", severity: "error", personIds: [2, 1]
+    },
+    {
+      name: "a birth more than nine months after the father's death",
+      data: {
+        persons: [person(1, { gender: "male", deathDate: "1900-01-01" }), person(2, { birthDate: "1901-01-01" })],
+        relationships: parentOf(1, 1, 2)
+      },
+      code: "born-after-parent-death", severity: "error", personIds: [2, 1]
+    },
+    {
+      name: "someone who is their own ancestor",
+      data: { persons: [person(1), person(2), person(3)], relationships: [...parentOf(1, 1, 2), ...parentOf(3, 2, 3), ...parentOf(5, 3, 1)] },
+      code: "ancestry-cycle", severity: "error", personIds: [1, 2, 3]
+    },
+    {
+      name: "a relationship with oneself",
+      data: { persons: [person(1)], relationships: [relationship(1, "spouse", 1, 1)] },
+      code: "self-relationship", severity: "error", personIds: [1]
+    },
+    {
+      name: "the same relationship twice",
+      data: { persons: [person(1), person(2)], relationships: [relationship(1, "spouse", 1, 2), relationship(2, "spouse", 1, 2)] },
+      code: "duplicate-relationship", severity: "warning", personIds: [1, 2]
+    }
+  ])("reports $name", ({ data, code, severity, personIds }) => {
+    const problems = findProblems(data);
+    expect(problems.map(problem => problem.code)).toEqual([code]);
+    expect(problems[0]).toMatchObject({ severity, personIds });
+  });
+
+  it("finds nothing wrong with a plausible family", () => {
+    const data: FamilyTreeData = {
+      persons: [
+        person(1, { gender: "male", birthDate: "1870-05-01", deathDate: "1900-01-01" }),
+        person(2, { gender: "female", birthDate: "1875-03-02", deathDate: "1950-06-07" }),
+        person(3, { birthDate: "1900-08-01" })
+      ],
+      relationships: [relationship(1, "spouse", 1, 2), relationship(2, "spouse", 2, 1), ...parentOf(3, 1, 3), ...parentOf(5, 2, 3)]
+    };
+    expect(findProblems(data)).toEqual([]);
+  });
+
+  it("lists errors before warnings and reports a cycle once", () => {
+    const data: FamilyTreeData = {
+      persons: [person(1), person(2)],
+      relationships: [relationship(1, "spouse", 1, 2), relationship(2, "spouse", 1, 2), ...parentOf(3, 1, 2), ...parentOf(5, 2, 1)]
+    };
+    expect(findProblems(data).map(problem => problem.code)).toEqual(["ancestry-cycle", "duplicate-relationship"]);
+  });
+});
+
+describe("validateRelationship", () => {
+  // 1 and 2 are the parents of 3, who is the parent of 4
+  const existing = [...parentOf(1, 1, 3), ...parentOf(3, 2, 3), ...parentOf(5, 3, 4), relationship(7, "spouse", 1, 2)];
+
+  it.each([
+    { name: "a relationship with oneself", type: "spouse", personId: 3, relatedPersonId: 3, code: "self-relationship" },
+    { name: "an existing parent", type: "parent", personId: 1, relatedPersonId: 3, code: "duplicate-relationship" },
+    { name: "an existing parent stored the other way round", type: "child", personId: 3, relatedPersonId: 2, code: "duplicate-relationship" },
+    { name: "an existing marriage from the other side", type: "spouse", personId: 2, relatedPersonId: 1, code: "duplicate-relationship" },
+    { name: "a third parent", type: "parent", personId: 5, relatedPersonId: 3, code: "too-many-parents" },
+    { name: "a third parent added from the child", type: "child", personId: 3, relatedPersonId: 5, code: "too-many-parents" },
+    { name: "a grandchild as parent", type: "parent", personId: 4, relatedPersonId: 1, code: "ancestry-cycle" },
+    { name: "a grandparent as child", type: "child", personId: 4, relatedPersonId: 1, code: null },
+    { name: "a second parent", type: "parent", personId: 5, relatedPersonId: 4, code: null },
+    { name: "a new sibling", type: "sibling", personId: 3, relatedPersonId: 5, code: null },
+    { name: "a person who isn't saved yet", type: "parent", personId: 0, relatedPersonId: 4, code: null }
+  ])("checks $name", ({ type, personId, relatedPersonId, code }) => {
+    expect(validateRelationship(existing, { type, personId, relatedPersonId })?.code ?? null).toBe(code);
+  });
+});
+
+describe("relationshipIdentity", () => {
+  it("is the same for both rows of a pair", () => {
+    expect(relationshipIdentity("parent", 1, 2)).toBe(relationshipIdentity("child", 2, 1));
+    expect(relationshipIdentity("spouse", 1, 2)).toBe(relationshipIdentity("spouse", 2, 1));
+    expect(relationshipIdentity("parent", 1, 2)).not.toBe(relationshipIdentity("parent", 2, 1));
+  });
+});
@@ -0,0 +1,356 @@
+import type { FamilyTreeData, Person, Relationship } from "./schema";
+
+export type ProblemSeverity = "error" | "warning";
+
+export type ProblemCode =
+  | "death-before-birth"
+  | "born-before-parent"
+  | "parent-too-young"
+  | "parent-too-old"
+  | "born-after-parent-death"
+  | "ancestry-cycle"
+  | "self-relationship"
+  | "duplicate-relationship";
+
+// Errors are impossible records, warnings are merely unlikely ones
+export type Problem = {
+  code: ProblemCode;
+  severity: ProblemSeverity;
+  message: string;
+  // People involved, the one to look at first comes first
+  personIds: number[];
+  relationshipIds: number[];
+};
+
+// Ages at a child's birth outside this range are reported as suspicious
+export const MIN_PARENT_AGE = 12;
+export const MAX_PARENT_AGE = 70;
+
+// A child can be born this long after their father's death
+export const GESTATION_DAYS = 280;
+
+// A parent/child pair and the relationship records stating it
+type ParentLink = {
+  parentId: number;
+  childId: number;
+  relationshipIds: number[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.2425 * DAY_MS;
+
+/**
+ * Parses a stored "YYYY-MM-DD" date into a UTC timestamp
+ */
+function parseDate(value: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(`${value.slice(0, 10)}T00:00:00Z`);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Collects each parent/child pair once, whichever direction it was stored in
+ */
+function getParentLinks(relationships: Relationship[]): Map<string, ParentLink> {
+  const links = new Map<string, ParentLink>();
+
+  relationships.forEach(rel => {
+    if (rel.personId === rel.relatedPersonId) return;
+    if (rel.type !== "parent" && rel.type !== "child") return;
+
+    const parentId = rel.type === "parent" ? rel.personId : rel.relatedPersonId;
+    const childId = rel.type === "parent" ? rel.relatedPersonId : rel.personId;
+    const key = `${parentId}-${childId}`;
+    const link = links.get(key);
+    if (link) link.relationshipIds.push(rel.id);
+    else links.set(key, { parentId, childId, relationshipIds: [rel.id] });
+  });
+
+  return links;
+}
+
+function getChildrenByParent(links: Map<string, ParentLink>): Map<number, number[]> {
+  const children = new Map<number, number[]>();
+  links.forEach(({ parentId, childId }) => {
+    const list = children.get(parentId);
+    if (list) list.push(childId);
+    else children.set(parentId, [childId]);
+  });
+  return children;
+}
+
+function checkLifespans(persons: Person[], problems: Problem[]) {
+  persons.forEach(person => {
+    const birth = parseDate(person.birthDate);
+    const death = parseDate(person.deathDate);
+    if (birth !== null && death !== null && death < birth) {
+      problems.push({
+        code: "death-before-birth",
+        severity: "error",
+        message: `${person.name} died before they were born`,
+        personIds: [person.id],
+        relationshipIds: []
+      });
+    }
+  });
+}
+
+function checkRelationshipRecords(relationships: Relationship[], personsById: Map<number, Person>, problems: Problem[]) {
+  const seen = new Map<string, Relationship>();
+  const getName = (id: number) => personsById.get(id)?.name ?? `Person ${id}`;
+
+  relationships.forEach(rel => {
+    if (rel.personId === rel.relatedPersonId) {
+      problems.push({
+        code: "self-relationship",
+        severity: "error",
+        message: `${getName(rel.personId)} is recorded as their own ${rel.type}`,
+        personIds: [rel.personId],
+        relationshipIds: [rel.id]
+      });
+      return;
+    }
+
+    const key = `${rel.type}-${rel.personId}-${rel.relatedPersonId}`;
+    const original = seen.get(key);
+    if (!original) {
+      seen.set(key, rel);
+      return;
+    }
+
+    problems.push({
+      code: "duplicate-relationship",
+      severity: "warning",
+      message: `${getName(rel.personId)} is recorded as ${getName(rel.relatedPersonId)}'s ${rel.type} more than once`,
+      personIds: [rel.personId, rel.relatedPersonId],
+      relationshipIds: [original.id, rel.id]
+    });
+  });
+}
+
+function checkParentAges(
+  links: Map<string, ParentLink>,
+  personsById: Map<number, Person>,
+  problems: Problem[]
+) {
+  links.forEach(({ parentId, childId, relationshipIds }) => {
+    const parent = personsById.get(parentId);
+    const child = personsById.get(childId);
+    if (!parent || !child) return;
+
+    const childBirth = parseDate(child.birthDate);
+    if (childBirth === null) return;
+
+    const parentBirth = parseDate(parent.birthDate);
+    if (parentBirth !== null) {
+      const age = (childBirth - parentBirth) / YEAR_MS;
+      if (age < 0) {
+        problems.push({
+          code: "born-before-parent",
+          severity: "error",
+          message: `${child.name} was born before their parent ${parent.name}`,
+          personIds: [childId, parentId],
+          relationshipIds
+        });
+      } else if (age < MIN_PARENT_AGE) {
+        problems.push({
+          code: "parent-too-young",
+          severity: "warning",
+          message: `${parent.name} was only ${Math.floor(age)} when ${child.name} was born`,
+          personIds: [parentId, childId],
+          relationshipIds
+        });
+      } else if (age > MAX_PARENT_AGE) {
+        problems.push({
+          code: "parent-too-old",
+          severity: "warning",
+          message: `${parent.name} was ${Math.floor(age)} when ${child.name} was born`,
+          personIds: [parentId, childId],
+          relationshipIds
+        });
+      }
+    }
+
+    // Only a mother's death rules out a later birth outright
+    const parentDeath = parseDate(parent.deathDate);
+    const allowedGap = parent.gender === "female" ? 0 : GESTATION_DAYS * DAY_MS;
+    if (parentDeath !== null && childBirth > parentDeath + allowedGap) {
+      problems.push({
+        code: "born-after-parent-death",
+        severity: "error",
+        message: `${child.name} was born after their parent ${parent.name} died`,
+        personIds: [childId, parentId],
+        relationshipIds
+      });
+    }
+  });
+}
+
+/**
+ * Finds people who are their own ancestor, reporting each cycle once
+ */
+function checkAncestryCycles(
+  links: Map<string, ParentLink>,
+  personsById: Map<number, Person>,
+  problems: Problem[]
+) {
+  const children = getChildrenByParent(links);
+
+  // 1 while a person is on the current path, 2 once all descendants are done
+  const state = new Map<number, 1 | 2>();
+  const reported = new Set<string>();
+
+  children.forEach((_, rootId) => {
+    if (state.has(rootId)) return;
+
+    // Explicit stack so very deep trees can't overflow the call stack
+    const path: number[] = [rootId];
+    const nextChild: number[] = [0];
+    state.set(rootId, 1);
+
+    while (path.length > 0) {
+      const id = path[path.length - 1];
+      const childIds = children.get(id) ?? [];
+      const index = nextChild[nextChild.length - 1]++;
+
+      if (index >= childIds.length) {
+        state.set(id, 2);
+        path.pop();
+        nextChild.pop();
+        continue;
+      }
+
+      const childId = childIds[index];
+      const childState = state.get(childId);
+      if (childState === undefined) {
+        state.set(childId, 1);
+        path.push(childId);
+        nextChild.push(0);
+      } else if (childState === 1) {
+        const cycle = path.slice(path.indexOf(childId));
+        const key = cycle.slice().sort((a, b) => a - b).join("-");
+        if (reported.has(key)) continue;
+        reported.add(key);
+
+        const relationshipIds: number[] = [];
+        cycle.forEach((parentId, i) => {
+          const link = links.get(`${parentId}-${cycle[(i + 1) % cycle.length]}`);
+          if (link) relationshipIds.push(...link.relationshipIds);
+        });
+
+        const names = cycle.map(personId => personsById.get(personId)?.name ?? `Person ${personId}`);
+        problems.push({
+          code: "ancestry-cycle",
+          severity: "error",
+          message: `${names[0]} is their own ancestor (${[...names, names[0]].join(" → ")})`,
+          personIds: cycle,
+          relationshipIds
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Scans a family tree for impossible or suspicious records: lifespans and
+ * parent ages that don't add up, ancestry cycles, and malformed
+ * relationships. Errors are listed before warnings.
+ */
+export function findProblems(data: FamilyTreeData): Problem[] {
+  const personsById = new Map(data.persons.map(person => [person.id, person]));
+  const links = getParentLinks(data.relationships);
+  const problems: Problem[] = [];
+
+  checkLifespans(data.persons, problems);
+  checkRelationshipRecords(data.relationships, personsById, problems);
+  checkParentAges(links, personsById, problems);
+  checkAncestryCycles(links, personsById, problems);
+
+  // Stable sort keeps problems of the same severity in check order
+  return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+}
+
+export type RelationshipErrorCode =
+  | "self-relationship"
+  | "person-not-found"
+  | "duplicate-relationship"
+  | "too-many-parents"
+  | "ancestry-cycle";
+
+// Why a new relationship can't be added, as returned by POST /api/relationships
+export type RelationshipError = {
+  code: RelationshipErrorCode;
+  message: string;
+};
+
+// The most parents a person can be linked to
+export const MAX_PARENTS = 2;
+
+/**
+ * Identifies a relationship regardless of which direction it was stored in
+ */
+export function relationshipIdentity(type: string, personId: number, relatedPersonId: number): string {
+  switch (type) {
+    case "parent":
+      return `parent-${personId}-${relatedPersonId}`;
+    case "child":
+      return `parent-${relatedPersonId}-${personId}`;
+    default:
+      return `${type}-${Math.min(personId, relatedPersonId)}-${Math.max(personId, relatedPersonId)}`;
+  }
+}
+
+/**
+ * Checks whether a relationship can be added next to the existing ones:
+ * rejects self-relationships, duplicates, a third parent and links that
+ * would make someone their own ancestor. Whether both people exist is up
+ * to the caller, so this also works for a person that isn't saved yet.
+ */
+export function validateRelationship(
+  relationships: Relationship[],
+  relationship: Pick<Relationship, "type" | "personId" | "relatedPersonId">
+): RelationshipError | null {
+  const { type, personId, relatedPersonId } = relationship;
+
+  if (personId === relatedPersonId) {
+    return { code: "self-relationship", message: "A person can't be related to themselves" };
+  }
+
+  const identity = relationshipIdentity(type, personId, relatedPersonId);
+  if (relationships.some(rel => relationshipIdentity(rel.type, rel.personId, rel.relatedPersonId) === identity)) {
+    return { code: "duplicate-relationship", message: `This ${type} relationship already exists` };
+  }
+
+  if (type !== "parent" && type !== "child") return null;
+
+  const parentId = type === "parent" ? personId : relatedPersonId;
+  const childId = type === "parent" ? relatedPersonId : personId;
+  const links = getParentLinks(relationships);
+
+  let parentCount = 0;
+  links.forEach(link => {
+    if (link.childId === childId) parentCount++;
+  });
+  if (parentCount >= MAX_PARENTS) {
+    return { code: "too-many-parents", message: `A person can't have more than ${MAX_PARENTS} parents` };
+  }
+
+  // The new parent must not already descend from the child
+  const children = getChildrenByParent(links);
+
+  const visited = new Set<number>([childId]);
+  const queue = [childId];
+  for (let index = 0; index < queue.length; index++) {
+    for (const descendantId of children.get(queue[index]) ?? []) {
+      if (descendantId === parentId) {
+        return { code: "ancestry-cycle", message: "This would make a person their own ancestor" };
+      }
+      if (!visited.has(descendantId)) {
+        visited.add(descendantId);
+        queue.push(descendantId);
+      }
+    }
+  }
+
+  return null;
+}